@@ -0,0 +1,121 @@
+#!/usr/bin/env node
+/**
+ * Replay Helius webhook fixtures against a running app
+ * Posts enhanced-transaction payloads to /api/webhooks/helius exactly as
+ * Helius would, so webhook ingestion can be tested offline
+ *
+ * Usage:
+ *   node scripts/replay-helius-webhook.mjs --wallet <address> [options] [fixture.json ...]
+ *
+ * Options:
+ *   --wallet <address>  Tracked wallet substituted for {{WALLET}} in fixtures (required)
+ *   --url <url>         Receiver URL (default http://localhost:3000/api/webhooks/helius)
+ *   --auth <value>      Authorization header (default $HELIUS_WEBHOOK_AUTH_HEADER)
+ *   --fresh             Give every transaction a new random signature, so
+ *                       replays are not skipped as duplicates
+ *
+ * Without fixture paths every file in scripts/fixtures/helius-webhook is sent.
+ */
+
+import { readFile, readdir } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+
+const FIXTURE_DIR = join(
+  dirname(fileURLToPath(import.meta.url)),
+  "fixtures",
+  "helius-webhook"
+);
+const BASE58_ALPHABET =
+  "123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz";
+
+function parseArgs(argv) {
+  const options = {
+    url: "http://localhost:3000/api/webhooks/helius",
+    auth: process.env.HELIUS_WEBHOOK_AUTH_HEADER,
+    wallet: null,
+    fresh: false,
+    fixtures: [],
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "--url") options.url = argv[++i];
+    else if (arg === "--auth") options.auth = argv[++i];
+    else if (arg === "--wallet") options.wallet = argv[++i];
+    else if (arg === "--fresh") options.fresh = true;
+    else options.fixtures.push(arg);
+  }
+
+  return options;
+}
+
+function randomSignature() {
+  let signature = "";
+  for (let i = 0; i < 88; i++) {
+    signature +=
+      BASE58_ALPHABET[Math.floor(Math.random() * BASE58_ALPHABET.length)];
+  }
+  return signature;
+}
+
+async function loadFixture(path, { wallet, fresh }) {
+  const raw = await readFile(path, "utf8");
+  const transactions = JSON.parse(raw.replaceAll("{{WALLET}}", wallet));
+
+  if (fresh) {
+    for (const transaction of transactions) {
+      transaction.signature = randomSignature();
+      transaction.timestamp = Math.floor(Date.now() / 1000);
+    }
+  }
+
+  return transactions;
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+
+  if (!options.wallet) {
+    console.error("Missing --wallet <address>");
+    process.exit(1);
+  }
+
+  if (!options.auth) {
+    console.error(
+      "Missing --auth <value> (or set HELIUS_WEBHOOK_AUTH_HEADER)"
+    );
+    process.exit(1);
+  }
+
+  const fixtures =
+    options.fixtures.length > 0
+      ? options.fixtures
+      : (await readdir(FIXTURE_DIR))
+          .filter((file) => file.endsWith(".json"))
+          .map((file) => join(FIXTURE_DIR, file));
+
+  let failed = false;
+  for (const fixture of fixtures) {
+    const transactions = await loadFixture(fixture, options);
+    const response = await fetch(options.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: options.auth,
+      },
+      body: JSON.stringify(transactions),
+    });
+    const result = await response.json().catch(() => null);
+
+    console.log(`${fixture} -> ${response.status}`, result);
+    failed ||= !response.ok;
+  }
+
+  process.exit(failed ? 1 : 0);
+}
+
+main().catch((error) => {
+  console.error("Replay failed:", error);
+  process.exit(1);
+});
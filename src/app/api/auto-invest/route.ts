@@ -0,0 +1,58 @@
+/**
+ * Auto-invest log API
+ * GET /api/auto-invest?address=<wallet>&limit=<n> - The wallet's auto-invest
+ * settings and its most recent automatic actions with their reasons
+ *
+ * Headers: Authorization: Bearer <Privy access token>
+ *
+ * Response:
+ * {
+ *   success: true,
+ *   data: {
+ *     settings: { enabled, threshold, cadence },
+ *     log: [{ outcome, reason, amountUsdc, roundupIds, signature, investmentId, createdAt }]
+ *   }
+ * }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeWalletRequest } from '@/lib/privy-server';
+import { getAutoInvestService } from '@/lib/services/auto-invest';
+import { getUserPreferencesService } from '@/lib/services/user-preferences';
+
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const address = searchParams.get('address');
+    const limit = Math.min(parseInt(searchParams.get('limit') || '20', 10) || 20, 100);
+
+    if (!address) {
+      return NextResponse.json(
+        { success: false, error: 'Missing wallet address' },
+        { status: 400 }
+      );
+    }
+
+    const auth = await authorizeWalletRequest(request, address);
+    if (auth.error) return auth.error;
+
+    const [settings, log] = await Promise.all([
+      getUserPreferencesService().getAutoInvestSettings(address),
+      getAutoInvestService().getLog(address, limit),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: { settings, log },
+    });
+  } catch (error) {
+    console.error('Error fetching auto-invest log:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error',
+      },
+      { status: 500 }
+    );
+  }
+}
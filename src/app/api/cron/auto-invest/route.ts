@@ -0,0 +1,53 @@
+/**
+ * Auto-invest cron endpoint
+ * POST /api/cron/auto-invest - Run one auto-invest pass over opted-in wallets
+ * whose cadence is due. For deployments without the in-process scheduler.
+ *
+ * Headers: Authorization: Bearer <CRON_SECRET>
+ *
+ * Response:
+ * {
+ *   success: true,
+ *   data: { results: [{ walletAddress, outcome, reason, amountUsdc?, signature? }] }
+ * }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { config } from '@/lib/config';
+import { getAutoInvestService } from '@/lib/services/auto-invest';
+
+export async function POST(request: NextRequest) {
+  try {
+    const { secret: cronSecret } = config.getCronConfig();
+
+    if (!cronSecret) {
+      return NextResponse.json(
+        { success: false, error: 'CRON_SECRET is not configured' },
+        { status: 503 }
+      );
+    }
+
+    if (request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const results = await getAutoInvestService().runDue();
+
+    return NextResponse.json({
+      success: true,
+      data: { results },
+    });
+  } catch (error) {
+    console.error('Auto-invest cron run failed:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * Wallet sync cron endpoint
+ * POST /api/cron/sync - Queue due wallets and run pending sync jobs.
+ * For deployments without the in-process sync worker.
+ *
+ * Headers: Authorization: Bearer <CRON_SECRET>
+ *
+ * Response: { success: true, data: { queued: number, processed: number } }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { config } from '@/lib/config';
+import { getWalletSyncWorker } from '@/lib/services/wallet-sync';
+
+export async function POST(request: NextRequest) {
+  try {
+    const { secret: cronSecret } = config.getCronConfig();
+
+    if (!cronSecret) {
+      return NextResponse.json(
+        { success: false, error: 'CRON_SECRET is not configured' },
+        { status: 503 }
+      );
+    }
+
+    if (request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const result = await getWalletSyncWorker().runOnce();
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    console.error('Wallet sync cron run failed:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * Investments endpoint
+ * GET /api/investments - Paginated Jupiter Earn deposits and withdrawals for a wallet
+ *
+ * Query: address (required), limit (default 20, max 100), offset (default 0)
+ * Headers: Authorization: Bearer <Privy access token>
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getInvestmentRepository } from '@/lib/services/investment-repository';
+import { authorizeWalletRequest } from '@/lib/privy-server';
+
+const MAX_PAGE_SIZE = 100;
+
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const address = searchParams.get('address');
+    const limit = Math.min(parseInt(searchParams.get('limit') || '20', 10), MAX_PAGE_SIZE);
+    const offset = parseInt(searchParams.get('offset') || '0', 10);
+
+    if (!address) {
+      return NextResponse.json(
+        { success: false, error: 'Missing required parameter: address' },
+        { status: 400 }
+      );
+    }
+
+    if (!Number.isInteger(limit) || limit <= 0 || !Number.isInteger(offset) || offset < 0) {
+      return NextResponse.json(
+        { success: false, error: 'limit must be positive and offset must not be negative' },
+        { status: 400 }
+      );
+    }
+
+    const auth = await authorizeWalletRequest(request, address);
+    if (auth.error) return auth.error;
+
+    const repository = getInvestmentRepository();
+    const [page, summary] = await Promise.all([
+      repository.listInvestments(address, { limit, offset }),
+      repository.getSummary(address),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        address,
+        investments: page.investments,
+        summary,
+        total: page.total,
+        limit,
+        offset,
+        hasMore: offset + page.investments.length < page.total,
+      },
+    });
+  } catch (error) {
+    console.error('Error listing investments:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
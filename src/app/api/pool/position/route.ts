@@ -1,35 +1,42 @@
-import { NextResponse } from 'next/server';
+/**
+ * Pool position endpoint
+ * GET /api/pool/position?wallet=<address> - Live Jupiter Earn USDC position
+ *
+ * Headers: Authorization: Bearer <Privy access token>
+ */
 
-export async function GET(request: Request) {
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeWalletRequest } from '@/lib/privy-server';
+import { getEarnPositionService } from '@/lib/services/earn-position-service';
+
+export async function GET(request: NextRequest) {
   try {
-    const { searchParams } = new URL(request.url);
-    const walletAddress = searchParams.get('wallet');
-    
+    const walletAddress = request.nextUrl.searchParams.get('wallet');
+
     if (!walletAddress) {
       return NextResponse.json(
-        { error: 'Wallet address is required' },
+        { success: false, error: 'Wallet address is required' },
         { status: 400 }
       );
     }
 
-    // Mock pool position data
-    const mockPosition = {
-      wallet: walletAddress,
-      totalValue: 1250.75,
-      userShare: 0.15, // 15%
-      userDeposits: 187.50,
-      totalDeposits: 1250.75,
-      poolSize: 1250.75,
-      lastContribution: "12/15/2024",
-      historicalContributions: 8,
-      status: 'active'
-    };
+    const auth = await authorizeWalletRequest(request, walletAddress);
+    if (auth.error) return auth.error;
+
+    const position = await getEarnPositionService().getPosition(walletAddress);
 
-    return NextResponse.json(mockPosition);
+    return NextResponse.json({
+      success: true,
+      data: position,
+    });
   } catch (error) {
     console.error('Pool position fetch error:', error);
     return NextResponse.json(
-      { error: 'Failed to fetch pool position' },
+      {
+        success: false,
+        error: 'Failed to fetch pool position',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
       { status: 500 }
     );
   }
@@ -0,0 +1,189 @@
+/**
+ * User Preferences API
+ * Controls which transaction categories generate round-ups and auto-invest
+ *
+ * GET /api/preferences?address=<wallet>
+ * PUT /api/preferences
+ * Headers: Authorization: Bearer <Privy access token> (both methods)
+ * Body: {
+ *   address: string,
+ *   roundupCategories?: TransactionCategory[],
+ *   autoInvest?: { enabled?: boolean, threshold?: number, cadence?: 'daily' | 'weekly' | 'threshold' }
+ * }
+ *
+ * Response:
+ * {
+ *   success: true,
+ *   data: {
+ *     roundupCategories: TransactionCategory[],
+ *     availableCategories: TransactionCategory[],
+ *     autoInvest: { enabled, threshold, cadence }
+ *   }
+ * }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  AUTO_INVEST_CADENCES,
+  AutoInvestSettings,
+  getUserPreferencesService,
+  isAutoInvestCadence,
+} from '@/lib/services/user-preferences';
+import { MIN_INVESTMENT_USD } from '@/lib/services/roundup-calculator';
+import {
+  CONFIGURABLE_ROUNDUP_CATEGORIES,
+  TRANSACTION_CATEGORIES,
+  isTransactionCategory,
+} from '@/lib/services/transaction-classifier';
+import { authorizeWalletRequest } from '@/lib/privy-server';
+
+// Validate the auto-invest part of a PUT body; returns an error message or
+// the settings to change
+function parseAutoInvest(value: unknown): { error: string } | { settings: Partial<AutoInvestSettings> } {
+  if (typeof value !== 'object' || value === null) {
+    return { error: 'autoInvest must be an object' };
+  }
+
+  const { enabled, threshold, cadence } = value as Record<string, unknown>;
+  const settings: Partial<AutoInvestSettings> = {};
+
+  if (enabled !== undefined) {
+    if (typeof enabled !== 'boolean') return { error: 'autoInvest.enabled must be a boolean' };
+    settings.enabled = enabled;
+  }
+
+  if (threshold !== undefined) {
+    if (typeof threshold !== 'number' || !Number.isFinite(threshold) || threshold < MIN_INVESTMENT_USD) {
+      return { error: `autoInvest.threshold must be at least ${MIN_INVESTMENT_USD.toFixed(2)} USDC` };
+    }
+    settings.threshold = threshold;
+  }
+
+  if (cadence !== undefined) {
+    if (!isAutoInvestCadence(cadence)) {
+      return { error: `autoInvest.cadence must be one of: ${AUTO_INVEST_CADENCES.join(', ')}` };
+    }
+    settings.cadence = cadence;
+  }
+
+  return { settings };
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const address = request.nextUrl.searchParams.get('address');
+
+    if (!address) {
+      return NextResponse.json(
+        { success: false, error: 'Missing wallet address' },
+        { status: 400 }
+      );
+    }
+
+    const auth = await authorizeWalletRequest(request, address);
+    if (auth.error) return auth.error;
+
+    const preferencesService = getUserPreferencesService();
+    const [roundupCategories, autoInvest] = await Promise.all([
+      preferencesService.getRoundupCategories(address),
+      preferencesService.getAutoInvestSettings(address),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        roundupCategories,
+        availableCategories: CONFIGURABLE_ROUNDUP_CATEGORIES,
+        autoInvest,
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching preferences:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { address, roundupCategories, autoInvest } = body;
+
+    if (!address || typeof address !== 'string') {
+      return NextResponse.json(
+        { success: false, error: 'Invalid wallet address' },
+        { status: 400 }
+      );
+    }
+
+    const auth = await authorizeWalletRequest(request, address);
+    if (auth.error) return auth.error;
+
+    if (roundupCategories === undefined && autoInvest === undefined) {
+      return NextResponse.json(
+        { success: false, error: 'Nothing to update: pass roundupCategories or autoInvest' },
+        { status: 400 }
+      );
+    }
+
+    if (
+      roundupCategories !== undefined &&
+      (!Array.isArray(roundupCategories) || !roundupCategories.every(isTransactionCategory))
+    ) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `roundupCategories must be a list of: ${TRANSACTION_CATEGORIES.join(', ')}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const parsedAutoInvest = autoInvest === undefined ? null : parseAutoInvest(autoInvest);
+    if (parsedAutoInvest && 'error' in parsedAutoInvest) {
+      return NextResponse.json(
+        { success: false, error: parsedAutoInvest.error },
+        { status: 400 }
+      );
+    }
+
+    const preferencesService = getUserPreferencesService();
+
+    if (roundupCategories !== undefined) {
+      await preferencesService.setRoundupCategories(address, roundupCategories);
+    }
+
+    if (parsedAutoInvest) {
+      // The signed-in user is stored so scheduled deposits are signed for them
+      await preferencesService.setAutoInvestSettings(address, parsedAutoInvest.settings, auth.userId);
+    }
+
+    const [categories, autoInvestSettings] = await Promise.all([
+      preferencesService.getRoundupCategories(address),
+      preferencesService.getAutoInvestSettings(address),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        roundupCategories: categories,
+        availableCategories: CONFIGURABLE_ROUNDUP_CATEGORIES,
+        autoInvest: autoInvestSettings,
+      },
+    });
+  } catch (error) {
+    console.error('Error updating preferences:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error',
+      },
+      { status: 500 }
+    );
+  }
+}
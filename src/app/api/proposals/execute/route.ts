@@ -0,0 +1,243 @@
+/**
+ * Execute proposals endpoint
+ * POST /api/proposals/execute - Deposit the spare change of accepted proposals
+ * into Jupiter Earn as one transaction
+ *
+ * Headers: Authorization: Bearer <Privy access token>
+ * Body: { address: string, id?: number, ids?: number[] }
+ *
+ * The proposals are claimed as 'executing' before the deposit is sent, so a
+ * concurrent request for the same proposals gets 409. On success every
+ * proposal moves to 'executed' with the deposit signature; on failure they
+ * return to 'accepted' and the error is recorded on each.
+ *
+ * Proposals whose round-up was already invested, e.g. through
+ * /api/transactions/sign or auto-invest, move to 'executed' with that
+ * deposit's signature and are left out of the new deposit.
+ *
+ * If the deposit lands but the proposals cannot be moved to 'executed', the
+ * signature is returned with the error and kept on the claim. Proposals left
+ * 'executing' are reconciled from their deposit or round-ups on the wallet's
+ * next execute request.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getProposalRepository,
+  ProposalTransitionError,
+} from '@/lib/services/proposal-repository';
+import { getLendTransactionService } from '@/lib/services/lend-transaction-service';
+import { getRoundupCalculator } from '@/lib/services/roundup-calculator';
+import { authorizeWalletRequest } from '@/lib/privy-server';
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { address, id, ids } = body;
+
+    if (!address || typeof address !== 'string') {
+      return NextResponse.json(
+        { success: false, error: 'Missing required parameter: address' },
+        { status: 400 }
+      );
+    }
+
+    const auth = await authorizeWalletRequest(request, address);
+    if (auth.error) return auth.error;
+
+    if (ids !== undefined && !Array.isArray(ids)) {
+      return NextResponse.json(
+        { success: false, error: 'ids must be an array of proposal ids' },
+        { status: 400 }
+      );
+    }
+
+    const proposalIds: unknown[] = ids ?? (id !== undefined ? [id] : []);
+
+    if (proposalIds.length === 0 || !proposalIds.every((value) => Number.isInteger(value))) {
+      return NextResponse.json(
+        { success: false, error: 'Provide a proposal id or a list of ids' },
+        { status: 400 }
+      );
+    }
+
+    const repository = getProposalRepository();
+
+    // Settle proposals an earlier request left 'executing', after their
+    // unconfirmed deposits have been checked
+    try {
+      await getLendTransactionService().reconcileFailedDeposits(address);
+      await repository.reconcileExecuting(address);
+    } catch (reconcileError) {
+      console.error('Failed to reconcile executing proposals:', reconcileError);
+    }
+
+    // Refuse the whole batch if any proposal is not accepted
+    const proposals = await repository.assertTransition(
+      address,
+      proposalIds as number[],
+      'executing'
+    );
+
+    const invested = await repository.getInvestedDeposits(
+      address,
+      proposals.map((proposal) => proposal.transactionSignature)
+    );
+    const alreadyInvested = proposals.filter((proposal) =>
+      invested.has(proposal.transactionSignature)
+    );
+    const toDeposit = proposals.filter(
+      (proposal) => !invested.has(proposal.transactionSignature)
+    );
+
+    const unpriced = toDeposit.filter((proposal) => proposal.spareChangeAmountUsd === undefined);
+    if (unpriced.length > 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Proposals need a USD price before they can be executed: ${unpriced
+            .map((proposal) => `#${proposal.id}`)
+            .join(', ')}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    // USDC has 6 decimals
+    const amount =
+      Math.round(
+        toDeposit.reduce((sum, proposal) => sum + (proposal.spareChangeAmountUsd || 0), 0) *
+          1_000_000
+      ) / 1_000_000;
+
+    if (toDeposit.length > 0 && amount <= 0) {
+      return NextResponse.json(
+        { success: false, error: 'Nothing to deposit for these proposals' },
+        { status: 400 }
+      );
+    }
+
+    // Status-guarded claim: only one request moves these proposals out of
+    // 'accepted', the other gets a ProposalTransitionError (409)
+    await repository.transitionStatus(
+      address,
+      proposals.map((proposal) => proposal.id),
+      'executing'
+    );
+
+    const settled = await repository.markExecutedBy(
+      address,
+      new Map(
+        alreadyInvested.map((proposal) => [
+          proposal.id,
+          invested.get(proposal.transactionSignature) ?? null,
+        ])
+      )
+    );
+
+    if (toDeposit.length === 0) {
+      return NextResponse.json({
+        success: true,
+        data: {
+          address,
+          signature: null,
+          amount: 0,
+          proposals: settled,
+          count: settled.length,
+          alreadyInvested: settled.map((proposal) => proposal.id),
+        },
+      });
+    }
+
+    const executedIds = toDeposit.map((proposal) => proposal.id);
+
+    let signature: string;
+    try {
+      // Round-ups behind these proposals are swept into the deposit
+      const roundups = await getRoundupCalculator().getRoundupsByTransactionIds(
+        address,
+        Array.from(new Set(toDeposit.map((proposal) => proposal.transactionSignature)))
+      );
+
+      const result = await getLendTransactionService().execute({
+        action: 'deposit',
+        amount,
+        walletAddress: address,
+        userId: auth.userId,
+        roundupIds: roundups.map((roundup) => roundup.id),
+      });
+      signature = result.signature;
+    } catch (depositError) {
+      const executionError =
+        depositError instanceof Error ? depositError.message : String(depositError);
+
+      // Release the claim so the proposals can be executed again; a sent but
+      // unconfirmed deposit keeps its round-ups out of the next one
+      await repository.recordExecutionError(address, executedIds, executionError);
+      await repository.transitionStatus(address, executedIds, 'accepted');
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Deposit failed',
+          details: executionError,
+        },
+        { status: 502 }
+      );
+    }
+
+    let executed;
+    try {
+      executed = await repository.transitionStatus(address, executedIds, 'executed', {
+        executionSignature: signature,
+      });
+    } catch (transitionError) {
+      console.error(`Failed to mark proposals executed by ${signature}:`, transitionError);
+
+      // The deposit landed: keep its signature on the claim for reconciliation
+      try {
+        await repository.recordExecutionSignature(address, executedIds, signature);
+      } catch (recordError) {
+        console.error(`Failed to record deposit ${signature} on proposals:`, recordError);
+      }
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Deposit confirmed, but the proposals could not be marked executed',
+          details: transitionError instanceof Error ? transitionError.message : String(transitionError),
+          signature,
+        },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        address,
+        signature,
+        amount,
+        proposals: [...settled, ...executed],
+        count: settled.length + executed.length,
+        alreadyInvested: settled.map((proposal) => proposal.id),
+      },
+    });
+  } catch (error) {
+    console.error('Error executing proposals:', error);
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    const statusCode =
+      error instanceof ProposalTransitionError
+        ? errorMessage.includes('not found') ? 404 : 409
+        : 500;
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: errorMessage,
+      },
+      { status: statusCode }
+    );
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * Reject proposals endpoint
+ * POST /api/proposals/reject - Reject a single proposal or a batch
+ *
+ * Headers: Authorization: Bearer <Privy access token>
+ * Body: { address: string, id?: number, ids?: number[] }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getProposalRepository,
+  ProposalTransitionError,
+} from '@/lib/services/proposal-repository';
+import { authorizeWalletRequest } from '@/lib/privy-server';
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { address, id, ids } = body;
+
+    if (!address || typeof address !== 'string') {
+      return NextResponse.json(
+        { success: false, error: 'Missing required parameter: address' },
+        { status: 400 }
+      );
+    }
+
+    const auth = await authorizeWalletRequest(request, address);
+    if (auth.error) return auth.error;
+
+    const proposalIds: unknown[] = ids ?? (id !== undefined ? [id] : []);
+
+    if (proposalIds.length === 0 || !proposalIds.every((value) => Number.isInteger(value))) {
+      return NextResponse.json(
+        { success: false, error: 'Provide a proposal id or a list of ids' },
+        { status: 400 }
+      );
+    }
+
+    const proposals = await getProposalRepository().transitionStatus(
+      address,
+      proposalIds as number[],
+      'rejected'
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        address,
+        proposals,
+        count: proposals.length,
+      },
+    });
+  } catch (error) {
+    console.error('Error rejecting proposals:', error);
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    const statusCode =
+      error instanceof ProposalTransitionError
+        ? errorMessage.includes('not found') ? 404 : 409
+        : 500;
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: errorMessage,
+      },
+      { status: statusCode }
+    );
+  }
+}
@@ -1,15 +1,42 @@
 /**
  * Spare change proposals endpoint
- * GET /api/proposals - Generate spare change proposals for a wallet's transactions
- * POST /api/proposals - Generate and optionally save proposals
+ * GET /api/proposals - Generate spare change proposals from a wallet's stored round-ups
+ * POST /api/proposals - Ingest new transactions, generate and optionally save proposals
+ *
+ * GET only reads round-ups already stored, so it has no side effects. POST
+ * runs the same round-up pipeline as /api/roundups/track first, so their USD
+ * amounts match the dashboard. Amount limits are in USD.
+ *
+ * Saved proposals are listed by GET /api/proposals/saved
+ *
+ * Headers: Authorization: Bearer <Privy access token>
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { TransactionFetcher } from '@/lib/services/transaction-fetcher';
-import { ProposalEngine, ProposalConfig } from '@/lib/services/proposal-engine';
+import { getRoundupPipeline } from '@/lib/services/roundup-pipeline';
+import { getRoundupCalculator, toRoundupCalculation } from '@/lib/services/roundup-calculator';
+import {
+  DEFAULT_MAX_PROPOSAL_USD,
+  DEFAULT_MIN_PROPOSAL_USD,
+  ProposalEngine,
+  ProposalConfig,
+} from '@/lib/services/proposal-engine';
+import { getProposalRepository, UpsertProposalsResult } from '@/lib/services/proposal-repository';
 import { WalletFactory } from '@/lib/wallet/interface';
+import { authorizeWalletRequest } from '@/lib/privy-server';
 import { config } from '@/lib/config';
 
+// Most stored round-ups GET builds proposals from
+const MAX_STORED_ROUNDUPS = 1000;
+
+/**
+ * Unix timestamp (seconds) where the lookback window starts
+ */
+function getLookbackStart(lookbackDays?: number): number {
+  const days = lookbackDays || config.getTransactionLookbackDays();
+  return Math.floor(Date.now() / 1000) - days * 24 * 60 * 60;
+}
+
 export async function GET(request: NextRequest) {
   try {
     const searchParams = request.nextUrl.searchParams;
@@ -27,30 +54,36 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    // Create wallet provider from typed address
-    const walletProvider = WalletFactory.createTypedAddress(address);
+    // Validate the address
+    WalletFactory.createTypedAddress(address);
+
+    const auth = await authorizeWalletRequest(request, address);
+    if (auth.error) return auth.error;
 
     // Initialize services
-    const transactionFetcher = new TransactionFetcher();
     const proposalEngine = new ProposalEngine();
 
-    // Fetch transactions
-    const transactions = await transactionFetcher.fetchTransactions(walletProvider, {
-      lookbackDays: lookbackDays ? parseInt(lookbackDays, 10) : undefined,
-    });
+    // Round-ups already stored for the lookback window; nothing is ingested
+    const since = getLookbackStart(lookbackDays ? parseInt(lookbackDays, 10) : undefined);
+    const records = await getRoundupCalculator().getRoundups(
+      address,
+      MAX_STORED_ROUNDUPS,
+      undefined,
+      new Date(since * 1000)
+    );
 
     // Configure proposal generation
     const proposalConfig: ProposalConfig = {
       roundupEnabled,
       percentageEnabled,
       percentageRate: percentageRate ? parseFloat(percentageRate) : config.getConfig().defaultPercentageRate,
-      minProposalAmount: 0.001, // Minimum 0.001 SOL
-      maxProposalAmount: 1.0, // Maximum 1.0 SOL per proposal
+      minProposalAmount: DEFAULT_MIN_PROPOSAL_USD,
+      maxProposalAmount: DEFAULT_MAX_PROPOSAL_USD,
     };
 
     // Generate proposals
-    const result = await proposalEngine.generateProposals(
-      transactions,
+    const result = proposalEngine.generateProposals(
+      records.map(toRoundupCalculation),
       address,
       proposalConfig
     );
@@ -108,16 +141,18 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Create wallet provider from typed address
-    const walletProvider = WalletFactory.createTypedAddress(address);
+    // Validate the address
+    WalletFactory.createTypedAddress(address);
+
+    const auth = await authorizeWalletRequest(request, address);
+    if (auth.error) return auth.error;
 
     // Initialize services
-    const transactionFetcher = new TransactionFetcher();
     const proposalEngine = new ProposalEngine();
 
-    // Fetch transactions
-    const transactions = await transactionFetcher.fetchTransactions(walletProvider, {
-      lookbackDays,
+    // Ingest, price and calculate round-ups for the lookback window
+    const roundups = await getRoundupPipeline().run(address, {
+      since: getLookbackStart(lookbackDays),
     });
 
     // Configure proposal generation
@@ -125,21 +160,22 @@ export async function POST(request: NextRequest) {
       roundupEnabled,
       percentageEnabled,
       percentageRate: percentageRate || config.getConfig().defaultPercentageRate,
-      minProposalAmount: minProposalAmount || 0.001,
-      maxProposalAmount: maxProposalAmount || 1.0,
+      minProposalAmount: minProposalAmount || DEFAULT_MIN_PROPOSAL_USD,
+      maxProposalAmount: maxProposalAmount || DEFAULT_MAX_PROPOSAL_USD,
     };
 
     // Generate proposals
-    const result = await proposalEngine.generateProposals(
-      transactions,
+    const result = proposalEngine.generateProposals(
+      roundups.calculations,
       address,
       proposalConfig
     );
 
-    // TODO: If saveToDatabase is true, save proposals to database
-    // This would require implementing a database service first
+    // Save proposals; existing ones keep their stored status
+    let saved: UpsertProposalsResult | null = null;
     if (saveToDatabase) {
-      console.warn('Database saving not yet implemented. Proposals generated but not saved.');
+      saved = await getProposalRepository().upsertProposals(result.proposals);
+      console.log(`Saved ${saved.inserted} new proposals (${saved.proposals.length} total) for ${address}`);
     }
 
     return NextResponse.json({
@@ -147,7 +183,7 @@ export async function POST(request: NextRequest) {
       data: {
         address,
         config: proposalConfig,
-        proposals: result.proposals,
+        proposals: saved ? saved.proposals : result.proposals,
         summary: {
           totalProposals: result.proposals.length,
           totalSpareChangeSol: result.totalSpareChange,
@@ -155,6 +191,7 @@ export async function POST(request: NextRequest) {
           roundupProposals: result.proposals.filter(p => p.proposalType === 'roundup').length,
           percentageProposals: result.proposals.filter(p => p.proposalType === 'percentage').length,
           saved: saveToDatabase,
+          inserted: saved ? saved.inserted : 0,
         },
       },
     });
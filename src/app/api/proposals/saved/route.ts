@@ -0,0 +1,73 @@
+/**
+ * Saved proposals endpoint
+ * GET /api/proposals/saved - List stored proposals for a wallet
+ *
+ * Query: address (required), status (optional, comma-separated),
+ *        limit (default 100), offset (default 0)
+ * Headers: Authorization: Bearer <Privy access token>
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getProposalRepository } from '@/lib/services/proposal-repository';
+import { authorizeWalletRequest } from '@/lib/privy-server';
+import type { ProposalStatus } from '@/lib/db/types';
+
+const PROPOSAL_STATUSES: ProposalStatus[] = ['pending', 'accepted', 'rejected', 'executing', 'executed'];
+
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const address = searchParams.get('address');
+    const statusParam = searchParams.get('status');
+    const limit = parseInt(searchParams.get('limit') || '100', 10);
+    const offset = parseInt(searchParams.get('offset') || '0', 10);
+
+    if (!address) {
+      return NextResponse.json(
+        { error: 'Missing required parameter: address' },
+        { status: 400 }
+      );
+    }
+
+    const auth = await authorizeWalletRequest(request, address);
+    if (auth.error) return auth.error;
+
+    const statuses = statusParam
+      ? (statusParam.split(',').map((status) => status.trim()) as ProposalStatus[])
+      : undefined;
+
+    if (statuses && !statuses.every((status) => PROPOSAL_STATUSES.includes(status))) {
+      return NextResponse.json(
+        { error: `Invalid status. Must be one of: ${PROPOSAL_STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const proposals = await getProposalRepository().listProposals(address, {
+      status: statuses,
+      limit,
+      offset,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        address,
+        proposals,
+        count: proposals.length,
+        limit,
+        offset,
+      },
+    });
+  } catch (error) {
+    console.error('Error listing saved proposals:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * Manual Round-up Pricing API
+ * Supplies a USD price for a round-up asset that could not be priced
+ * A round-up that spent several unpriced assets stays unpriced until each
+ * one has a price; tokenMint picks the asset (the record's token by default)
+ * Once the round-up is fully priced, its saved proposals that were waiting
+ * for a price are repriced from it, so they can be executed
+ *
+ * POST /api/roundups/manual-price
+ * Headers: Authorization: Bearer <Privy access token>
+ * Body: { address: string, transactionId: string, priceUsd: number, tokenMint?: string | null }
+ *
+ * Response:
+ * {
+ *   success: true,
+ *   data: {
+ *     record: RoundupRecord,
+ *     repricedProposals: number,
+ *     totalRoundup: number
+ *   }
+ * }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getRoundupCalculator, toRoundupCalculation } from '@/lib/services/roundup-calculator';
+import { getProposalRepository } from '@/lib/services/proposal-repository';
+import { authorizeWalletRequest } from '@/lib/privy-server';
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { address, transactionId, priceUsd, tokenMint } = body;
+
+    // Validate parameters
+    if (!address || typeof address !== 'string') {
+      return NextResponse.json(
+        { success: false, error: 'Invalid wallet address' },
+        { status: 400 }
+      );
+    }
+
+    const auth = await authorizeWalletRequest(request, address);
+    if (auth.error) return auth.error;
+
+    if (!transactionId || typeof transactionId !== 'string') {
+      return NextResponse.json(
+        { success: false, error: 'Missing transaction ID' },
+        { status: 400 }
+      );
+    }
+
+    if (typeof priceUsd !== 'number' || !Number.isFinite(priceUsd) || priceUsd <= 0) {
+      return NextResponse.json(
+        { success: false, error: 'priceUsd must be a positive number' },
+        { status: 400 }
+      );
+    }
+
+    if (tokenMint !== undefined && tokenMint !== null && typeof tokenMint !== 'string') {
+      return NextResponse.json(
+        { success: false, error: 'tokenMint must be a string' },
+        { status: 400 }
+      );
+    }
+
+    const roundupCalculator = getRoundupCalculator();
+
+    const record = await roundupCalculator.applyManualPrice(address, transactionId, priceUsd, tokenMint);
+    const repricedProposals = await getProposalRepository().repriceFromRoundup(
+      address,
+      toRoundupCalculation(record)
+    );
+    const totalRoundup = await roundupCalculator.getTotalRoundup(address);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        record,
+        repricedProposals,
+        totalRoundup,
+      },
+    });
+  } catch (error) {
+    console.error('Error applying manual price:', error);
+
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    const statusCode = errorMessage.includes('already priced')
+      ? 409
+      : errorMessage.includes('no unpriced asset')
+        ? 404
+        : 500;
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: errorMessage,
+      },
+      { status: statusCode }
+    );
+  }
+}
@@ -3,7 +3,13 @@
  * Fetches new transactions since baseline and calculates/stores round-ups
  *
  * POST /api/roundups/track
- * Body: { address: string, limit?: number }
+ * Headers: Authorization: Bearer <Privy access token>
+ * Body: { address: string, limit?: number, ignoreBaseline?: boolean }
+ *
+ * Incremental mode walks every transaction since the baseline in chunks of
+ * `limit` and moves the baseline. Historical mode (ignoreBaseline) reads
+ * only the newest `limit` transactions and leaves the baseline alone.
+ * Transactions that fail are reported and retried by the next run.
  *
  * Response:
  * {
@@ -12,6 +18,9 @@
  *     processed: number,
  *     stored: number,
  *     skipped: number,
+ *     failed: number,
+ *     unpriced: number,
+ *     excluded: number,
  *     totalRoundup: number,
  *     newBaseline: string
  *   }
@@ -19,9 +28,17 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { getHeliusService } from '@/lib/services/helius-service';
 import { getBaselineTracker } from '@/lib/services/baseline-tracker';
 import { getRoundupCalculator } from '@/lib/services/roundup-calculator';
+import { getRoundupPipeline } from '@/lib/services/roundup-pipeline';
+import { getUserPreferencesService } from '@/lib/services/user-preferences';
+import { authorizeWalletRequest } from '@/lib/privy-server';
+import type { RoundupStatus } from '@/lib/db/types';
+
+const ROUNDUP_STATUSES: RoundupStatus[] = ['pending', 'swept', 'invested', 'failed'];
+
+// Most outgoing transactions one request ingests per chunk
+const MAX_TRACK_LIMIT = 1000;
 
 export async function POST(request: NextRequest) {
   try {
@@ -36,8 +53,17 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_TRACK_LIMIT) {
+      return NextResponse.json(
+        { success: false, error: `limit must be an integer between 1 and ${MAX_TRACK_LIMIT}` },
+        { status: 400 }
+      );
+    }
+
+    const auth = await authorizeWalletRequest(request, address);
+    if (auth.error) return auth.error;
+
     // Initialize services
-    const heliusService = getHeliusService();
     const baselineTracker = getBaselineTracker();
     const roundupCalculator = getRoundupCalculator();
 
@@ -63,46 +89,33 @@ export async function POST(request: NextRequest) {
       console.log(`Fetching transactions after baseline: ${tracking.last_tracked_tx}`);
     }
 
-    const newTransactions = await heliusService.fetchOutgoingTransactions(
-      address,
+    // Ingest, price, calculate and store round-ups; only an incremental run
+    // walks to the baseline and moves it, so historical runs stay bounded
+    const result = await getRoundupPipeline().run(address, {
       limit,
-      baselineSignature
-    );
-
-    console.log(`Found ${newTransactions.length} new outgoing transactions`);
-
-    if (newTransactions.length === 0) {
-      return NextResponse.json({
-        success: true,
-        data: {
-          processed: 0,
-          stored: 0,
-          skipped: 0,
-          totalRoundup: await roundupCalculator.getTotalRoundup(address),
-          newBaseline: tracking.last_tracked_tx,
-        },
-      });
-    }
-
-    // Process and store round-ups
-    const result = await roundupCalculator.processAndStoreTransactions(address, newTransactions);
+      afterSignature: baselineSignature,
+      advanceBaseline: !ignoreBaseline,
+    });
 
-    // Update baseline to the most recent transaction
-    const mostRecentTx = newTransactions[0]; // Transactions are returned newest first
-    await baselineTracker.updateLastTracked(address, mostRecentTx.signature);
+    console.log(`Found ${result.processed} new outgoing transactions`);
 
-    // Get updated total round-up
+    // Get updated total round-up and the wallet's investment threshold
     const totalRoundup = await roundupCalculator.getTotalRoundup(address);
+    const { threshold } = await getUserPreferencesService().getAutoInvestSettings(address);
 
     return NextResponse.json({
       success: true,
       data: {
-        processed: result.total,
+        processed: result.processed,
         stored: result.stored,
         skipped: result.skipped,
+        failed: result.failed,
+        unpriced: result.unpriced,
+        excluded: result.excluded,
         totalRoundup,
-        newBaseline: mostRecentTx.signature,
-        isReadyForInvestment: totalRoundup >= 1.0,
+        newBaseline: result.baseline || tracking.last_tracked_tx,
+        investmentThreshold: threshold,
+        isReadyForInvestment: totalRoundup >= threshold,
         mode: ignoreBaseline ? 'historical' : 'incremental',
       },
     });
@@ -119,14 +132,19 @@ export async function POST(request: NextRequest) {
 }
 
 /**
- * GET /api/roundups/track
+ * GET /api/roundups/track?address=<address>&limit=<n>&status=<statuses>
  * Get round-up records for a wallet
+ * status is a comma-separated list of pending, swept, invested and failed;
+ * only pending (un-invested) round-ups are returned by default
  */
 export async function GET(request: NextRequest) {
   try {
     const searchParams = request.nextUrl.searchParams;
     const address = searchParams.get('address');
     const limit = parseInt(searchParams.get('limit') || '100');
+    const status = (searchParams.get('status') || 'pending')
+      .split(',')
+      .map((value) => value.trim()) as RoundupStatus[];
 
     if (!address) {
       return NextResponse.json(
@@ -135,12 +153,24 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    const invalidStatus = status.find((value) => !ROUNDUP_STATUSES.includes(value));
+    if (invalidStatus) {
+      return NextResponse.json(
+        { success: false, error: `Invalid status: ${invalidStatus}` },
+        { status: 400 }
+      );
+    }
+
+    const auth = await authorizeWalletRequest(request, address);
+    if (auth.error) return auth.error;
+
     const roundupCalculator = getRoundupCalculator();
 
     // Get round-up records
-    const records = await roundupCalculator.getRoundups(address, limit);
+    const records = await roundupCalculator.getRoundups(address, limit, status);
     const totalRoundup = await roundupCalculator.getTotalRoundup(address);
-    const isReady = await roundupCalculator.isReadyForInvestment(address);
+    const { threshold } = await getUserPreferencesService().getAutoInvestSettings(address);
+    const isReady = await roundupCalculator.isReadyForInvestment(address, threshold);
 
     return NextResponse.json({
       success: true,
@@ -148,6 +178,7 @@ export async function GET(request: NextRequest) {
         records,
         totalRoundup,
         count: records.length,
+        investmentThreshold: threshold,
         isReadyForInvestment: isReady,
       },
     });
@@ -0,0 +1,79 @@
+/**
+ * Transaction preview endpoint
+ * Builds the exact Jupiter Lend transaction /api/transactions/sign would send
+ * and simulates it, without signing anything
+ *
+ * POST /api/transactions/preview
+ * Headers: Authorization: Bearer <Privy access token>
+ * Body: { action: "deposit" | "withdraw", amount: number, walletAddress: string }
+ *
+ * Response data: { success, feeLamports, feeSol, computeUnits, computeUnitLimit,
+ * shares, error?: { code, message }, logs }
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { authorizeWalletRequest } from "@/lib/privy-server";
+import { getLendTransactionService } from "@/lib/services/lend-transaction-service";
+
+export async function POST(request: NextRequest) {
+	try {
+		const body = await request.json();
+		const { action, amount, walletAddress } = body;
+
+		if (!action || !amount || !walletAddress) {
+			return NextResponse.json(
+				{
+					success: false,
+					error:
+						"Missing required parameters: action, amount, walletAddress",
+				},
+				{ status: 400 }
+			);
+		}
+
+		if (action !== "deposit" && action !== "withdraw") {
+			return NextResponse.json(
+				{
+					success: false,
+					error: "Invalid action. Must be 'deposit' or 'withdraw'",
+				},
+				{ status: 400 }
+			);
+		}
+
+		if (typeof amount !== "number" || amount <= 0) {
+			return NextResponse.json(
+				{ success: false, error: "Amount must be a positive number" },
+				{ status: 400 }
+			);
+		}
+
+		const auth = await authorizeWalletRequest(request, walletAddress);
+		if (auth.error) return auth.error;
+
+		const preview = await getLendTransactionService().preview({
+			action,
+			amount,
+			walletAddress,
+		});
+
+		// A failing simulation is still a successful preview; the client
+		// reads data.success and data.error
+		return NextResponse.json({
+			success: true,
+			data: preview,
+		});
+	} catch (error) {
+		console.error("Error previewing transaction:", error);
+
+		return NextResponse.json(
+			{
+				success: false,
+				error: "Failed to preview transaction",
+				details:
+					error instanceof Error ? error.message : String(error),
+			},
+			{ status: 500 }
+		);
+	}
+}
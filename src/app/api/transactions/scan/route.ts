@@ -1,50 +1,130 @@
-import { NextResponse } from 'next/server';
+/**
+ * Transaction scan endpoint
+ * Queues a background round-up sync for a wallet and reports its progress
+ *
+ * POST /api/transactions/scan
+ * Body: { address: string }
+ * Response: { success: true, data: { job } } - 202, poll with the job id
+ *
+ * GET /api/transactions/scan?id=<jobId> - One sync job
+ * GET /api/transactions/scan?address=<wallet> - The wallet's sync status and latest job
+ *
+ * Headers: Authorization: Bearer <Privy access token> (both methods)
+ *
+ * job: { id, walletAddress, trigger, status: 'queued' | 'running' | 'completed' | 'failed',
+ * attempts, maxAttempts, runAfter, startedAt, finishedAt, processed, stored, error }
+ */
 
-export async function GET() {
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeWalletRequest } from '@/lib/privy-server';
+import { getBaselineTracker } from '@/lib/services/baseline-tracker';
+import { getWalletSyncWorker } from '@/lib/services/wallet-sync';
+
+export async function GET(request: NextRequest) {
   try {
-    // Mock transaction scan data
-    const mockData = {
-      lastScannedTx: {
-        hash: "3Kj8...9Xm2",
-        timestamp: new Date().toISOString(),
-        amount: 0.5,
-        type: 'sent'
-      },
-      roundUpBalance: {
-        totalUsd: 3.25,
-        solEquivalent: 0.018,
-        usdcEquivalent: 3.25
-      },
-      lastSync: new Date().toLocaleString(),
-      status: 'success'
-    };
+    const searchParams = request.nextUrl.searchParams;
+    const id = searchParams.get('id');
+    const address = searchParams.get('address');
+    const worker = getWalletSyncWorker();
+
+    if (id) {
+      const job = await worker.getJob(id);
+
+      if (!job) {
+        return NextResponse.json(
+          { success: false, error: 'Scan not found' },
+          { status: 404 }
+        );
+      }
+
+      const auth = await authorizeWalletRequest(request, job.walletAddress);
+      if (auth.error) return auth.error;
+
+      return NextResponse.json({ success: true, data: { job } });
+    }
+
+    if (!address) {
+      return NextResponse.json(
+        { success: false, error: 'Missing scan id or wallet address' },
+        { status: 400 }
+      );
+    }
+
+    const auth = await authorizeWalletRequest(request, address);
+    if (auth.error) return auth.error;
+
+    const [tracking, job] = await Promise.all([
+      getBaselineTracker().getWalletTracking(address),
+      worker.getLatestJob(address),
+    ]);
+
+    if (!tracking) {
+      return NextResponse.json(
+        { success: false, error: 'Wallet not initialized. Please call /api/wallet/init first.' },
+        { status: 404 }
+      );
+    }
 
-    return NextResponse.json(mockData);
+    return NextResponse.json({
+      success: true,
+      data: {
+        address,
+        syncStatus: tracking.sync_status,
+        lastSyncedAt: tracking.last_synced_at,
+        lastSyncError: tracking.last_sync_error,
+        baseline: tracking.last_tracked_tx,
+        job,
+      },
+    });
   } catch (error) {
-    console.error('Transaction scan error:', error);
+    console.error('Transaction scan status error:', error);
     return NextResponse.json(
-      { error: 'Failed to scan transactions' },
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to fetch scan status',
+      },
       { status: 500 }
     );
   }
 }
 
-export async function POST() {
+export async function POST(request: NextRequest) {
   try {
-    // Mock trigger scan endpoint
-    const mockResponse = {
-      message: 'Transaction scan initiated',
-      scanId: Math.random().toString(36).substring(7),
-      status: 'scanning'
-    };
-
-    return NextResponse.json(mockResponse);
+    const body = await request.json();
+    const { address } = body;
+
+    if (!address || typeof address !== 'string') {
+      return NextResponse.json(
+        { success: false, error: 'Invalid wallet address' },
+        { status: 400 }
+      );
+    }
+
+    const auth = await authorizeWalletRequest(request, address);
+    if (auth.error) return auth.error;
+
+    if (!(await getBaselineTracker().isWalletInitialized(address))) {
+      return NextResponse.json(
+        { success: false, error: 'Wallet not initialized. Please call /api/wallet/init first.' },
+        { status: 400 }
+      );
+    }
+
+    const worker = getWalletSyncWorker();
+    const job = await worker.enqueue(address, 'manual');
+
+    // Start on it now rather than waiting for the worker's next tick
+    worker.kick();
+
+    return NextResponse.json({ success: true, data: { job } }, { status: 202 });
   } catch (error) {
     console.error('Scan trigger error:', error);
     return NextResponse.json(
-      { error: 'Failed to trigger scan' },
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to trigger scan',
+      },
       { status: 500 }
     );
   }
 }
-
@@ -1,70 +1,45 @@
 /**
  * Server-side transaction signing endpoint
  * Uses Privy's server SDK to sign transactions on behalf of users
+ *
+ * A deposit with roundupIds deposits the swept round-ups' total; amount is
+ * only used without them
+ *
+ * Failures return a `code`: insufficient_balance, simulation_failed,
+ * signing_failed, expired, transaction_failed, unconfirmed (sent but not
+ * confirmed) or roundups_unavailable (swept round-ups already in use)
  */
 
 import { NextRequest, NextResponse } from "next/server";
-import { PrivyClient } from "@privy-io/server-auth";
+import { authorizeWalletRequest } from "@/lib/privy-server";
 import {
-	Connection,
-	Transaction,
-	TransactionInstruction,
-	PublicKey,
-	SystemProgram,
-	LAMPORTS_PER_SOL,
-} from "@solana/web3.js";
-import {
-	getDepositInstructionData,
-	getWithdrawInstructionData,
-} from "@/utils/jupiter-lend";
-import { getCurrentNetworkConfig } from "@/lib/config";
-
-// Initialize Privy server client
-const privyClient = new PrivyClient(
-	process.env.NEXT_PUBLIC_PRIVY_APP_ID || "",
-	process.env.PRIVY_SECRET || ""
-);
-
-// Get network configuration
-const networkConfig = getCurrentNetworkConfig();
+	getLendTransactionService,
+	LendTransactionError,
+	LendTransactionErrorCode,
+} from "@/lib/services/lend-transaction-service";
+
+// HTTP status for each way a Jupiter Lend transaction can fail
+const ERROR_STATUS: Record<LendTransactionErrorCode, number> = {
+	insufficient_balance: 400,
+	simulation_failed: 422,
+	signing_failed: 502,
+	expired: 408,
+	transaction_failed: 502,
+	unconfirmed: 504,
+	roundups_unavailable: 409,
+};
 
 export async function POST(request: NextRequest) {
 	try {
-		// Get authorization token from header
-		const authToken = request.headers
-			.get("authorization")
-			?.replace("Bearer ", "");
-
-		if (!authToken) {
-			return NextResponse.json(
-				{ success: false, error: "Missing authorization token" },
-				{ status: 401 }
-			);
-		}
-
-		// Verify the auth token and get user
-		const verifiedClaims = await privyClient.verifyAuthToken(
-			authToken
-		);
-		const userId = verifiedClaims.userId;
-
-		if (!userId) {
-			return NextResponse.json(
-				{ success: false, error: "Invalid authorization token" },
-				{ status: 401 }
-			);
-		}
-
 		// Get request body
 		const body = await request.json();
-		const { action, amount, walletAddress } = body;
+		const { action, amount, walletAddress, roundupIds } = body;
 
-		if (!action || !amount || !walletAddress) {
+		if (!action || !walletAddress) {
 			return NextResponse.json(
 				{
 					success: false,
-					error:
-						"Missing required parameters: action, amount, walletAddress",
+					error: "Missing required parameters: action, walletAddress",
 				},
 				{ status: 400 }
 			);
@@ -81,64 +56,66 @@ export async function POST(request: NextRequest) {
 			);
 		}
 
-		console.log(
-			`Processing ${action} transaction for user ${userId}...`,
-			{
-				amount,
-				walletAddress,
-			}
-		);
+		if (
+			roundupIds !== undefined &&
+			(!Array.isArray(roundupIds) ||
+				!roundupIds.every((id) => Number.isInteger(id)))
+		) {
+			return NextResponse.json(
+				{
+					success: false,
+					error: "roundupIds must be a list of round-up record ids",
+				},
+				{ status: 400 }
+			);
+		}
 
-		// Create connection to Solana
-		const connection = new Connection(
-			networkConfig.RPC_ENDPOINT,
-			"confirmed"
-		);
+		const amountFromRoundups =
+			action === "deposit" && Array.isArray(roundupIds) && roundupIds.length > 0;
 
-		// Get instruction data from Jupiter
-		let instructionData;
-		if (action === "deposit") {
-			instructionData = await getDepositInstructionData(
-				connection,
-				walletAddress,
-				amount
-			);
-		} else {
-			instructionData = await getWithdrawInstructionData(
-				connection,
-				walletAddress,
-				amount
+		if (
+			!amountFromRoundups &&
+			(typeof amount !== "number" || !Number.isFinite(amount) || amount <= 0)
+		) {
+			return NextResponse.json(
+				{ success: false, error: "Amount must be a positive number" },
+				{ status: 400 }
 			);
 		}
 
-		console.log("Instruction data retrieved from Jupiter");
+		// Only the owner of a linked wallet may move its funds
+		const auth = await authorizeWalletRequest(request, walletAddress);
+		if (auth.error) return auth.error;
 
-		// TODO: Implement actual transaction signing with Privy
-		// For now, we'll simulate a successful transaction
-		console.log("User authenticated successfully:", userId);
-		console.log("Transaction parameters:", {
+		const result = await getLendTransactionService().execute({
 			action,
-			amount,
+			amount: amountFromRoundups ? 0 : amount,
 			walletAddress,
+			userId: auth.userId,
+			roundupIds,
+			amountFromRoundups,
 		});
-		console.log("Instruction data retrieved:", instructionData);
-
-		// Simulate transaction success
-		const mockSignature = "mock_signature_" + Date.now();
 
 		return NextResponse.json({
 			success: true,
 			message: "Transaction signed and sent successfully",
-			data: {
-				signature: mockSignature,
-				walletAddress,
-				action,
-				amount,
-			},
+			data: result,
 		});
 	} catch (error) {
 		console.error("Error signing transaction:", error);
 
+		if (error instanceof LendTransactionError) {
+			return NextResponse.json(
+				{
+					success: false,
+					error: error.message,
+					code: error.code,
+					logs: error.logs,
+				},
+				{ status: ERROR_STATUS[error.code] }
+			);
+		}
+
 		return NextResponse.json(
 			{
 				success: false,
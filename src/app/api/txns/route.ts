@@ -1,6 +1,13 @@
 /**
  * Transaction fetching endpoint
  * GET /api/txns - Fetch transactions for a wallet address
+ *
+ * Params (query string for GET, JSON body for POST):
+ *   address, lookbackDays?, limit? (signatures scanned per call, default 1000),
+ *   cursor? (resume from an earlier response), until? (stop at this signature)
+ *
+ * Very large histories come back in pages: while `hasMore` is true, call
+ * again with the returned `cursor`.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
@@ -13,6 +20,8 @@ export async function GET(request: NextRequest) {
     const address = searchParams.get('address');
     const lookbackDays = searchParams.get('lookbackDays');
     const limit = searchParams.get('limit');
+    const cursor = searchParams.get('cursor');
+    const until = searchParams.get('until');
 
     // Validate required parameters
     if (!address) {
@@ -22,6 +31,14 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    const parsedLimit = limit ? parseInt(limit, 10) : undefined;
+    if (parsedLimit !== undefined && !(parsedLimit > 0)) {
+      return NextResponse.json(
+        { error: 'limit must be a positive integer' },
+        { status: 400 }
+      );
+    }
+
     // Create wallet provider from typed address
     const walletProvider = WalletFactory.createTypedAddress(address);
 
@@ -29,9 +46,11 @@ export async function GET(request: NextRequest) {
     const fetcher = new TransactionFetcher();
 
     // Fetch transactions
-    const transactions = await fetcher.fetchTransactions(walletProvider, {
+    const { transactions, cursor: nextCursor } = await fetcher.fetchTransactions(walletProvider, {
       lookbackDays: lookbackDays ? parseInt(lookbackDays, 10) : undefined,
-      limit: limit ? parseInt(limit, 10) : undefined,
+      limit: parsedLimit,
+      before: cursor || undefined,
+      until: until || undefined,
     });
 
     // Calculate summary statistics
@@ -53,6 +72,9 @@ export async function GET(request: NextRequest) {
           totalSent: totalAmount,
           lookbackDays: lookbackDays ? parseInt(lookbackDays, 10) : 30,
         },
+        cursor: nextCursor,
+        hasMore: nextCursor !== null,
+        metrics: fetcher.getMetrics(),
       },
     });
   } catch (error) {
@@ -74,7 +96,7 @@ export async function GET(request: NextRequest) {
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { address, lookbackDays, limit } = body;
+    const { address, lookbackDays, limit, cursor, until } = body;
 
     // Validate required parameters
     if (!address) {
@@ -84,6 +106,13 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (limit !== undefined && !(Number.isInteger(limit) && limit > 0)) {
+      return NextResponse.json(
+        { error: 'limit must be a positive integer' },
+        { status: 400 }
+      );
+    }
+
     // Create wallet provider from typed address
     const walletProvider = WalletFactory.createTypedAddress(address);
 
@@ -91,9 +120,11 @@ export async function POST(request: NextRequest) {
     const fetcher = new TransactionFetcher();
 
     // Fetch transactions
-    const transactions = await fetcher.fetchTransactions(walletProvider, {
+    const { transactions, cursor: nextCursor } = await fetcher.fetchTransactions(walletProvider, {
       lookbackDays,
       limit,
+      before: cursor || undefined,
+      until: until || undefined,
     });
 
     // Calculate summary statistics
@@ -115,6 +146,9 @@ export async function POST(request: NextRequest) {
           totalSent: totalAmount,
           lookbackDays: lookbackDays || 30,
         },
+        cursor: nextCursor,
+        hasMore: nextCursor !== null,
+        metrics: fetcher.getMetrics(),
       },
     });
   } catch (error) {
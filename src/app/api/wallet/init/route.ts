@@ -3,7 +3,10 @@
  * Sets up baseline tracking when a wallet connects
  *
  * POST /api/wallet/init
- * Body: { address: string }
+ * Headers: Authorization: Bearer <Privy access token>
+ * Body: { address: string, linkedWallets?: string[] }
+ *
+ * linkedWallets are only stored when Privy confirms they belong to the user.
  *
  * Response:
  * {
@@ -11,19 +14,22 @@
  *   data: {
  *     wallet_address: string,
  *     last_tracked_tx: string,
- *     isNewWallet: boolean
+ *     isNewWallet: boolean,
+ *     webhookRegistered: boolean // New wallets only; false when webhooks are not configured or registration failed
  *   }
  * }
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { getHeliusService } from '@/lib/services/helius-service';
 import { getBaselineTracker } from '@/lib/services/baseline-tracker';
+import { getHeliusWebhookService } from '@/lib/services/helius-webhooks';
+import { getTransactionSource } from '@/lib/services/transaction-source';
+import { authorizeWalletRequest } from '@/lib/privy-server';
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { address } = body;
+    const { address, linkedWallets } = body;
 
     // Validate wallet address
     if (!address || typeof address !== 'string') {
@@ -41,14 +47,34 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Initialize services
-    const heliusService = getHeliusService();
+    if (
+      linkedWallets !== undefined &&
+      (!Array.isArray(linkedWallets) || !linkedWallets.every((linked) => typeof linked === 'string'))
+    ) {
+      return NextResponse.json(
+        { success: false, error: 'linkedWallets must be a list of wallet addresses' },
+        { status: 400 }
+      );
+    }
+
+    const auth = await authorizeWalletRequest(request, address);
+    if (auth.error) return auth.error;
+
+    // Ignore wallets the user has not linked in Privy
+    const ownedLinkedWallets = linkedWallets?.filter(
+      (linked: string) => linked !== address && auth.wallets.includes(linked)
+    );
+
     const baselineTracker = getBaselineTracker();
 
     // Check if wallet is already initialized
     const existingTracking = await baselineTracker.getWalletTracking(address);
 
     if (existingTracking && existingTracking.last_tracked_tx) {
+      if (ownedLinkedWallets) {
+        await baselineTracker.setLinkedWallets(address, ownedLinkedWallets);
+      }
+
       return NextResponse.json({
         success: true,
         data: {
@@ -60,23 +86,26 @@ export async function POST(request: NextRequest) {
       });
     }
 
-    // Fetch most recent transaction from Helius
-    let mostRecentTx;
+    // Fetch most recent transaction from the configured transaction source
+    const source = getTransactionSource();
+    let mostRecentSignature;
     try {
-      mostRecentTx = await heliusService.getMostRecentTransaction(address);
-    } catch (heliusError) {
-      console.error('Helius API error:', heliusError);
+      mostRecentSignature = await source.getLatestSignature(address);
+    } catch (sourceError) {
+      console.error(`${source.name} transaction source error:`, sourceError);
       return NextResponse.json(
         {
           success: false,
-          error: 'Failed to fetch transactions from Helius API. Please check your API key and try again.',
-          details: heliusError instanceof Error ? heliusError.message : 'Unknown error',
+          error: source.name === 'helius'
+            ? 'Failed to fetch transactions from Helius API. Please check your API key and try again.'
+            : `Failed to fetch transactions from the ${source.name} transaction source.`,
+          details: sourceError instanceof Error ? sourceError.message : 'Unknown error',
         },
         { status: 500 }
       );
     }
 
-    if (!mostRecentTx) {
+    if (!mostRecentSignature) {
       return NextResponse.json(
         {
           success: false,
@@ -88,7 +117,19 @@ export async function POST(request: NextRequest) {
     }
 
     // Set baseline transaction
-    const tracking = await baselineTracker.setBaseline(address, mostRecentTx.signature);
+    const tracking = await baselineTracker.setBaseline(address, mostRecentSignature);
+
+    if (ownedLinkedWallets) {
+      await baselineTracker.setLinkedWallets(address, ownedLinkedWallets);
+    }
+
+    // Real-time ingestion is best effort; background sync still covers the wallet
+    let webhookRegistered = false;
+    try {
+      webhookRegistered = await getHeliusWebhookService().registerWallet(address);
+    } catch (webhookError) {
+      console.error(`Failed to register ${address} with the Helius webhook:`, webhookError);
+    }
 
     return NextResponse.json({
       success: true,
@@ -97,6 +138,7 @@ export async function POST(request: NextRequest) {
         last_tracked_tx: tracking.last_tracked_tx,
         last_tracked_at: tracking.last_tracked_at,
         isNewWallet: !existingTracking,
+        webhookRegistered,
       },
     });
   } catch (error) {
@@ -123,6 +165,9 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    const auth = await authorizeWalletRequest(request, address);
+    if (auth.error) return auth.error;
+
     const baselineTracker = getBaselineTracker();
     const tracking = await baselineTracker.getWalletTracking(address);
 
@@ -0,0 +1,65 @@
+/**
+ * Helius webhook receiver
+ * POST /api/webhooks/helius - Enhanced-transaction webhook deliveries
+ *
+ * Headers: Authorization: <HELIUS_WEBHOOK_AUTH_HEADER>
+ * Body: HeliusTransaction[]
+ *
+ * Response:
+ * {
+ *   success: true,
+ *   data: { received, duplicates, untracked, processed, stored }
+ * }
+ *
+ * A 500 makes Helius redeliver; transactions already processed in an earlier
+ * delivery are skipped by signature.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getHeliusWebhookService } from '@/lib/services/helius-webhooks';
+import type { HeliusTransaction } from '@/lib/services/helius-service';
+
+export async function POST(request: NextRequest) {
+  try {
+    const webhookService = getHeliusWebhookService();
+
+    if (!webhookService.isAuthorized(request.headers.get('authorization'))) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+
+    if (
+      !Array.isArray(body) ||
+      !body.every((tx) => tx && typeof tx.signature === 'string' && typeof tx.feePayer === 'string')
+    ) {
+      return NextResponse.json(
+        { success: false, error: 'Expected an array of Helius enhanced transactions' },
+        { status: 400 }
+      );
+    }
+
+    const result = await webhookService.ingest(body as HeliusTransaction[]);
+
+    console.log(
+      `Helius webhook: ${result.received} received, ${result.duplicates} duplicate, ${result.stored} new round-ups`
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    console.error('Error processing Helius webhook:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error',
+      },
+      { status: 500 }
+    );
+  }
+}
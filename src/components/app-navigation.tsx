@@ -6,17 +6,18 @@ import { RoundUpReview } from "./roundup-review";
 import { InvestmentPosition } from "./investment-position";
 import { RoundUpCharges } from "./roundup-charges";
 import { InvestmentHistory } from "./investment-history";
+import { WithdrawFunds } from "./withdraw-funds";
 import { SettingsPage } from "./settings";
 import { NavigationMenu } from "./navigation-menu";
 
-type AppScreen = 'dashboard' | 'roundup-review' | 'investment-position' | 'roundup-charges' | 'investment-history' | 'settings';
+type AppScreen = 'dashboard' | 'roundup-review' | 'investment-position' | 'roundup-charges' | 'investment-history' | 'settings' | 'withdraw';
 
 export function AppNavigation() {
   const [currentScreen, setCurrentScreen] = useState<AppScreen>('dashboard');
 
   const navigateToScreen = (screen: string) => {
     // Type guard to ensure screen is a valid AppScreen
-    if (['dashboard', 'roundup-review', 'investment-position', 'roundup-charges', 'investment-history', 'settings'].includes(screen)) {
+    if (['dashboard', 'roundup-review', 'investment-position', 'roundup-charges', 'investment-history', 'settings', 'withdraw'].includes(screen)) {
       setCurrentScreen(screen as AppScreen);
     }
   };
@@ -41,6 +42,10 @@ export function AppNavigation() {
     navigateToScreen('settings');
   };
 
+  const handleWithdraw = () => {
+    navigateToScreen('withdraw');
+  };
+
   const handleBackToDashboard = () => {
     navigateToScreen('dashboard');
   };
@@ -75,6 +80,14 @@ export function AppNavigation() {
         return (
           <InvestmentPosition 
             onBack={handleBackToDashboard}
+            onWithdraw={handleWithdraw}
+          />
+        );
+      case 'withdraw':
+        return (
+          <WithdrawFunds
+            onBack={handleInvestmentPosition}
+            onDone={handleInvestmentPosition}
           />
         );
       case 'roundup-charges':
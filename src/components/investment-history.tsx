@@ -1,6 +1,6 @@
 "use client";
 
-import { useState } from "react";
+import { useCallback, useEffect, useState } from "react";
 import { useSolana } from "@/components/solana-provider";
 import { Button } from "@/components/ui/button";
 import {
@@ -11,66 +11,89 @@ import {
 	CardTitle,
 } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { getExplorerTxUrl } from "@/lib/config";
 import { ArrowLeft, TrendingUp, Coffee, Clock } from "lucide-react";
 
 interface InvestmentRecord {
-	id: string;
-	date: string;
-	amount: number;
-	transactionHash: string;
-	poolShareChange: number;
-	status: "completed" | "pending";
+	id: number;
+	action: "deposit" | "withdraw";
+	amountUsdc: number;
+	shares: number | null; // Null when the jlUSDC amount could not be read
+	pricePerShare: number | null;
+	roundupIds: number[];
+	signature: string;
+	createdAt: string;
+}
+
+interface InvestmentSummary {
+	count: number;
+	totalDeposited: number;
+	totalWithdrawn: number;
+	netShares: number;
 }
 
 interface InvestmentHistoryProps {
 	onBack: () => void;
 }
 
+const PAGE_SIZE = 20;
+
 export function InvestmentHistory({
 	onBack,
 }: InvestmentHistoryProps) {
-	const { walletAddress, isConnected } = useSolana();
+	const { walletAddress, isConnected, getAccessToken } = useSolana();
 	const [history, setHistory] = useState<InvestmentRecord[]>([]);
+	const [summary, setSummary] = useState<InvestmentSummary | null>(null);
+	const [hasMore, setHasMore] = useState(false);
+	const [isLoading, setIsLoading] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+
+	const fetchPage = useCallback(
+		async (offset: number) => {
+			if (!walletAddress) return;
+
+			setIsLoading(true);
+			setError(null);
+			try {
+				const authToken = await getAccessToken();
+				const response = await fetch(
+					`/api/investments?address=${walletAddress}&limit=${PAGE_SIZE}&offset=${offset}`,
+					{ headers: { Authorization: `Bearer ${authToken}` } }
+				);
+				const result = await response.json();
+
+				if (!result.success) {
+					throw new Error(
+						result.error || "Failed to load investment history"
+					);
+				}
 
-	// Mock data - replace with actual investment history data
-	useState(() => {
+				setHistory((previous) =>
+					offset === 0
+						? result.data.investments
+						: [...previous, ...result.data.investments]
+				);
+				setSummary(result.data.summary);
+				setHasMore(result.data.hasMore);
+			} catch (fetchError) {
+				console.error("Error loading investment history:", fetchError);
+				setError(
+					fetchError instanceof Error
+						? fetchError.message
+						: "Failed to load investment history"
+				);
+			} finally {
+				setIsLoading(false);
+			}
+		},
+		[walletAddress, getAccessToken]
+	);
+
+	useEffect(() => {
 		if (isConnected && walletAddress) {
-			setHistory([
-				{
-					id: "1",
-					date: "2024-12-15T14:30:00Z",
-					amount: 3.25,
-					transactionHash: "3Kj8...9Xm2",
-					poolShareChange: 0.15,
-					status: "completed",
-				},
-				{
-					id: "2",
-					date: "2024-12-10T09:15:00Z",
-					amount: 2.8,
-					transactionHash: "7Pm3...k9R1",
-					poolShareChange: 0.12,
-					status: "completed",
-				},
-				{
-					id: "3",
-					date: "2024-12-05T16:45:00Z",
-					amount: 1.95,
-					transactionHash: "9Qn5...f2H8",
-					poolShareChange: 0.08,
-					status: "completed",
-				},
-				{
-					id: "4",
-					date: "2024-11-28T11:30:00Z",
-					amount: 4.2,
-					transactionHash: "2Rf7...m4K9",
-					poolShareChange: 0.18,
-					status: "completed",
-				},
-			]);
+			fetchPage(0);
 		}
-	});
+	}, [isConnected, walletAddress, fetchPage]);
 
 	if (!isConnected || !walletAddress) {
 		return (
@@ -123,13 +146,16 @@ export function InvestmentHistory({
 					<CardHeader>
 						<CardTitle className="flex items-center gap-2">
 							<TrendingUp className="w-5 h-5" />
-							Auto-Investment History
+							Investment History
 						</CardTitle>
 						<CardDescription>
-							Record of all your round-up investments
+							Every deposit into and withdrawal from Jupiter Earn
 						</CardDescription>
 					</CardHeader>
 					<CardContent>
+						{error && (
+							<div className="text-sm text-destructive mb-4">{error}</div>
+						)}
 						{history.length > 0 ? (
 							<div className="space-y-4">
 								{history.map((record) => (
@@ -139,58 +165,91 @@ export function InvestmentHistory({
 										<div className="flex justify-between items-start">
 											<div>
 												<div className="font-medium coffee-text-primary">
-													${record.amount.toFixed(2)} auto-invested
+													${record.amountUsdc.toFixed(2)}{" "}
+													{record.action === "deposit"
+														? "invested"
+														: "withdrawn"}
 												</div>
 												<div className="text-sm text-muted-foreground mt-1">
-													Pool share change:{" "}
-													<span className="font-medium">
-														+{record.poolShareChange.toFixed(2)}%
-													</span>
+													{record.shares !== null &&
+													record.pricePerShare !== null ? (
+														<>
+															{record.action === "deposit" ? "+" : "-"}
+															{record.shares.toFixed(6)} jlUSDC at $
+															{record.pricePerShare.toFixed(6)}
+														</>
+													) : (
+														"jlUSDC amount unknown"
+													)}
 												</div>
+												{record.roundupIds.length > 0 && (
+													<div className="text-xs text-muted-foreground mt-1">
+														{record.roundupIds.length} round-up
+														{record.roundupIds.length === 1 ? "" : "s"}{" "}
+														swept
+													</div>
+												)}
 											</div>
 											<Badge
 												variant={
-													record.status === "completed"
+													record.action === "deposit"
 														? "default"
 														: "secondary"
 												}
 												className={
-													record.status === "completed"
+													record.action === "deposit"
 														? "bg-green-500"
 														: "coffee-bg-mocha"
 												}>
-												{record.status === "completed"
-													? "Completed"
-													: "Pending"}
+												{record.action === "deposit"
+													? "Deposit"
+													: "Withdrawal"}
 											</Badge>
 										</div>
 
 										<div className="flex justify-between items-center mt-3">
 											<div className="text-xs text-muted-foreground">
-												{new Date(record.date).toLocaleDateString()}{" "}
+												{new Date(record.createdAt).toLocaleDateString()}{" "}
 												at{" "}
-												{new Date(record.date).toLocaleTimeString(
+												{new Date(record.createdAt).toLocaleTimeString(
 													[],
 													{ hour: "2-digit", minute: "2-digit" }
 												)}
 											</div>
 											<a
-												href={`https://solscan.io/tx/${record.transactionHash}`}
+												href={getExplorerTxUrl(record.signature)}
 												target="_blank"
 												rel="noopener noreferrer"
 												className="text-xs text-primary hover:underline font-mono bg-muted px-2 py-1 rounded">
-												{record.transactionHash}
+												{record.signature.slice(0, 4)}...
+												{record.signature.slice(-4)}
 											</a>
 										</div>
 									</div>
 								))}
+								{hasMore && (
+									<Button
+										onClick={() => fetchPage(history.length)}
+										variant="outline"
+										className="w-full"
+										disabled={isLoading}>
+										{isLoading ? "Loading..." : "Load more"}
+									</Button>
+								)}
+							</div>
+						) : isLoading ? (
+							<div className="flex items-center justify-center gap-3 py-8">
+								<div className="animate-spin rounded-full h-5 w-5 border-b-2 border-primary"></div>
+								<span className="text-sm text-muted-foreground">
+									Loading investment history...
+								</span>
 							</div>
 						) : (
 							<div className="text-center py-8">
 								<Clock className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
 								<p className="text-muted-foreground">
-									No investment history yet. Your auto-investments
-									will appear here.
+									No investment history yet. Your investments will
+									appear here.
 								</p>
 							</div>
 						)}
@@ -208,35 +267,30 @@ export function InvestmentHistory({
 					<CardContent className="grid grid-cols-1 md:grid-cols-3 gap-4">
 						<div className="text-center p-4 bg-muted/50 rounded-lg">
 							<div className="text-2xl font-bold coffee-text-primary">
-								{history.length}
+								{summary?.count ?? 0}
 							</div>
 							<div className="text-sm text-muted-foreground">
-								Total Investments
+								Total Transactions
 							</div>
 						</div>
 						<div className="text-center p-4 bg-muted/50 rounded-lg">
 							<div className="text-2xl font-bold coffee-text-primary">
 								$
-								{history
-									.reduce((sum, record) => sum + record.amount, 0)
-									.toFixed(2)}
+								{(
+									(summary?.totalDeposited ?? 0) -
+									(summary?.totalWithdrawn ?? 0)
+								).toFixed(2)}
 							</div>
 							<div className="text-sm text-muted-foreground">
-								Total Amount
+								Net Invested
 							</div>
 						</div>
 						<div className="text-center p-4 bg-muted/50 rounded-lg">
 							<div className="text-2xl font-bold coffee-text-primary">
-								{history
-									.reduce(
-										(sum, record) => sum + record.poolShareChange,
-										0
-									)
-									.toFixed(2)}
-								%
+								{(summary?.netShares ?? 0).toFixed(4)}
 							</div>
 							<div className="text-sm text-muted-foreground">
-								Total Share Gain
+								Net jlUSDC Shares
 							</div>
 						</div>
 					</CardContent>
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState } from "react";
+import { useCallback, useEffect, useState } from "react";
 import { useSolana } from "@/components/solana-provider";
 import { Button } from "@/components/ui/button";
 import {
@@ -17,49 +17,77 @@ import {
 	DollarSign,
 	Coffee,
 	PieChart,
-	Clock,
+	ArrowDownToLine,
 	AlertCircle,
+	RefreshCw,
 } from "lucide-react";
 
 interface InvestmentPositionProps {
 	onBack: () => void;
+	onWithdraw: () => void;
 }
 
-interface PoolData {
-	totalValue: number;
-	userShare: number;
-	userDeposits: number;
-	totalDeposits: number;
-	poolSize: number;
-	lastContribution: string;
-	historicalContributions: number;
+interface EarnPosition {
+	shares: number;
+	currentValue: number;
+	sharePrice: number;
+	walletUsdcBalance: number;
+	supplyApy: number;
+	rewardsApy: number;
+	totalApy: number;
+	pool: {
+		totalDeposits: number;
+		totalShares: number;
+		userShare: number;
+	};
+	updatedAt: string;
 }
 
 export function InvestmentPosition({
 	onBack,
+	onWithdraw,
 }: InvestmentPositionProps) {
-	const { walletAddress, isConnected } = useSolana();
-	const [poolData, setPoolData] = useState<PoolData | null>(null);
+	const { walletAddress, isConnected, networkName, getAccessToken } =
+		useSolana();
+	const [position, setPosition] = useState<EarnPosition | null>(null);
 	const [isLoading, setIsLoading] = useState(true);
+	const [error, setError] = useState<string | null>(null);
 
-	// Mock data - replace with actual smart contract data
-	useState(() => {
+	const fetchPosition = useCallback(async () => {
+		if (!walletAddress) return;
+
+		setIsLoading(true);
+		setError(null);
+		try {
+			const authToken = await getAccessToken();
+			const response = await fetch(
+				`/api/pool/position?wallet=${walletAddress}`,
+				{ headers: { Authorization: `Bearer ${authToken}` } }
+			);
+			const result = await response.json();
+
+			if (!result.success) {
+				throw new Error(result.error || "Failed to load position");
+			}
+
+			setPosition(result.data);
+		} catch (fetchError) {
+			console.error("Error loading Jupiter Earn position:", fetchError);
+			setError(
+				fetchError instanceof Error
+					? fetchError.message
+					: "Failed to load position"
+			);
+		} finally {
+			setIsLoading(false);
+		}
+	}, [walletAddress, getAccessToken]);
+
+	useEffect(() => {
 		if (isConnected && walletAddress) {
-			// Simulate loading
-			setTimeout(() => {
-				setPoolData({
-					totalValue: 1250.75,
-					userShare: 0.15, // 15%
-					userDeposits: 187.5,
-					totalDeposits: 1250.75,
-					poolSize: 1250.75,
-					lastContribution: "12/15/2024",
-					historicalContributions: 8,
-				});
-				setIsLoading(false);
-			}, 1000);
+			fetchPosition();
 		}
-	});
+	}, [isConnected, walletAddress, fetchPosition]);
 
 	if (!isConnected || !walletAddress) {
 		return (
@@ -102,7 +130,40 @@ export function InvestmentPosition({
 		);
 	}
 
-	if (!poolData) {
+	if (error) {
+		return (
+			<div className="min-h-screen flex items-center justify-center p-4">
+				<Card className="w-full max-w-md coffee-card">
+					<CardHeader className="text-center">
+						<AlertCircle className="w-12 h-12 text-destructive mx-auto mb-4" />
+						<CardTitle className="coffee-text-primary">
+							Could Not Load Position
+						</CardTitle>
+						<CardDescription className="coffee-text-secondary">
+							{error}
+						</CardDescription>
+					</CardHeader>
+					<CardContent className="space-y-3">
+						<Button
+							onClick={fetchPosition}
+							className="w-full coffee-button">
+							<RefreshCw className="w-4 h-4 mr-2" />
+							Try Again
+						</Button>
+						<Button
+							onClick={onBack}
+							variant="outline"
+							className="w-full">
+							<ArrowLeft className="w-4 h-4 mr-2" />
+							Back to Dashboard
+						</Button>
+					</CardContent>
+				</Card>
+			</div>
+		);
+	}
+
+	if (!position || position.shares === 0) {
 		return (
 			<div className="min-h-screen flex items-center justify-center p-4">
 				<Card className="w-full max-w-md coffee-card">
@@ -156,37 +217,39 @@ export function InvestmentPosition({
 							Portfolio Overview
 						</CardTitle>
 						<CardDescription>
-							Your current position in the Coffee Change investment
-							pool
+							Your USDC position in Jupiter Earn
 						</CardDescription>
 					</CardHeader>
 					<CardContent className="space-y-6">
 						<div className="grid grid-cols-1 md:grid-cols-3 gap-6">
 							<div className="text-center">
 								<div className="text-3xl font-bold coffee-text-primary mb-2">
-									${poolData.totalValue.toFixed(2)}
+									${position.currentValue.toFixed(2)}
 								</div>
 								<div className="text-sm text-muted-foreground">
-									Total Pool Value
+									Current Value
 								</div>
 							</div>
 							<div className="text-center">
 								<div className="text-3xl font-bold coffee-text-primary mb-2">
-									{(poolData.userShare * 100).toFixed(1)}%
+									{position.shares.toFixed(4)}
 								</div>
 								<div className="text-sm text-muted-foreground">
-									Your Share
+									jlUSDC Shares
 								</div>
 							</div>
 							<div className="text-center">
 								<div className="text-3xl font-bold coffee-text-primary mb-2">
-									${poolData.userDeposits.toFixed(2)}
+									{position.totalApy.toFixed(2)}%
 								</div>
 								<div className="text-sm text-muted-foreground">
-									Your Deposits
+									Current APY
 								</div>
 							</div>
 						</div>
+						<div className="text-xs text-muted-foreground text-center">
+							Updated {new Date(position.updatedAt).toLocaleTimeString()}
+						</div>
 					</CardContent>
 				</Card>
 
@@ -206,31 +269,31 @@ export function InvestmentPosition({
 									Pool Share
 								</span>
 								<span className="font-semibold">
-									{(poolData.userShare * 100).toFixed(2)}%
+									{(position.pool.userShare * 100).toFixed(6)}%
 								</span>
 							</div>
 							<div className="flex justify-between">
 								<span className="text-sm font-medium coffee-text-secondary">
-									Total Deposited
+									Share Price
 								</span>
 								<span className="font-semibold">
-									${poolData.userDeposits.toFixed(2)}
+									${position.sharePrice.toFixed(6)}
 								</span>
 							</div>
 							<div className="flex justify-between">
 								<span className="text-sm font-medium coffee-text-secondary">
-									Contributions
+									Current Value
 								</span>
 								<span className="font-semibold">
-									{poolData.historicalContributions}
+									${position.currentValue.toFixed(2)}
 								</span>
 							</div>
 							<div className="flex justify-between">
 								<span className="text-sm font-medium coffee-text-secondary">
-									Last Contribution
+									Wallet USDC
 								</span>
 								<span className="font-semibold">
-									{poolData.lastContribution}
+									${position.walletUsdcBalance.toFixed(2)}
 								</span>
 							</div>
 						</CardContent>
@@ -247,38 +310,40 @@ export function InvestmentPosition({
 						<CardContent className="space-y-4">
 							<div className="flex justify-between">
 								<span className="text-sm font-medium coffee-text-secondary">
-									Pool Size
+									Total Deposits
 								</span>
 								<span className="font-semibold">
-									${poolData.poolSize.toFixed(2)}
+									$
+									{position.pool.totalDeposits.toLocaleString(
+										undefined,
+										{ maximumFractionDigits: 0 }
+									)}
 								</span>
 							</div>
 							<div className="flex justify-between">
 								<span className="text-sm font-medium coffee-text-secondary">
-									Total Deposits
+									Supply APY
 								</span>
 								<span className="font-semibold">
-									${poolData.totalDeposits.toFixed(2)}
+									{position.supplyApy.toFixed(2)}%
 								</span>
 							</div>
 							<div className="flex justify-between">
 								<span className="text-sm font-medium coffee-text-secondary">
-									Network
+									Rewards APY
+								</span>
+								<span className="font-semibold">
+									{position.rewardsApy.toFixed(2)}%
 								</span>
-								<Badge
-									variant="secondary"
-									className="coffee-bg-mocha text-white">
-									Solana Mainnet
-								</Badge>
 							</div>
 							<div className="flex justify-between">
 								<span className="text-sm font-medium coffee-text-secondary">
-									Status
+									Network
 								</span>
 								<Badge
-									variant="default"
-									className="bg-green-500 text-white">
-									Active
+									variant="secondary"
+									className="coffee-bg-mocha text-white">
+									{networkName}
 								</Badge>
 							</div>
 						</CardContent>
@@ -318,57 +383,12 @@ export function InvestmentPosition({
 						Back to Dashboard
 					</Button>
 					<Button
-						disabled
+						onClick={onWithdraw}
 						className="w-full coffee-button">
-						<Clock className="w-4 h-4 mr-2" />
-						Withdraw / Reinvest (Coming Soon)
+						<ArrowDownToLine className="w-4 h-4 mr-2" />
+						Withdraw
 					</Button>
 				</div>
-
-				{/* Transaction History Placeholder */}
-				<Card className="coffee-card">
-					<CardHeader>
-						<CardTitle className="flex items-center gap-2">
-							<Clock className="w-5 h-5" />
-							Transaction History
-						</CardTitle>
-						<CardDescription>
-							Your round-up transfer history
-						</CardDescription>
-					</CardHeader>
-					<CardContent>
-						<div className="space-y-3">
-							{Array.from({ length: 3 }).map((_, index) => (
-								<div
-									key={index}
-									className="flex items-center justify-between p-3 bg-muted/20 rounded-lg">
-									<div className="flex items-center gap-3">
-										<div className="w-2 h-2 bg-primary rounded-full"></div>
-										<div>
-											<div className="text-sm font-medium">
-												Round-up Transfer #{index + 1}
-											</div>
-											<div className="text-xs text-muted-foreground">
-												{new Date(
-													Date.now() -
-														(index + 1) * 24 * 60 * 60 * 1000
-												).toLocaleDateString()}
-											</div>
-										</div>
-									</div>
-									<div className="text-right">
-										<div className="text-sm font-semibold coffee-text-primary">
-											+${(Math.random() * 5 + 1).toFixed(2)}
-										</div>
-										<div className="text-xs text-muted-foreground">
-											Deposited
-										</div>
-									</div>
-								</div>
-							))}
-						</div>
-					</CardContent>
-				</Card>
 			</div>
 		</div>
 	);
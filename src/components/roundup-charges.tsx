@@ -1,6 +1,6 @@
 "use client";
 
-import { useState } from "react";
+import { useCallback, useEffect, useState } from "react";
 import { useSolana } from "@/components/solana-provider";
 import { Button } from "@/components/ui/button";
 import {
@@ -11,12 +11,15 @@ import {
 	CardTitle,
 } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { getExplorerTxUrl } from "@/lib/config";
 import {
 	ArrowLeft,
 	DollarSign,
 	Coffee,
 	TrendingUp,
 	Clock,
+	AlertCircle,
+	CheckCircle,
 } from "lucide-react";
 // Removed old imports - now using server-side API approach
 
@@ -27,6 +30,33 @@ interface PendingRoundUp {
 	spareChange: number;
 	timestamp: string;
 	transactionHash: string;
+	transactionId: string;
+	token: string;
+	tokenAmount: number;
+	needsReview: boolean;
+}
+
+interface RoundupRecordResponse {
+	id: number;
+	transaction_id: string;
+	transaction_date: string;
+	token: string;
+	token_amount: number;
+	usd_value: number;
+	round_up_value: number;
+	price_status: "priced" | "unpriced" | "manual";
+}
+
+interface TransactionPreview {
+	success: boolean;
+	feeSol: number | null;
+	computeUnits: number | null;
+	computeUnitLimit: number;
+	shares: number | null;
+	error?: {
+		code: string;
+		message: string;
+	};
 }
 
 interface RoundUpChargesProps {
@@ -41,36 +71,160 @@ export function RoundUpCharges({
 	const { walletAddress, isConnected, getAccessToken } = useSolana();
 	const [isProcessing, setIsProcessing] = useState(false);
 
-	// Mock data - Updated to show exactly $1.00 total in USDC
-	const pendingRoundUps: PendingRoundUp[] = [
-		{
-			id: "1",
-			originalAmount: 13.35,
-			roundedAmount: 14.0,
-			spareChange: 0.65,
-			timestamp: "2024-12-15T14:30:00Z",
-			transactionHash: "3Kj8...9Xm2",
-		},
-		{
-			id: "2",
-			originalAmount: 8.85,
-			roundedAmount: 9.0,
-			spareChange: 0.15,
-			timestamp: "2024-12-14T11:15:00Z",
-			transactionHash: "7Pm3...k9R1",
-		},
-		{
-			id: "3",
-			originalAmount: 22.8,
-			roundedAmount: 23.0,
-			spareChange: 0.2,
-			timestamp: "2024-12-13T09:45:00Z",
-			transactionHash: "9Qn5...f2H8",
-		},
-	];
-
-	// Total is now exactly $1.00 USDC
-	const totalPending = 1.0;
+	const [pendingRoundUps, setPendingRoundUps] = useState<
+		PendingRoundUp[]
+	>([]);
+	const [totalPending, setTotalPending] = useState(0);
+	const [isLoadingRoundUps, setIsLoadingRoundUps] = useState(false);
+	const [manualPrices, setManualPrices] = useState<
+		Record<string, string>
+	>({});
+	const [pricingId, setPricingId] = useState<string | null>(null);
+	const [preview, setPreview] = useState<TransactionPreview | null>(null);
+	const [isLoadingPreview, setIsLoadingPreview] = useState(false);
+	const [previewError, setPreviewError] = useState<string | null>(null);
+
+	const fetchRoundUps = useCallback(async () => {
+		if (!walletAddress) return;
+
+		setIsLoadingRoundUps(true);
+		try {
+			const authToken = await getAccessToken();
+			const response = await fetch(
+				`/api/roundups/track?address=${walletAddress}`,
+				{ headers: { Authorization: `Bearer ${authToken}` } }
+			);
+			const result = await response.json();
+
+			if (!result.success) {
+				throw new Error(result.error || "Failed to load round-ups");
+			}
+
+			const records: RoundupRecordResponse[] = result.data.records;
+			const roundUps: PendingRoundUp[] = records.map((record) => {
+				const usdValue = Number(record.usd_value);
+				const spareChange = Number(record.round_up_value);
+				return {
+					id: String(record.id),
+					originalAmount: usdValue,
+					roundedAmount: usdValue + spareChange,
+					spareChange,
+					timestamp: record.transaction_date,
+					transactionHash: `${record.transaction_id.slice(
+						0,
+						4
+					)}...${record.transaction_id.slice(-4)}`,
+					transactionId: record.transaction_id,
+					token: record.token,
+					tokenAmount: Number(record.token_amount),
+					needsReview: record.price_status === "unpriced",
+				};
+			});
+			setPendingRoundUps(roundUps);
+			// Deposit exactly the priced round-ups that are listed, so the amount
+			// matches the round-ups swept into it
+			const sweepTotal = roundUps
+				.filter((roundUp) => !roundUp.needsReview)
+				.reduce((sum, roundUp) => sum + roundUp.spareChange, 0);
+			setTotalPending(parseFloat(sweepTotal.toFixed(2)));
+		} catch (error) {
+			console.error("Error loading round-ups:", error);
+		} finally {
+			setIsLoadingRoundUps(false);
+		}
+	}, [walletAddress, getAccessToken]);
+
+	useEffect(() => {
+		fetchRoundUps();
+	}, [fetchRoundUps]);
+
+	// Simulate the exact deposit before the user can confirm it
+	const fetchPreview = useCallback(async () => {
+		if (!walletAddress || totalPending <= 0) {
+			setPreview(null);
+			return;
+		}
+
+		setIsLoadingPreview(true);
+		setPreviewError(null);
+		try {
+			const authToken = await getAccessToken();
+			const response = await fetch("/api/transactions/preview", {
+				method: "POST",
+				headers: {
+					"Content-Type": "application/json",
+					Authorization: `Bearer ${authToken}`,
+				},
+				body: JSON.stringify({
+					action: "deposit",
+					amount: totalPending,
+					walletAddress,
+				}),
+			});
+			const result = await response.json();
+
+			if (!result.success) {
+				throw new Error(result.error || "Failed to preview transaction");
+			}
+
+			setPreview(result.data);
+		} catch (error) {
+			console.error("Error previewing transaction:", error);
+			setPreview(null);
+			setPreviewError(
+				error instanceof Error
+					? error.message
+					: "Failed to preview transaction"
+			);
+		} finally {
+			setIsLoadingPreview(false);
+		}
+	}, [walletAddress, totalPending, getAccessToken]);
+
+	useEffect(() => {
+		fetchPreview();
+	}, [fetchPreview]);
+
+	const canConfirm = !!preview?.success && !isLoadingPreview;
+
+	const handleManualPrice = async (roundUp: PendingRoundUp) => {
+		const priceUsd = parseFloat(manualPrices[roundUp.id] || "");
+		if (!Number.isFinite(priceUsd) || priceUsd <= 0) {
+			alert("Please enter a valid USD price");
+			return;
+		}
+
+		setPricingId(roundUp.id);
+		try {
+			const authToken = await getAccessToken();
+			const response = await fetch("/api/roundups/manual-price", {
+				method: "POST",
+				headers: {
+					"Content-Type": "application/json",
+					Authorization: `Bearer ${authToken}`,
+				},
+				body: JSON.stringify({
+					address: walletAddress,
+					transactionId: roundUp.transactionId,
+					priceUsd,
+				}),
+			});
+
+			const result = await response.json();
+			if (!result.success) {
+				throw new Error(result.error || "Failed to set price");
+			}
+
+			await fetchRoundUps();
+		} catch (error) {
+			console.error("Error setting manual price:", error);
+			alert(
+				error instanceof Error ? error.message : "Failed to set price"
+			);
+		} finally {
+			setPricingId(null);
+		}
+	};
 
 	const handleConfirmInvest = async () => {
 		if (!isConnected || !walletAddress) {
@@ -78,11 +232,18 @@ export function RoundUpCharges({
 			return;
 		}
 
+		if (!canConfirm) {
+			alert("This deposit did not pass simulation and cannot be sent");
+			return;
+		}
+
 		setIsProcessing(true);
 
 		try {
 			console.log(
-				"Creating Jupiter Lend deposit transaction for $1.00 USDC..."
+				`Creating Jupiter Lend deposit transaction for $${totalPending.toFixed(
+					2
+				)} USDC...`
 			);
 
 			// Get auth token from Privy
@@ -100,8 +261,11 @@ export function RoundUpCharges({
 				},
 				body: JSON.stringify({
 					action: "deposit",
-					amount: totalPending, // $1.00 USDC
+					amount: totalPending,
 					walletAddress: walletAddress,
+					roundupIds: pendingRoundUps
+						.filter((roundUp) => !roundUp.needsReview)
+						.map((roundUp) => Number(roundUp.id)),
 				}),
 			});
 
@@ -119,13 +283,13 @@ export function RoundUpCharges({
 				result.data?.signature || "Transaction completed";
 			console.log(`Transaction signature: ${signature}`);
 			console.log(
-				`View on Solscan: https://solscan.io/tx/${signature}`
+				`View on Solscan: ${getExplorerTxUrl(signature)}`
 			);
 
 			alert(
 				`Investment Successful!\n\nDeposited $${totalPending.toFixed(
 					2
-				)} USDC into Jupiter Earn\n\nTransaction: ${signature}\n\nView on Solscan: https://solscan.io/tx/${signature}`
+				)} USDC into Jupiter Earn\n\nTransaction: ${signature}\n\nView on Solscan: ${getExplorerTxUrl(signature)}`
 			);
 
 			// Navigate to success
@@ -240,29 +404,86 @@ export function RoundUpCharges({
 					</CardHeader>
 					<CardContent>
 						<div className="space-y-4">
+							{isLoadingRoundUps && pendingRoundUps.length === 0 && (
+								<div className="flex items-center justify-center gap-3 py-4">
+									<div className="animate-spin rounded-full h-5 w-5 border-b-2 border-primary"></div>
+									<span className="text-sm text-muted-foreground">
+										Loading round-ups...
+									</span>
+								</div>
+							)}
+							{!isLoadingRoundUps && pendingRoundUps.length === 0 && (
+								<div className="text-sm text-muted-foreground text-center py-4">
+									No round-ups yet
+								</div>
+							)}
 							{pendingRoundUps.map((roundUp) => (
 								<div
 									key={roundUp.id}
 									className="p-4 border rounded-lg">
-									<div className="flex justify-between items-start">
-										<div>
-											<div className="font-medium coffee-text-primary">
-												${roundUp.originalAmount.toFixed(2)} → $
-												{roundUp.roundedAmount.toFixed(2)}
+									{roundUp.needsReview ? (
+										<div className="space-y-3">
+											<div className="flex justify-between items-start">
+												<div>
+													<div className="font-medium coffee-text-primary">
+														{roundUp.tokenAmount} {roundUp.token}
+													</div>
+													<div className="text-sm text-muted-foreground mt-1">
+														No price found for this token
+													</div>
+												</div>
+												<Badge variant="destructive">
+													<AlertCircle className="w-3 h-3 mr-1" />
+													Needs review
+												</Badge>
 											</div>
-											<div className="text-sm text-muted-foreground mt-1">
-												Spare change:{" "}
-												<span className="font-medium">
-													${roundUp.spareChange.toFixed(2)}
-												</span>
+											<div className="flex gap-2">
+												<input
+													type="number"
+													min="0"
+													step="any"
+													placeholder={`USD price per ${roundUp.token}`}
+													value={manualPrices[roundUp.id] || ""}
+													onChange={(e) =>
+														setManualPrices((prev) => ({
+															...prev,
+															[roundUp.id]: e.target.value,
+														}))
+													}
+													className="flex-1 px-3 py-2 text-sm border rounded-md bg-background"
+												/>
+												<Button
+													size="sm"
+													variant="outline"
+													disabled={pricingId === roundUp.id}
+													onClick={() => handleManualPrice(roundUp)}>
+													{pricingId === roundUp.id
+														? "Saving..."
+														: "Set price"}
+												</Button>
 											</div>
 										</div>
-										<Badge
-											variant="secondary"
-											className="coffee-bg-mocha text-white">
-											${roundUp.spareChange.toFixed(2)}
-										</Badge>
-									</div>
+									) : (
+										<div className="flex justify-between items-start">
+											<div>
+												<div className="font-medium coffee-text-primary">
+													${roundUp.originalAmount.toFixed(2)} → $
+													{roundUp.roundedAmount.toFixed(2)}
+												</div>
+												<div className="text-sm text-muted-foreground mt-1">
+													Spare change:{" "}
+													<span className="font-medium">
+														${roundUp.spareChange.toFixed(2)}
+													</span>
+												</div>
+											</div>
+											<Badge
+												variant="secondary"
+												className="coffee-bg-mocha text-white">
+												${roundUp.spareChange.toFixed(2)}
+											</Badge>
+										</div>
+									)}
 
 									<div className="flex justify-between items-center mt-3">
 										<div className="text-xs text-muted-foreground">
@@ -285,6 +506,88 @@ export function RoundUpCharges({
 					</CardContent>
 				</Card>
 
+				{/* Transaction Preview */}
+				{totalPending > 0 && (
+					<Card className="coffee-card">
+						<CardHeader>
+							<CardTitle className="flex items-center gap-2">
+								<TrendingUp className="w-5 h-5" />
+								Transaction Preview
+							</CardTitle>
+							<CardDescription>
+								Simulated Jupiter Earn deposit of $
+								{totalPending.toFixed(2)} USDC
+							</CardDescription>
+						</CardHeader>
+						<CardContent className="space-y-3">
+							{isLoadingPreview && (
+								<div className="flex items-center gap-3">
+									<div className="animate-spin rounded-full h-5 w-5 border-b-2 border-primary"></div>
+									<span className="text-sm text-muted-foreground">
+										Simulating transaction...
+									</span>
+								</div>
+							)}
+							{!isLoadingPreview && previewError && (
+								<div className="flex items-start gap-2 text-sm text-destructive">
+									<AlertCircle className="w-4 h-4 mt-0.5" />
+									<span>{previewError}</span>
+								</div>
+							)}
+							{!isLoadingPreview && preview && (
+								<>
+									<div className="grid grid-cols-3 gap-4 text-sm">
+										<div>
+											<div className="text-muted-foreground">
+												Network fee
+											</div>
+											<div className="font-medium coffee-text-primary">
+												{preview.feeSol !== null
+													? `${preview.feeSol.toFixed(6)} SOL`
+													: "—"}
+											</div>
+										</div>
+										<div>
+											<div className="text-muted-foreground">
+												Compute units
+											</div>
+											<div className="font-medium coffee-text-primary">
+												{preview.computeUnits !== null
+													? `${preview.computeUnits.toLocaleString()} / ${preview.computeUnitLimit.toLocaleString()}`
+													: "—"}
+											</div>
+										</div>
+										<div>
+											<div className="text-muted-foreground">
+												You receive
+											</div>
+											<div className="font-medium coffee-text-primary">
+												{preview.shares !== null
+													? `${preview.shares.toFixed(6)} jlUSDC`
+													: "—"}
+											</div>
+										</div>
+									</div>
+									{preview.success ? (
+										<div className="flex items-center gap-2 text-sm text-green-600">
+											<CheckCircle className="w-4 h-4" />
+											Simulation succeeded
+										</div>
+									) : (
+										<div className="flex items-start gap-2 text-sm text-destructive">
+											<AlertCircle className="w-4 h-4 mt-0.5" />
+											<span>
+												{preview.error?.message ||
+													"Simulation failed"}
+											</span>
+										</div>
+									)}
+								</>
+							)}
+						</CardContent>
+					</Card>
+				)}
+
 				{/* Action Buttons */}
 				<div className="flex gap-4">
 					<Button
@@ -297,7 +600,11 @@ export function RoundUpCharges({
 					</Button>
 					<Button
 						onClick={handleConfirmInvest}
-						disabled={isProcessing || pendingRoundUps.length === 0}
+						disabled={
+							isProcessing ||
+							pendingRoundUps.length === 0 ||
+							!canConfirm
+						}
 						className="flex-1 coffee-button">
 						{isProcessing ? (
 							<>
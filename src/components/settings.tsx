@@ -1,6 +1,6 @@
 "use client";
 
-import { useState } from "react";
+import { useCallback, useEffect, useState } from "react";
 import { useSolana } from "@/components/solana-provider";
 import { Button } from "@/components/ui/button";
 import {
@@ -11,6 +11,7 @@ import {
 	CardTitle,
 } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { getExplorerTxUrl } from "@/lib/config";
 import {
 	ArrowLeft,
 	Wallet,
@@ -19,6 +20,41 @@ import {
 	Settings,
 } from "lucide-react";
 
+const CATEGORY_LABELS: Record<string, string> = {
+	payment: "Payments",
+	swap: "Swaps",
+	stake: "Staking",
+	unstake: "Unstaking",
+	nft_purchase: "NFT Purchases",
+	nft_sale: "NFT Sales",
+	lend_deposit: "Jupiter Lend Deposits",
+	lend_withdraw: "Jupiter Lend Withdrawals",
+	self_transfer: "Self-transfers",
+	other: "Other",
+};
+
+type AutoInvestCadence = "daily" | "weekly" | "threshold";
+
+const CADENCE_LABELS: Record<AutoInvestCadence, string> = {
+	threshold: "On threshold",
+	daily: "Daily",
+	weekly: "Weekly",
+};
+
+interface AutoInvestSettings {
+	enabled: boolean;
+	threshold: number;
+	cadence: AutoInvestCadence;
+}
+
+interface AutoInvestLogEntry {
+	id: number;
+	outcome: "invested" | "skipped" | "failed";
+	reason: string;
+	signature: string | null;
+	createdAt: string;
+}
+
 interface SettingsProps {
 	onBack: () => void;
 }
@@ -32,11 +68,156 @@ export function SettingsPage({ onBack }: SettingsProps) {
 		isLoadingBalances,
 		fetchBalances,
 		networkName,
+		getAccessToken,
 	} = useSolana();
 	const [isRefreshing, setIsRefreshing] = useState(false);
 	const [preferredPayment, setPreferredPayment] = useState<
 		"sol" | "usdc"
 	>("sol");
+	const [roundupCategories, setRoundupCategories] = useState<string[]>([]);
+	const [availableCategories, setAvailableCategories] = useState<string[]>(
+		[]
+	);
+	const [isSavingCategories, setIsSavingCategories] = useState(false);
+	const [autoInvest, setAutoInvest] = useState<AutoInvestSettings | null>(
+		null
+	);
+	const [thresholdInput, setThresholdInput] = useState("");
+	const [isSavingAutoInvest, setIsSavingAutoInvest] = useState(false);
+	const [autoInvestError, setAutoInvestError] = useState<string | null>(null);
+	const [autoInvestLog, setAutoInvestLog] = useState<AutoInvestLogEntry[]>(
+		[]
+	);
+
+	const fetchPreferences = useCallback(async () => {
+		if (!walletAddress) return;
+
+		try {
+			const authToken = await getAccessToken();
+			const response = await fetch(
+				`/api/preferences?address=${walletAddress}`,
+				{ headers: { Authorization: `Bearer ${authToken}` } }
+			);
+			const result = await response.json();
+
+			if (result.success) {
+				setRoundupCategories(result.data.roundupCategories);
+				setAvailableCategories(result.data.availableCategories);
+				setAutoInvest(result.data.autoInvest);
+				setThresholdInput(String(result.data.autoInvest.threshold));
+			}
+		} catch (error) {
+			console.error("Failed to load preferences:", error);
+		}
+	}, [walletAddress, getAccessToken]);
+
+	const fetchAutoInvestLog = useCallback(async () => {
+		if (!walletAddress) return;
+
+		try {
+			const authToken = await getAccessToken();
+			const response = await fetch(
+				`/api/auto-invest?address=${walletAddress}&limit=5`,
+				{ headers: { Authorization: `Bearer ${authToken}` } }
+			);
+			const result = await response.json();
+
+			if (result.success) {
+				setAutoInvestLog(result.data.log);
+			}
+		} catch (error) {
+			console.error("Failed to load auto-invest activity:", error);
+		}
+	}, [walletAddress, getAccessToken]);
+
+	useEffect(() => {
+		fetchPreferences();
+		fetchAutoInvestLog();
+	}, [fetchPreferences, fetchAutoInvestLog]);
+
+	const saveAutoInvest = async (changes: Partial<AutoInvestSettings>) => {
+		if (!walletAddress) return;
+
+		setIsSavingAutoInvest(true);
+		setAutoInvestError(null);
+		try {
+			const authToken = await getAccessToken();
+			const response = await fetch("/api/preferences", {
+				method: "PUT",
+				headers: {
+					"Content-Type": "application/json",
+					Authorization: `Bearer ${authToken}`,
+				},
+				body: JSON.stringify({
+					address: walletAddress,
+					autoInvest: changes,
+				}),
+			});
+			const result = await response.json();
+
+			if (!result.success) {
+				throw new Error(result.error || "Failed to update auto-invest");
+			}
+
+			setAutoInvest(result.data.autoInvest);
+			setThresholdInput(String(result.data.autoInvest.threshold));
+		} catch (error) {
+			console.error("Failed to update auto-invest:", error);
+			setAutoInvestError(
+				error instanceof Error
+					? error.message
+					: "Failed to update auto-invest"
+			);
+		} finally {
+			setIsSavingAutoInvest(false);
+		}
+	};
+
+	const handleThresholdBlur = () => {
+		const threshold = parseFloat(thresholdInput);
+		if (!autoInvest || threshold === autoInvest.threshold) return;
+
+		if (!Number.isFinite(threshold) || threshold < 1) {
+			setAutoInvestError("Threshold must be at least $1.00");
+			setThresholdInput(String(autoInvest.threshold));
+			return;
+		}
+
+		saveAutoInvest({ threshold });
+	};
+
+	const toggleCategory = async (category: string) => {
+		if (!walletAddress) return;
+
+		const next = roundupCategories.includes(category)
+			? roundupCategories.filter((c) => c !== category)
+			: [...roundupCategories, category];
+
+		setIsSavingCategories(true);
+		try {
+			const authToken = await getAccessToken();
+			const response = await fetch("/api/preferences", {
+				method: "PUT",
+				headers: {
+					"Content-Type": "application/json",
+					Authorization: `Bearer ${authToken}`,
+				},
+				body: JSON.stringify({
+					address: walletAddress,
+					roundupCategories: next,
+				}),
+			});
+			const result = await response.json();
+
+			if (result.success) {
+				setRoundupCategories(result.data.roundupCategories);
+			}
+		} catch (error) {
+			console.error("Failed to update round-up categories:", error);
+		} finally {
+			setIsSavingCategories(false);
+		}
+	};
 
 	const handleRefresh = async () => {
 		setIsRefreshing(true);
@@ -214,20 +395,156 @@ export function SettingsPage({ onBack }: SettingsProps) {
 							</div>
 						</div>
 
-						<div className="flex items-center justify-between pt-4 border-t">
+						<div className="pt-4 border-t space-y-3">
+							<div className="flex items-center justify-between">
+								<div>
+									<div className="font-medium coffee-text-primary">
+										Auto-Invest Round-ups
+									</div>
+									<div className="text-sm text-muted-foreground">
+										Automatically invest spare change once it reaches
+										your threshold
+									</div>
+								</div>
+								<Button
+									variant={autoInvest?.enabled ? "default" : "outline"}
+									size="sm"
+									className={
+										autoInvest?.enabled ? "coffee-button" : ""
+									}
+									disabled={!autoInvest || isSavingAutoInvest}
+									onClick={() =>
+										saveAutoInvest({ enabled: !autoInvest?.enabled })
+									}>
+									{autoInvest?.enabled ? "Enabled" : "Disabled"}
+								</Button>
+							</div>
+							{autoInvest?.enabled && (
+								<>
+									<div className="flex items-center justify-between gap-4">
+										<div className="text-sm text-muted-foreground">
+											Threshold (USDC)
+										</div>
+										<input
+											type="number"
+											min="1"
+											step="0.01"
+											value={thresholdInput}
+											onChange={(e) => setThresholdInput(e.target.value)}
+											onBlur={handleThresholdBlur}
+											disabled={isSavingAutoInvest}
+											className="w-24 px-3 py-1 text-sm border rounded-md bg-background"
+										/>
+									</div>
+									<div className="flex items-center justify-between gap-4">
+										<div className="text-sm text-muted-foreground">
+											Cadence
+										</div>
+										<div className="flex gap-2">
+											{(
+												Object.keys(CADENCE_LABELS) as AutoInvestCadence[]
+											).map((cadence) => (
+												<Button
+													key={cadence}
+													variant={
+														autoInvest.cadence === cadence
+															? "default"
+															: "outline"
+													}
+													size="sm"
+													className={
+														autoInvest.cadence === cadence
+															? "coffee-button"
+															: ""
+													}
+													disabled={isSavingAutoInvest}
+													onClick={() => saveAutoInvest({ cadence })}>
+													{CADENCE_LABELS[cadence]}
+												</Button>
+											))}
+										</div>
+									</div>
+								</>
+							)}
+							{autoInvestError && (
+								<div className="text-sm text-destructive">
+									{autoInvestError}
+								</div>
+							)}
+							{autoInvestLog.length > 0 && (
+								<div className="space-y-2">
+									<div className="text-sm font-medium coffee-text-primary">
+										Recent activity
+									</div>
+									{autoInvestLog.map((entry) => (
+										<div
+											key={entry.id}
+											className="flex items-start gap-2 text-sm">
+											<Badge
+												variant={
+													entry.outcome === "failed"
+														? "destructive"
+														: entry.outcome === "invested"
+														? "default"
+														: "secondary"
+												}
+												className={
+													entry.outcome === "invested"
+														? "coffee-bg-mocha"
+														: ""
+												}>
+												{entry.outcome}
+											</Badge>
+											<div className="flex-1">
+												<div>{entry.reason}</div>
+												<div className="text-xs text-muted-foreground">
+													{new Date(entry.createdAt).toLocaleString()}
+													{entry.signature && (
+														<>
+															{" · "}
+															<a
+																href={getExplorerTxUrl(entry.signature)}
+																target="_blank"
+																rel="noopener noreferrer"
+																className="underline">
+																View transaction
+															</a>
+														</>
+													)}
+												</div>
+											</div>
+										</div>
+									))}
+								</div>
+							)}
+						</div>
+
+						<div className="pt-4 border-t space-y-3">
 							<div>
 								<div className="font-medium coffee-text-primary">
-									Auto-Invest Round-ups
+									Round-up Categories
 								</div>
 								<div className="text-sm text-muted-foreground">
-									Automatically invest spare change from transactions
+									Choose which kinds of transactions generate spare
+									change
 								</div>
 							</div>
-							<Badge
-								variant="default"
-								className="coffee-bg-mocha">
-								Enabled
-							</Badge>
+							<div className="flex flex-wrap gap-2">
+								{availableCategories.map((category) => {
+									const enabled = roundupCategories.includes(category);
+									return (
+										<Button
+											key={category}
+											variant={enabled ? "default" : "outline"}
+											size="sm"
+											className={enabled ? "coffee-button" : ""}
+											disabled={isSavingCategories}
+											onClick={() => toggleCategory(category)}>
+											{CATEGORY_LABELS[category] || category}
+										</Button>
+									);
+								})}
+							</div>
 						</div>
 					</CardContent>
 				</Card>
@@ -166,13 +166,35 @@ export function SolanaProvider({
 		const initializeWallet = async () => {
 			if (!walletAddress) return;
 
+			// Other Solana wallets linked to the same Privy user
+			const linkedWallets = (
+				(user?.linkedAccounts || []) as Array<{
+					type: string;
+					chainType?: string;
+					address?: string;
+				}>
+			)
+				.filter(
+					(account) =>
+						account.type === "wallet" &&
+						account.chainType === "solana" &&
+						!!account.address &&
+						account.address !== walletAddress
+				)
+				.map((account) => account.address as string);
+
 			try {
+				const authToken = await getAccessToken();
 				const response = await fetch("/api/wallet/init", {
 					method: "POST",
 					headers: {
 						"Content-Type": "application/json",
+						Authorization: `Bearer ${authToken}`,
 					},
-					body: JSON.stringify({ address: walletAddress }),
+					body: JSON.stringify({
+						address: walletAddress,
+						linkedWallets,
+					}),
 				});
 
 				const result = await response.json();
@@ -0,0 +1,418 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useSolana } from "@/components/solana-provider";
+import { Button } from "@/components/ui/button";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import { getExplorerTxUrl } from "@/lib/config";
+import {
+	ArrowLeft,
+	ArrowDownToLine,
+	Coffee,
+	AlertCircle,
+	CheckCircle,
+} from "lucide-react";
+
+interface TransactionPreview {
+	success: boolean;
+	feeSol: number | null;
+	computeUnits: number | null;
+	computeUnitLimit: number;
+	shares: number | null;
+	error?: {
+		code: string;
+		message: string;
+	};
+}
+
+type WithdrawStep = "amount" | "review" | "done";
+
+interface WithdrawFundsProps {
+	onBack: () => void;
+	onDone: () => void;
+}
+
+// USDC has 6 decimals
+function floorUsdc(amount: number): number {
+	return Math.floor(amount * 1_000_000) / 1_000_000;
+}
+
+export function WithdrawFunds({ onBack, onDone }: WithdrawFundsProps) {
+	const { walletAddress, isConnected, getAccessToken, fetchBalances } =
+		useSolana();
+	const [availableUsdc, setAvailableUsdc] = useState<number | null>(null);
+	const [isLoadingPosition, setIsLoadingPosition] = useState(true);
+	const [amountInput, setAmountInput] = useState("");
+	const [step, setStep] = useState<WithdrawStep>("amount");
+	const [preview, setPreview] = useState<TransactionPreview | null>(null);
+	const [isPreviewing, setIsPreviewing] = useState(false);
+	const [isProcessing, setIsProcessing] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+	const [signature, setSignature] = useState<string | null>(null);
+
+	const fetchPosition = useCallback(async () => {
+		if (!walletAddress) return;
+
+		setIsLoadingPosition(true);
+		try {
+			const authToken = await getAccessToken();
+			const response = await fetch(
+				`/api/pool/position?wallet=${walletAddress}`,
+				{ headers: { Authorization: `Bearer ${authToken}` } }
+			);
+			const result = await response.json();
+
+			if (!result.success) {
+				throw new Error(result.error || "Failed to load position");
+			}
+
+			setAvailableUsdc(floorUsdc(result.data.currentValue));
+		} catch (fetchError) {
+			console.error("Error loading Jupiter Earn position:", fetchError);
+			setError(
+				fetchError instanceof Error
+					? fetchError.message
+					: "Failed to load position"
+			);
+		} finally {
+			setIsLoadingPosition(false);
+		}
+	}, [walletAddress, getAccessToken]);
+
+	useEffect(() => {
+		if (isConnected && walletAddress) {
+			fetchPosition();
+		}
+	}, [isConnected, walletAddress, fetchPosition]);
+
+	const amount = parseFloat(amountInput);
+	const isValidAmount =
+		Number.isFinite(amount) &&
+		amount > 0 &&
+		availableUsdc !== null &&
+		amount <= availableUsdc;
+	const isFullWithdrawal = isValidAmount && amount === availableUsdc;
+
+	const handleMax = () => {
+		if (availableUsdc !== null) {
+			setAmountInput(String(availableUsdc));
+		}
+	};
+
+	const handleReview = async () => {
+		if (!walletAddress || !isValidAmount) return;
+
+		setIsPreviewing(true);
+		setError(null);
+		try {
+			const authToken = await getAccessToken();
+			const response = await fetch("/api/transactions/preview", {
+				method: "POST",
+				headers: {
+					"Content-Type": "application/json",
+					Authorization: `Bearer ${authToken}`,
+				},
+				body: JSON.stringify({
+					action: "withdraw",
+					amount,
+					walletAddress,
+				}),
+			});
+			const result = await response.json();
+
+			if (!result.success) {
+				throw new Error(result.error || "Failed to preview withdrawal");
+			}
+
+			setPreview(result.data);
+			setStep("review");
+		} catch (previewError) {
+			console.error("Error previewing withdrawal:", previewError);
+			setError(
+				previewError instanceof Error
+					? previewError.message
+					: "Failed to preview withdrawal"
+			);
+		} finally {
+			setIsPreviewing(false);
+		}
+	};
+
+	const handleConfirm = async () => {
+		if (!walletAddress || !preview?.success) return;
+
+		setIsProcessing(true);
+		setError(null);
+		try {
+			const authToken = await getAccessToken();
+			if (!authToken) {
+				throw new Error("Failed to get authentication token");
+			}
+
+			const response = await fetch("/api/transactions/sign", {
+				method: "POST",
+				headers: {
+					"Content-Type": "application/json",
+					Authorization: `Bearer ${authToken}`,
+				},
+				body: JSON.stringify({
+					action: "withdraw",
+					amount,
+					walletAddress,
+				}),
+			});
+			const result = await response.json();
+
+			if (!result.success) {
+				throw new Error(result.error || "Withdrawal failed");
+			}
+
+			console.log("Withdrawal confirmed:", result.data);
+			setSignature(result.data.signature);
+			setStep("done");
+			fetchBalances();
+		} catch (withdrawError) {
+			console.error("❌ Withdrawal failed:", withdrawError);
+			setError(
+				withdrawError instanceof Error
+					? withdrawError.message
+					: "Withdrawal failed"
+			);
+		} finally {
+			setIsProcessing(false);
+		}
+	};
+
+	if (!isConnected || !walletAddress) {
+		return (
+			<div className="min-h-screen flex items-center justify-center p-4">
+				<Card className="w-full max-w-md coffee-card">
+					<CardHeader className="text-center">
+						<Coffee className="w-12 h-12 text-primary mx-auto mb-4" />
+						<CardTitle className="coffee-text-primary">
+							Wallet Not Connected
+						</CardTitle>
+						<CardDescription className="coffee-text-secondary">
+							Please connect your wallet to withdraw
+						</CardDescription>
+					</CardHeader>
+					<CardContent>
+						<Button
+							onClick={onBack}
+							className="w-full coffee-button">
+							<ArrowLeft className="w-4 h-4 mr-2" />
+							Back
+						</Button>
+					</CardContent>
+				</Card>
+			</div>
+		);
+	}
+
+	return (
+		<div className="min-h-screen bg-background p-4">
+			<div className="max-w-xl mx-auto space-y-6">
+				{/* Header */}
+				<div className="flex items-center gap-3">
+					<Button
+						onClick={onBack}
+						variant="ghost"
+						size="sm"
+						className="p-2"
+						disabled={isProcessing}>
+						<ArrowLeft className="w-4 h-4" />
+					</Button>
+					<div className="flex items-center gap-3">
+						<Coffee className="w-8 h-8 text-primary" />
+						<h1 className="text-2xl font-bold coffee-text-primary">
+							Withdraw
+						</h1>
+					</div>
+				</div>
+
+				{step === "amount" && (
+					<Card className="coffee-card">
+						<CardHeader>
+							<CardTitle className="flex items-center gap-2">
+								<ArrowDownToLine className="w-5 h-5" />
+								Withdraw from Jupiter Earn
+							</CardTitle>
+							<CardDescription>
+								{isLoadingPosition
+									? "Loading your position..."
+									: `Available: $${(availableUsdc ?? 0).toFixed(
+											2
+									  )} USDC`}
+							</CardDescription>
+						</CardHeader>
+						<CardContent className="space-y-4">
+							<div className="flex gap-2">
+								<input
+									type="number"
+									min="0"
+									step="any"
+									placeholder="Amount in USDC"
+									value={amountInput}
+									onChange={(e) => setAmountInput(e.target.value)}
+									disabled={isLoadingPosition || !availableUsdc}
+									className="flex-1 px-3 py-2 text-sm border rounded-md bg-background"
+								/>
+								<Button
+									variant="outline"
+									onClick={handleMax}
+									disabled={isLoadingPosition || !availableUsdc}>
+									Max
+								</Button>
+							</div>
+							{amountInput && !isValidAmount && (
+								<div className="text-sm text-destructive">
+									Enter an amount up to your available balance
+								</div>
+							)}
+							{error && (
+								<div className="flex items-start gap-2 text-sm text-destructive">
+									<AlertCircle className="w-4 h-4 mt-0.5" />
+									<span>{error}</span>
+								</div>
+							)}
+							<Button
+								onClick={handleReview}
+								disabled={!isValidAmount || isPreviewing}
+								className="w-full coffee-button">
+								{isPreviewing ? "Simulating..." : "Review Withdrawal"}
+							</Button>
+						</CardContent>
+					</Card>
+				)}
+
+				{step === "review" && preview && (
+					<Card className="coffee-card">
+						<CardHeader>
+							<CardTitle className="flex items-center gap-2">
+								<ArrowDownToLine className="w-5 h-5" />
+								Confirm Withdrawal
+							</CardTitle>
+							<CardDescription>
+								{isFullWithdrawal ? "Full" : "Partial"} withdrawal of $
+								{amount.toFixed(2)} USDC to your wallet
+							</CardDescription>
+						</CardHeader>
+						<CardContent className="space-y-4">
+							<div className="space-y-2 text-sm">
+								<div className="flex justify-between">
+									<span className="text-muted-foreground">
+										jlUSDC redeemed
+									</span>
+									<span className="font-medium">
+										{preview.shares !== null
+											? preview.shares.toFixed(6)
+											: "—"}
+									</span>
+								</div>
+								<div className="flex justify-between">
+									<span className="text-muted-foreground">
+										Network fee
+									</span>
+									<span className="font-medium">
+										{preview.feeSol !== null
+											? `${preview.feeSol.toFixed(6)} SOL`
+											: "—"}
+									</span>
+								</div>
+								<div className="flex justify-between">
+									<span className="text-muted-foreground">
+										Compute units
+									</span>
+									<span className="font-medium">
+										{preview.computeUnits !== null
+											? `${preview.computeUnits.toLocaleString()} / ${preview.computeUnitLimit.toLocaleString()}`
+											: "—"}
+									</span>
+								</div>
+							</div>
+							{preview.success ? (
+								<div className="flex items-center gap-2 text-sm text-green-600">
+									<CheckCircle className="w-4 h-4" />
+									Simulation succeeded
+								</div>
+							) : (
+								<div className="flex items-start gap-2 text-sm text-destructive">
+									<AlertCircle className="w-4 h-4 mt-0.5" />
+									<span>
+										{preview.error?.message || "Simulation failed"}
+									</span>
+								</div>
+							)}
+							{error && (
+								<div className="flex items-start gap-2 text-sm text-destructive">
+									<AlertCircle className="w-4 h-4 mt-0.5" />
+									<span>{error}</span>
+								</div>
+							)}
+							<div className="flex gap-4">
+								<Button
+									variant="outline"
+									className="flex-1"
+									disabled={isProcessing}
+									onClick={() => {
+										setStep("amount");
+										setPreview(null);
+										setError(null);
+									}}>
+									Edit
+								</Button>
+								<Button
+									onClick={handleConfirm}
+									disabled={!preview.success || isProcessing}
+									className="flex-1 coffee-button">
+									{isProcessing ? (
+										<>
+											<div className="w-4 h-4 mr-2 border-2 border-current border-t-transparent rounded-full animate-spin" />
+											Processing...
+										</>
+									) : (
+										"Confirm Withdrawal"
+									)}
+								</Button>
+							</div>
+						</CardContent>
+					</Card>
+				)}
+
+				{step === "done" && signature && (
+					<Card className="coffee-card">
+						<CardHeader className="text-center">
+							<CheckCircle className="w-12 h-12 text-green-500 mx-auto mb-4" />
+							<CardTitle className="coffee-text-primary">
+								Withdrawal Complete
+							</CardTitle>
+							<CardDescription className="coffee-text-secondary">
+								${amount.toFixed(2)} USDC returned to your wallet
+							</CardDescription>
+						</CardHeader>
+						<CardContent className="space-y-4">
+							<a
+								href={getExplorerTxUrl(signature)}
+								target="_blank"
+								rel="noopener noreferrer"
+								className="block text-center text-sm text-primary underline break-all">
+								{signature}
+							</a>
+							<Button
+								onClick={onDone}
+								className="w-full coffee-button">
+								Back to Position
+							</Button>
+						</CardContent>
+					</Card>
+				)}
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,25 @@
+/**
+ * Next.js instrumentation hook
+ * Starts server-side background work once per Node.js server process
+ */
+
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+
+  const { config } = await import('./lib/config');
+
+  if (config.getAutoInvestConfig().schedulerEnabled) {
+    const { startAutoInvestScheduler } = await import('./lib/services/auto-invest');
+    startAutoInvestScheduler();
+  }
+
+  if (config.getSyncWorkerConfig().workerEnabled) {
+    const { startWalletSyncWorker } = await import('./lib/services/wallet-sync');
+    startWalletSyncWorker();
+  }
+
+  if (config.getWebSocketIngestionConfig().enabled) {
+    const { startWebSocketIngestion } = await import('./lib/services/websocket-ingestion');
+    startWebSocketIngestion();
+  }
+}
@@ -16,17 +16,86 @@ export interface SolanaConfig {
   cluster: SolanaCluster;
   rpcUrl: string;
   commitment: 'processed' | 'confirmed' | 'finalized';
+  computeUnitLimit: number; // Compute budget for transactions we build and sign
+  priorityFeeMicroLamports: number; // Compute unit price for transactions we build and sign
 }
 
+export type PriceProviderName = 'coingecko' | 'jupiter' | 'pyth';
+
 export interface PriceOracleConfig {
   pythSolUsdFeed: string;
   pythUsdcUsdFeed: string;
+  pythMaxStalenessSeconds: number;
+  pythMaxConfidenceRatio: number; // Max confidence interval relative to price, e.g. 0.01 for 1%
   jupiterApiUrl: string;
+  providers: PriceProviderName[]; // Ordered fallback chain
+  quorumEnabled: boolean;
+  quorumTolerance: number; // Max relative deviation from the median, e.g. 0.02 for 2%
+  quorumMinProviders: number;
+}
+
+export interface RpcRateLimit {
+  requestsPerSecond: number; // Token bucket refill rate
+  burst: number; // Token bucket capacity
+}
+
+export interface RpcFetchConfig {
+  batchSize: number; // Signatures per getParsedTransactions call
+  concurrency: number; // getParsedTransactions calls in flight per fetch
+  maxRetries: number; // Retries per call on 429/5xx and network errors
+  retryBaseMs: number; // First retry delay; doubles per retry
+  retryMaxMs: number;
+  defaultRateLimit: RpcRateLimit; // Endpoints without their own limit
+  endpointRateLimits: Record<string, RpcRateLimit>; // Keyed by endpoint host
+}
+
+export type TransactionSourceName = 'helius' | 'rpc' | 'fixture';
+
+export interface TransactionSourceConfig {
+  source: TransactionSourceName; // Where the round-up stack reads wallet history from
+  rpcUrl: string; // RPC endpoint for the 'rpc' source, e.g. a local validator
+  fixturePath: string | null; // JSON file or directory of enhanced transactions for the 'fixture' source
+}
+
+export interface AutoInvestConfig {
+  schedulerEnabled: boolean; // Run the in-process scheduler (long-running servers)
+  intervalMinutes: number; // How often the scheduler checks opted-in wallets
+}
+
+export interface CronConfig {
+  secret: string | null; // Bearer token for every /api/cron/* endpoint
+}
+
+export interface SyncWorkerConfig {
+  workerEnabled: boolean; // Run the in-process sync worker (long-running servers)
+  intervalMinutes: number; // How often every tracked wallet is synced
+  maxAttempts: number; // Attempts per job before it is marked failed
+  backoffBaseSeconds: number; // First retry delay; doubles on every attempt
+  backoffMaxSeconds: number;
+}
+
+export interface HeliusWebhookConfig {
+  url: string | null; // Public URL of /api/webhooks/helius; registration is skipped without it
+  authHeader: string | null; // Helius sends this as the Authorization header
+  webhookId: string | null; // Existing webhook to add wallets to; found by URL when unset
+}
+
+export interface WebSocketIngestionConfig {
+  enabled: boolean; // Subscribe to tracked wallets over the cluster's WS_ENDPOINT
+  watchdogSeconds: number; // Reconnect when no slot update arrives for this long
+  refreshMinutes: number; // How often new and removed wallets are picked up
 }
 
 export interface AppConfig {
   solana: SolanaConfig;
   priceOracle: PriceOracleConfig;
+  transactionSource: TransactionSourceConfig;
+  rpcFetch: RpcFetchConfig;
+  autoInvest: AutoInvestConfig;
+  cron: CronConfig;
+  sync: SyncWorkerConfig;
+  heliusWebhook: HeliusWebhookConfig;
+  websocketIngestion: WebSocketIngestionConfig;
   transactionLookbackDays: number;
   defaultRoundupEnabled: boolean;
   defaultPercentageEnabled: boolean;
@@ -45,7 +114,7 @@ export const NETWORK_CONFIG = {
 
   mainnet: {
     RPC_ENDPOINT: process.env.NEXT_PUBLIC_SOLANA_MAINNET_RPC_URL || "https://api.mainnet-beta.solana.com",
-    WS_ENDPOINT: "wss://api.mainnet-beta.solana.com",
+    WS_ENDPOINT: process.env.NEXT_PUBLIC_SOLANA_MAINNET_WS_URL || "wss://api.mainnet-beta.solana.com",
     CHAIN: "solana:mainnet",
     USDC_MINT: "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v",
     DISPLAY_NAME: "Solana Mainnet"
@@ -53,7 +122,7 @@ export const NETWORK_CONFIG = {
 
   devnet: {
     RPC_ENDPOINT: process.env.NEXT_PUBLIC_SOLANA_DEVNET_RPC_URL || "https://api.devnet.solana.com",
-    WS_ENDPOINT: "wss://api.devnet.solana.com",
+    WS_ENDPOINT: process.env.NEXT_PUBLIC_SOLANA_DEVNET_WS_URL || "wss://api.devnet.solana.com",
     CHAIN: "solana:devnet",
     USDC_MINT: "4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU", // Devnet USDC
     DISPLAY_NAME: "Solana Devnet"
@@ -65,6 +134,12 @@ export const getCurrentNetworkConfig = () => {
   return NETWORK_CONFIG[NETWORK_CONFIG.CURRENT_NETWORK];
 };
 
+// Explorer link for a transaction on the current network
+export const getExplorerTxUrl = (signature: string) => {
+  const network = NETWORK_CONFIG.CURRENT_NETWORK;
+  return `https://solscan.io/tx/${signature}${network === 'mainnet' ? '' : `?cluster=${network}`}`;
+};
+
 // New configuration manager for backend services
 class ConfigManager {
   private static instance: ConfigManager;
@@ -78,11 +153,60 @@ class ConfigManager {
         cluster,
         rpcUrl: this.getRpcUrl(cluster),
         commitment: 'confirmed',
+        computeUnitLimit: parseInt(process.env.COMPUTE_UNIT_LIMIT || '400000', 10),
+        priorityFeeMicroLamports: parseInt(process.env.PRIORITY_FEE_MICRO_LAMPORTS || '10000', 10),
       },
       priceOracle: {
         pythSolUsdFeed: process.env.PYTH_PRICE_FEED_SOL_USD || 'H6ARHf6YXhGYeQfUzQNGk6rDNnLBQKrenN712K4AQJEG',
         pythUsdcUsdFeed: process.env.PYTH_PRICE_FEED_USDC_USD || 'Gnt27xtC473ZT2Mw5u8wZ68Z3gULkSTb5DuxJy7eJotD',
+        pythMaxStalenessSeconds: parseInt(process.env.PYTH_MAX_STALENESS_SECONDS || '60', 10),
+        pythMaxConfidenceRatio: parseFloat(process.env.PYTH_MAX_CONFIDENCE_RATIO || '0.01'),
         jupiterApiUrl: process.env.JUPITER_PRICE_API_URL || 'https://price.jup.ag/v6',
+        providers: this.parsePriceProviders(process.env.PRICE_PROVIDERS || 'coingecko,jupiter,pyth'),
+        quorumEnabled: process.env.PRICE_QUORUM_ENABLED === 'true',
+        quorumTolerance: parseFloat(process.env.PRICE_QUORUM_TOLERANCE || '0.02'),
+        quorumMinProviders: parseInt(process.env.PRICE_QUORUM_MIN_PROVIDERS || '2', 10),
+      },
+      transactionSource: {
+        source: this.parseTransactionSource(process.env.TRANSACTION_SOURCE || 'helius'),
+        rpcUrl: process.env.TRANSACTION_SOURCE_RPC_URL || this.getRpcUrl(cluster),
+        fixturePath: process.env.TRANSACTION_SOURCE_FIXTURE_PATH || null,
+      },
+      rpcFetch: {
+        batchSize: parseInt(process.env.RPC_FETCH_BATCH_SIZE || '25', 10),
+        concurrency: parseInt(process.env.RPC_FETCH_CONCURRENCY || '4', 10),
+        maxRetries: parseInt(process.env.RPC_FETCH_MAX_RETRIES || '4', 10),
+        retryBaseMs: parseInt(process.env.RPC_FETCH_RETRY_BASE_MS || '500', 10),
+        retryMaxMs: parseInt(process.env.RPC_FETCH_RETRY_MAX_MS || '10000', 10),
+        defaultRateLimit: {
+          requestsPerSecond: parseFloat(process.env.RPC_REQUESTS_PER_SECOND || '4'),
+          burst: parseInt(process.env.RPC_RATE_LIMIT_BURST || '8', 10),
+        },
+        endpointRateLimits: this.parseRpcRateLimits(process.env.RPC_RATE_LIMITS || ''),
+      },
+      autoInvest: {
+        schedulerEnabled: process.env.AUTO_INVEST_SCHEDULER_ENABLED === 'true',
+        intervalMinutes: parseInt(process.env.AUTO_INVEST_INTERVAL_MINUTES || '15', 10),
+      },
+      cron: {
+        secret: process.env.CRON_SECRET || null,
+      },
+      sync: {
+        workerEnabled: process.env.SYNC_WORKER_ENABLED === 'true',
+        intervalMinutes: parseInt(process.env.SYNC_INTERVAL_MINUTES || '5', 10),
+        maxAttempts: parseInt(process.env.SYNC_MAX_ATTEMPTS || '5', 10),
+        backoffBaseSeconds: parseInt(process.env.SYNC_BACKOFF_BASE_SECONDS || '30', 10),
+        backoffMaxSeconds: parseInt(process.env.SYNC_BACKOFF_MAX_SECONDS || '1800', 10),
+      },
+      heliusWebhook: {
+        url: process.env.HELIUS_WEBHOOK_URL || null,
+        authHeader: process.env.HELIUS_WEBHOOK_AUTH_HEADER || null,
+        webhookId: process.env.HELIUS_WEBHOOK_ID || null,
+      },
+      websocketIngestion: {
+        enabled: process.env.WEBSOCKET_INGESTION_ENABLED === 'true',
+        watchdogSeconds: parseInt(process.env.WEBSOCKET_WATCHDOG_SECONDS || '30', 10),
+        refreshMinutes: parseInt(process.env.WEBSOCKET_REFRESH_MINUTES || '1', 10),
       },
       transactionLookbackDays: parseInt(process.env.TRANSACTION_LOOKBACK_DAYS || '30', 10),
       defaultRoundupEnabled: process.env.DEFAULT_ROUNDUP_ENABLED !== 'false',
@@ -91,6 +215,46 @@ class ConfigManager {
     };
   }
 
+  private parsePriceProviders(value: string): PriceProviderName[] {
+    const known: PriceProviderName[] = ['coingecko', 'jupiter', 'pyth'];
+    const providers = value
+      .split(',')
+      .map((name) => name.trim().toLowerCase())
+      .filter((name): name is PriceProviderName => known.includes(name as PriceProviderName));
+
+    return providers.length > 0 ? providers : ['coingecko'];
+  }
+
+  /**
+   * Parse per-endpoint rate limits, e.g.
+   * "api.mainnet-beta.solana.com=4,mainnet.helius-rpc.com=40:80" (host=rps[:burst])
+   */
+  private parseRpcRateLimits(value: string): Record<string, RpcRateLimit> {
+    const limits: Record<string, RpcRateLimit> = {};
+
+    for (const entry of value.split(',')) {
+      const [host, limit] = entry.trim().split('=');
+      if (!host || !limit) continue;
+
+      const [requestsPerSecond, burst] = limit.split(':').map(Number);
+      if (!(requestsPerSecond > 0)) continue;
+
+      limits[host.toLowerCase()] = {
+        requestsPerSecond,
+        burst: burst > 0 ? burst : Math.max(1, Math.ceil(requestsPerSecond * 2)),
+      };
+    }
+
+    return limits;
+  }
+
+  private parseTransactionSource(value: string): TransactionSourceName {
+    const known: TransactionSourceName[] = ['helius', 'rpc', 'fixture'];
+    const source = value.trim().toLowerCase() as TransactionSourceName;
+
+    return known.includes(source) ? source : 'helius';
+  }
+
   private getRpcUrl(cluster: SolanaCluster): string {
     switch (cluster) {
       case 'mainnet-beta':
@@ -123,6 +287,47 @@ class ConfigManager {
     return this.config.priceOracle;
   }
 
+  public getTransactionSourceConfig(): TransactionSourceConfig {
+    return this.config.transactionSource;
+  }
+
+  public getRpcFetchConfig(): RpcFetchConfig {
+    return this.config.rpcFetch;
+  }
+
+  /**
+   * Rate limit for an RPC endpoint, matched by host
+   */
+  public getRpcRateLimit(rpcUrl: string): RpcRateLimit {
+    const { defaultRateLimit, endpointRateLimits } = this.config.rpcFetch;
+
+    try {
+      return endpointRateLimits[new URL(rpcUrl).host.toLowerCase()] || defaultRateLimit;
+    } catch {
+      return defaultRateLimit;
+    }
+  }
+
+  public getAutoInvestConfig(): AutoInvestConfig {
+    return this.config.autoInvest;
+  }
+
+  public getCronConfig(): CronConfig {
+    return this.config.cron;
+  }
+
+  public getSyncWorkerConfig(): SyncWorkerConfig {
+    return this.config.sync;
+  }
+
+  public getHeliusWebhookConfig(): HeliusWebhookConfig {
+    return this.config.heliusWebhook;
+  }
+
+  public getWebSocketIngestionConfig(): WebSocketIngestionConfig {
+    return this.config.websocketIngestion;
+  }
+
   public getTransactionLookbackDays(): number {
     return this.config.transactionLookbackDays;
   }
@@ -22,7 +22,8 @@ CREATE TABLE IF NOT EXISTS contribution_proposals (
   -- Price data at block time
   sol_price_usd DECIMAL(20, 2),
   token_price_usd DECIMAL(20, 2),
-  price_source VARCHAR(20), -- 'pyth', 'jupiter', 'manual'
+  price_source VARCHAR(20), -- 'pyth', 'jupiter', 'coingecko', 'stablecoin', 'manual'
+  price_status VARCHAR(20) NOT NULL DEFAULT 'priced', -- 'priced', 'unpriced', 'manual'
 
   -- Spare change calculation
   proposal_type VARCHAR(20) NOT NULL, -- 'roundup' or 'percentage'
@@ -31,7 +32,7 @@ CREATE TABLE IF NOT EXISTS contribution_proposals (
   spare_change_amount_usd DECIMAL(20, 2),
 
   -- Proposal status
-  status VARCHAR(20) NOT NULL DEFAULT 'pending', -- 'pending', 'accepted', 'rejected', 'executed'
+  status VARCHAR(20) NOT NULL DEFAULT 'pending', -- 'pending', 'accepted', 'rejected', 'executing', 'executed'
 
   -- Execution details
   execution_signature VARCHAR(88),
@@ -65,6 +66,7 @@ CREATE TABLE IF NOT EXISTS user_preferences (
   roundup_enabled BOOLEAN DEFAULT TRUE,
   percentage_enabled BOOLEAN DEFAULT FALSE,
   percentage_rate DECIMAL(5, 2) DEFAULT 1.00,
+  roundup_categories TEXT[] DEFAULT ARRAY['payment', 'nft_purchase'], -- Transaction categories that generate round-ups
 
   -- Notification preferences
   notify_on_proposal BOOLEAN DEFAULT TRUE,
@@ -94,3 +96,142 @@ CREATE TABLE IF NOT EXISTS transaction_cache (
 
 CREATE INDEX IF NOT EXISTS idx_cache_wallet ON transaction_cache(wallet_address);
 CREATE INDEX IF NOT EXISTS idx_cache_block_time ON transaction_cache(block_time);
+
+-- Price history table (minute-bucketed USD prices used for historical valuation)
+CREATE TABLE IF NOT EXISTS price_history (
+  id SERIAL PRIMARY KEY,
+  token_mint VARCHAR(44) NOT NULL,
+  bucket BIGINT NOT NULL, -- Unix minute (unix timestamp / 60)
+  price DECIMAL(20, 9) NOT NULL,
+  source VARCHAR(20) NOT NULL, -- e.g., 'coingecko'
+
+  -- Metadata
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+  CONSTRAINT unique_price_bucket UNIQUE(token_mint, bucket)
+);
+
+CREATE INDEX IF NOT EXISTS idx_price_history_mint_bucket ON price_history(token_mint, bucket);
+
+-- Investments table (confirmed Jupiter Earn deposits and withdrawals)
+CREATE TABLE IF NOT EXISTS investments (
+  id SERIAL PRIMARY KEY,
+  wallet_address VARCHAR(44) NOT NULL,
+  action VARCHAR(20) NOT NULL, -- 'deposit' or 'withdraw'
+  amount_usdc DECIMAL(20, 6) NOT NULL,
+  shares DECIMAL(20, 6), -- jlUSDC minted (deposit) or burned (withdraw); NULL when unknown
+  price_per_share DECIMAL(20, 9), -- USDC per jlUSDC; NULL when unknown
+  roundup_ids INTEGER[] NOT NULL DEFAULT '{}', -- roundup_records swept into a deposit
+  signature VARCHAR(88) NOT NULL,
+
+  -- Metadata
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+  CONSTRAINT unique_investment_signature UNIQUE(signature)
+);
+
+CREATE INDEX IF NOT EXISTS idx_investments_wallet_created ON investments(wallet_address, created_at);
+
+-- Share accounting and swept round-ups for existing installs
+ALTER TABLE investments ADD COLUMN IF NOT EXISTS shares DECIMAL(20, 6) NOT NULL DEFAULT 0;
+ALTER TABLE investments ADD COLUMN IF NOT EXISTS price_per_share DECIMAL(20, 9) NOT NULL DEFAULT 0;
+ALTER TABLE investments ADD COLUMN IF NOT EXISTS roundup_ids INTEGER[] NOT NULL DEFAULT '{}';
+
+-- Unknown shares (Supabase): a confirmed deposit whose jlUSDC amount could
+-- not be read is still recorded, with NULL shares and price per share
+ALTER TABLE investments ALTER COLUMN shares DROP NOT NULL;
+ALTER TABLE investments ALTER COLUMN shares DROP DEFAULT;
+ALTER TABLE investments ALTER COLUMN price_per_share DROP NOT NULL;
+ALTER TABLE investments ALTER COLUMN price_per_share DROP DEFAULT;
+
+-- Round-up records (Supabase): tokens without a known price are stored as
+-- 'unpriced' with zero USD value until a manual price is supplied
+ALTER TABLE roundup_records ADD COLUMN IF NOT EXISTS price_status VARCHAR(20) NOT NULL DEFAULT 'priced'; -- 'priced', 'unpriced', 'manual'
+
+-- Sweep accounting (Supabase): only 'pending' round-ups count toward the
+-- ready-to-invest total; 'swept' ones are reserved by an in-flight deposit
+ALTER TABLE roundup_records ADD COLUMN IF NOT EXISTS status VARCHAR(20) NOT NULL DEFAULT 'pending'; -- 'pending', 'swept', 'invested', 'failed'
+ALTER TABLE roundup_records ADD COLUMN IF NOT EXISTS investment_id INTEGER REFERENCES investments(id);
+CREATE INDEX IF NOT EXISTS idx_roundup_records_wallet_status ON roundup_records(wallet_address, status);
+
+-- Per-asset breakdown (Supabase): every asset a transaction spent with its
+-- unit price, so multi-asset round-ups keep each asset and its price
+ALTER TABLE roundup_records ADD COLUMN IF NOT EXISTS outflows JSONB NOT NULL DEFAULT '[]'; -- [{ token, token_mint, amount, unit_price, usd_value, price_source }]
+
+-- Failed round-ups (Supabase): the deposit that was sent but never confirmed,
+-- checked later to mark them invested or release them
+ALTER TABLE roundup_records ADD COLUMN IF NOT EXISTS deposit_signature VARCHAR(88);
+ALTER TABLE roundup_records ADD COLUMN IF NOT EXISTS deposit_sent_at TIMESTAMP;
+
+-- Linked wallets (Supabase): transfers between a user's own wallets never generate round-ups
+ALTER TABLE wallet_tracking ADD COLUMN IF NOT EXISTS linked_wallets TEXT[] NOT NULL DEFAULT '{}';
+
+-- Round-up category preferences for existing installs
+ALTER TABLE user_preferences ADD COLUMN IF NOT EXISTS roundup_categories TEXT[] DEFAULT ARRAY['payment', 'nft_purchase'];
+
+-- Auto-invest (opt-in): the scheduler deposits pending round-ups once they
+-- reach the threshold, at most once per cadence period
+ALTER TABLE user_preferences ADD COLUMN IF NOT EXISTS auto_invest_enabled BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE user_preferences ADD COLUMN IF NOT EXISTS auto_invest_threshold DECIMAL(10, 2) NOT NULL DEFAULT 1.00; -- USDC, at least 1.00
+ALTER TABLE user_preferences ADD COLUMN IF NOT EXISTS auto_invest_cadence VARCHAR(20) NOT NULL DEFAULT 'threshold'; -- 'daily', 'weekly', 'threshold'
+ALTER TABLE user_preferences ADD COLUMN IF NOT EXISTS auto_invest_user_id VARCHAR(64); -- Privy user who opted in; signs scheduled deposits
+ALTER TABLE user_preferences ADD COLUMN IF NOT EXISTS auto_invest_last_run_at TIMESTAMP;
+ALTER TABLE user_preferences ADD COLUMN IF NOT EXISTS auto_invest_lease_expires_at TIMESTAMP; -- Held by the process evaluating the wallet
+
+-- Auto-invest log: every automatic deposit, failure and skip with its reason
+CREATE TABLE IF NOT EXISTS auto_invest_log (
+  id SERIAL PRIMARY KEY,
+  wallet_address VARCHAR(44) NOT NULL,
+  outcome VARCHAR(20) NOT NULL, -- 'invested', 'skipped', 'failed'
+  reason TEXT NOT NULL,
+  amount_usdc DECIMAL(20, 6),
+  roundup_ids INTEGER[] NOT NULL DEFAULT '{}',
+  signature VARCHAR(88),
+  investment_id INTEGER REFERENCES investments(id),
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_auto_invest_log_wallet_created ON auto_invest_log(wallet_address, created_at);
+
+-- Background sync (Supabase): per-wallet sync status on wallet_tracking
+ALTER TABLE wallet_tracking ADD COLUMN IF NOT EXISTS sync_status VARCHAR(20) NOT NULL DEFAULT 'idle'; -- 'idle', 'syncing', 'retrying', 'failed'
+ALTER TABLE wallet_tracking ADD COLUMN IF NOT EXISTS last_synced_at TIMESTAMP;
+ALTER TABLE wallet_tracking ADD COLUMN IF NOT EXISTS last_sync_error TEXT;
+
+-- Sync jobs: queue of incremental round-up syncs from each wallet's baseline
+CREATE TABLE IF NOT EXISTS sync_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  wallet_address VARCHAR(44) NOT NULL,
+  trigger VARCHAR(20) NOT NULL, -- 'scheduled' or 'manual'
+  status VARCHAR(20) NOT NULL DEFAULT 'queued', -- 'queued', 'running', 'completed', 'failed'
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL,
+  run_after TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP, -- Retries wait here with backoff
+  started_at TIMESTAMP,
+  finished_at TIMESTAMP,
+  processed INTEGER,
+  stored INTEGER,
+  error TEXT,
+
+  -- Metadata
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Running jobs hold a lease the worker renews while it works; a job whose
+-- lease ran out was interrupted and is requeued or failed
+ALTER TABLE sync_jobs ADD COLUMN IF NOT EXISTS lease_expires_at TIMESTAMP;
+
+CREATE INDEX IF NOT EXISTS idx_sync_jobs_status_run_after ON sync_jobs(status, run_after);
+CREATE INDEX IF NOT EXISTS idx_sync_jobs_wallet_created ON sync_jobs(wallet_address, created_at);
+
+-- At most one open job per wallet, even when two requests queue at once
+CREATE UNIQUE INDEX IF NOT EXISTS idx_sync_jobs_wallet_open ON sync_jobs(wallet_address) WHERE status IN ('queued', 'running');
+
+-- Helius webhook deliveries: one row per processed transaction signature, so
+-- redelivered payloads are not processed twice
+CREATE TABLE IF NOT EXISTS helius_webhook_events (
+  signature VARCHAR(88) PRIMARY KEY,
+  wallets TEXT[] NOT NULL DEFAULT '{}', -- Tracked wallets the transaction was routed to
+  received_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
@@ -2,9 +2,31 @@
  * TypeScript types for database models
  */
 
-export type ProposalStatus = 'pending' | 'accepted' | 'rejected' | 'executed';
+export type ProposalStatus = 'pending' | 'accepted' | 'rejected' | 'executing' | 'executed';
 export type ProposalType = 'roundup' | 'percentage';
-export type PriceSource = 'pyth' | 'jupiter' | 'manual';
+export type PriceSource = 'pyth' | 'jupiter' | 'coingecko' | 'stablecoin' | 'manual';
+export type PriceStatus = 'priced' | 'unpriced' | 'manual';
+// pending: waiting to be invested, swept: reserved by an in-flight deposit,
+// invested: consumed by a confirmed deposit, failed: deposit outcome unknown
+export type RoundupStatus = 'pending' | 'swept' | 'invested' | 'failed';
+export type AutoInvestCadence = 'daily' | 'weekly' | 'threshold';
+export type AutoInvestOutcome = 'invested' | 'skipped' | 'failed';
+export type SyncJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+export type SyncJobTrigger = 'scheduled' | 'manual';
+// idle: last sync succeeded, syncing: a job is running, retrying: the last
+// attempt failed and a retry is queued, failed: retries were exhausted
+export type WalletSyncStatus = 'idle' | 'syncing' | 'retrying' | 'failed';
+export type TransactionCategory =
+  | 'payment'
+  | 'swap'
+  | 'stake'
+  | 'unstake'
+  | 'nft_purchase'
+  | 'nft_sale'
+  | 'lend_deposit'
+  | 'lend_withdraw'
+  | 'self_transfer'
+  | 'other';
 
 export interface ContributionProposal {
   id: number;
@@ -27,12 +49,13 @@ export interface ContributionProposal {
   solPriceUsd?: number;
   tokenPriceUsd?: number;
   priceSource?: PriceSource;
+  priceStatus: PriceStatus; // 'unpriced' needs a manual price before it can be valued
 
   // Spare change calculation
   proposalType: ProposalType;
   percentageRate?: number;
-  spareChangeAmountSol: number;
-  spareChangeAmountUsd?: number;
+  spareChangeAmountSol: number; // Spare change in the transaction's token units
+  spareChangeAmountUsd?: number; // Matches the round-up shown on the dashboard
 
   // Proposal status
   status: ProposalStatus;
@@ -48,6 +71,20 @@ export interface ContributionProposal {
   notes?: string;
 }
 
+export type InvestmentAction = 'deposit' | 'withdraw';
+
+export interface Investment {
+  id: number;
+  walletAddress: string;
+  action: InvestmentAction;
+  amountUsdc: number;
+  shares: number | null; // jlUSDC minted (deposit) or burned (withdraw); null when unknown
+  pricePerShare: number | null; // USDC per jlUSDC; null when unknown
+  roundupIds: number[]; // Round-up records swept into a deposit
+  signature: string;
+  createdAt: Date;
+}
+
 export interface UserPreferences {
   id: number;
   walletAddress: string;
@@ -56,6 +93,12 @@ export interface UserPreferences {
   roundupEnabled: boolean;
   percentageEnabled: boolean;
   percentageRate: number;
+  roundupCategories: TransactionCategory[]; // Transaction categories that generate round-ups
+
+  // Auto-invest settings
+  autoInvestEnabled: boolean;
+  autoInvestThreshold: number; // USDC
+  autoInvestCadence: AutoInvestCadence;
 
   // Notification preferences
   notifyOnProposal: boolean;
@@ -66,6 +109,35 @@ export interface UserPreferences {
   updatedAt: Date;
 }
 
+export interface AutoInvestLogEntry {
+  id: number;
+  walletAddress: string;
+  outcome: AutoInvestOutcome;
+  reason: string;
+  amountUsdc: number | null;
+  roundupIds: number[];
+  signature: string | null;
+  investmentId: number | null;
+  createdAt: Date;
+}
+
+export interface SyncJob {
+  id: string;
+  walletAddress: string;
+  trigger: SyncJobTrigger;
+  status: SyncJobStatus;
+  attempts: number;
+  maxAttempts: number;
+  runAfter: Date; // Earliest time the job may (re)run
+  startedAt: Date | null;
+  finishedAt: Date | null;
+  leaseExpiresAt: Date | null; // A running job whose lease ran out was interrupted
+  processed: number | null; // Outgoing transactions ingested
+  stored: number | null; // New round-up records
+  error: string | null; // Last failure
+  createdAt: Date;
+}
+
 export interface TransactionCache {
   id: number;
   walletAddress: string;
@@ -78,5 +150,6 @@ export interface TransactionCache {
 
 // Helper types for creating new records
 export type CreateContributionProposal = Omit<ContributionProposal, 'id' | 'createdAt' | 'updatedAt'>;
+export type CreateInvestment = Omit<Investment, 'id' | 'createdAt'>;
 export type CreateUserPreferences = Omit<UserPreferences, 'id' | 'createdAt' | 'updatedAt'>;
 export type CreateTransactionCache = Omit<TransactionCache, 'id' | 'cachedAt'>;
@@ -0,0 +1,137 @@
+/**
+ * Server-side Privy helpers
+ * Shared Privy client, access token verification and wallet ownership checks
+ * for API routes
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { PrivyClient } from "@privy-io/server-auth";
+
+let privyClientInstance: PrivyClient | null = null;
+
+export function getPrivyClient(): PrivyClient {
+	if (!privyClientInstance) {
+		privyClientInstance = new PrivyClient(
+			process.env.NEXT_PUBLIC_PRIVY_APP_ID || "",
+			process.env.PRIVY_SECRET || ""
+		);
+	}
+	return privyClientInstance;
+}
+
+/**
+ * Read the bearer token from the request
+ */
+export function getAuthToken(request: NextRequest): string | null {
+	return (
+		request.headers.get("authorization")?.replace("Bearer ", "") || null
+	);
+}
+
+/**
+ * Verify the Privy access token on a request
+ * @returns The Privy user ID, or null when the token is missing or invalid
+ */
+export async function verifyRequestUser(
+	request: NextRequest
+): Promise<string | null> {
+	const authToken = getAuthToken(request);
+	if (!authToken) return null;
+
+	try {
+		const verifiedClaims = await getPrivyClient().verifyAuthToken(
+			authToken
+		);
+		return verifiedClaims.userId || null;
+	} catch (error) {
+		console.error("Invalid Privy access token:", error);
+		return null;
+	}
+}
+
+// Linked wallets rarely change; cache them briefly to stay under Privy's rate limits
+const LINKED_WALLETS_TTL_MS = 60 * 1000;
+const linkedWalletsCache = new Map<
+	string,
+	{ wallets: string[]; expiresAt: number }
+>();
+
+/**
+ * Get the Solana wallet addresses linked to a Privy user
+ */
+export async function getUserSolanaWallets(userId: string): Promise<string[]> {
+	const cached = linkedWalletsCache.get(userId);
+	if (cached && cached.expiresAt > Date.now()) {
+		return cached.wallets;
+	}
+
+	const user = await getPrivyClient().getUserById(userId);
+	const wallets = user.linkedAccounts.flatMap((account) =>
+		account.type === "wallet" && account.chainType === "solana"
+			? [account.address]
+			: []
+	);
+
+	linkedWalletsCache.set(userId, {
+		wallets,
+		expiresAt: Date.now() + LINKED_WALLETS_TTL_MS,
+	});
+
+	return wallets;
+}
+
+export type WalletAuthResult =
+	| { userId: string; wallets: string[]; error?: undefined }
+	| { userId?: undefined; wallets?: undefined; error: NextResponse };
+
+/**
+ * Auth middleware for routes that act on a wallet address
+ * Verifies the Privy access token and that the address is one of the user's
+ * linked Solana wallets
+ * @returns The Privy user ID and linked wallets, or the error response to return
+ */
+export async function authorizeWalletRequest(
+	request: NextRequest,
+	address: string
+): Promise<WalletAuthResult> {
+	const userId = await verifyRequestUser(request);
+
+	if (!userId) {
+		return {
+			error: NextResponse.json(
+				{ success: false, error: "Missing or invalid authorization token" },
+				{ status: 401 }
+			),
+		};
+	}
+
+	let wallets: string[];
+	try {
+		wallets = await getUserSolanaWallets(userId);
+	} catch (error) {
+		console.error("Failed to load Privy linked wallets:", error);
+		return {
+			error: NextResponse.json(
+				{ success: false, error: "Could not verify wallet ownership" },
+				{ status: 502 }
+			),
+		};
+	}
+
+	if (!wallets.includes(address)) {
+		console.warn(
+			`User ${userId} attempted to act on unlinked wallet ${address}`
+		);
+		return {
+			error: NextResponse.json(
+				{
+					success: false,
+					error: "Wallet is not linked to the authenticated user",
+				},
+				{ status: 403 }
+			),
+		};
+	}
+
+	return { userId, wallets };
+}
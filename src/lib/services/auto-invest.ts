@@ -0,0 +1,334 @@
+/**
+ * Auto-invest Service
+ * Scheduled sweeps for wallets that opted in: tracks new round-ups, then
+ * deposits the pending ones into Jupiter Earn through the signing path once
+ * they reach the wallet's threshold. Every automatic deposit, failure and
+ * skip is written to auto_invest_log with its reason.
+ */
+
+import { createServerClient } from '../supabase/client';
+import type { AutoInvestLogRecord, UserPreferencesRecord } from '../supabase/types';
+import type { AutoInvestCadence, AutoInvestLogEntry, AutoInvestOutcome } from '../db/types';
+import { config } from '../config';
+import { getBaselineTracker } from './baseline-tracker';
+import { getRoundupCalculator, MIN_INVESTMENT_USD } from './roundup-calculator';
+import { getRoundupPipeline } from './roundup-pipeline';
+import { getUserPreferencesService } from './user-preferences';
+import { getLendTransactionService, LendTransactionError } from './lend-transaction-service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Minimum time between evaluations for each cadence; 'threshold' wallets are
+// evaluated on every scheduler tick
+const CADENCE_INTERVAL_MS: Record<AutoInvestCadence, number> = {
+  daily: DAY_MS,
+  weekly: 7 * DAY_MS,
+  threshold: 0,
+};
+
+// How long one process holds a wallet while evaluating it; outlasts a
+// pipeline run and a confirmed deposit, and frees wallets of crashed runs
+const WALLET_LEASE_MS = 10 * 60 * 1000;
+
+export interface AutoInvestRunResult {
+  walletAddress: string;
+  outcome: AutoInvestOutcome | 'not_due';
+  reason: string;
+  amountUsdc?: number;
+  signature?: string;
+}
+
+function fromRecord(record: AutoInvestLogRecord): AutoInvestLogEntry {
+  return {
+    id: record.id,
+    walletAddress: record.wallet_address,
+    outcome: record.outcome,
+    reason: record.reason,
+    amountUsdc: record.amount_usdc === null ? null : Number(record.amount_usdc),
+    roundupIds: record.roundup_ids || [],
+    signature: record.signature,
+    investmentId: record.investment_id,
+    createdAt: new Date(record.created_at),
+  };
+}
+
+// Round-up values are stored in whole cents; this only drops float error
+function toCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+export class AutoInvestService {
+  private supabase;
+  private isRunning = false;
+
+  constructor() {
+    this.supabase = createServerClient();
+  }
+
+  /**
+   * Evaluate every opted-in wallet whose cadence is due
+   * Overlapping runs in this process are skipped. Across processes each
+   * wallet is claimed with a lease before it is evaluated, and the round-up
+   * sweep in the deposit path keeps two deposits from spending the same
+   * round-ups.
+   * @param now Time of the run
+   */
+  async runDue(now: Date = new Date()): Promise<AutoInvestRunResult[]> {
+    if (this.isRunning) {
+      console.log('Auto-invest run already in progress, skipping');
+      return [];
+    }
+
+    this.isRunning = true;
+    try {
+      const wallets = await getUserPreferencesService().getAutoInvestWallets();
+      const results: AutoInvestRunResult[] = [];
+
+      // One wallet at a time keeps RPC and signing load predictable
+      for (const preferences of wallets) {
+        try {
+          results.push(await this.runForWallet(preferences, now));
+        } catch (error) {
+          const reason = `Unexpected error: ${error instanceof Error ? error.message : String(error)}`;
+          console.error(`Auto-invest failed for ${preferences.wallet_address}:`, error);
+          await this.log(preferences.wallet_address, 'failed', reason).catch(() => undefined);
+          results.push({ walletAddress: preferences.wallet_address, outcome: 'failed', reason });
+        }
+      }
+
+      return results;
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  /**
+   * Track new round-ups for one wallet and deposit them if they reached the
+   * threshold
+   * Wallets another process is evaluating are reported as not due
+   * @param preferences The wallet's preferences record
+   * @param now Time of the run
+   */
+  async runForWallet(
+    preferences: UserPreferencesRecord,
+    now: Date = new Date()
+  ): Promise<AutoInvestRunResult> {
+    const walletAddress = preferences.wallet_address;
+    const cadence = preferences.auto_invest_cadence || 'threshold';
+    const threshold = Math.max(Number(preferences.auto_invest_threshold), MIN_INVESTMENT_USD);
+
+    const lastRunAt = preferences.auto_invest_last_run_at
+      ? new Date(preferences.auto_invest_last_run_at).getTime()
+      : 0;
+    if (now.getTime() - lastRunAt < CADENCE_INTERVAL_MS[cadence]) {
+      return {
+        walletAddress,
+        outcome: 'not_due',
+        reason: `Next ${cadence} run is not due yet`,
+      };
+    }
+
+    const preferencesService = getUserPreferencesService();
+    const lease = await preferencesService.claimAutoInvestRun(walletAddress, now, WALLET_LEASE_MS);
+    if (!lease) {
+      return {
+        walletAddress,
+        outcome: 'not_due',
+        reason: 'Another auto-invest run is evaluating this wallet',
+      };
+    }
+
+    try {
+      return await this.investPending(preferences, cadence, threshold);
+    } finally {
+      await preferencesService
+        .releaseAutoInvestRun(walletAddress, lease)
+        .catch((error) => console.error(`Failed to release the auto-invest claim on ${walletAddress}:`, error));
+    }
+  }
+
+  /**
+   * Track new round-ups for a claimed wallet and deposit the pending ones if
+   * they reached the threshold
+   */
+  private async investPending(
+    preferences: UserPreferencesRecord,
+    cadence: AutoInvestCadence,
+    threshold: number
+  ): Promise<AutoInvestRunResult> {
+    const walletAddress = preferences.wallet_address;
+
+    const tracking = await getBaselineTracker().getWalletTracking(walletAddress);
+    if (!tracking || !tracking.last_tracked_tx) {
+      return this.skip(walletAddress, 'Wallet not initialized; call /api/wallet/init first');
+    }
+
+    // Same ingestion as /api/roundups/track
+    const tracked = await getRoundupPipeline().run(walletAddress, {
+      afterSignature: tracking.last_tracked_tx,
+      advanceBaseline: true,
+    });
+    console.log(`Auto-invest tracked ${tracked.stored} new round-ups for ${walletAddress}`);
+
+    const pending = (await getRoundupCalculator().getRoundups(walletAddress, 1000, 'pending'))
+      .filter((record) => record.price_status !== 'unpriced');
+    const amount = toCents(
+      pending.reduce((sum, record) => sum + Number(record.round_up_value), 0)
+    );
+
+    if (amount < threshold) {
+      return this.skip(
+        walletAddress,
+        `Pending round-ups $${amount.toFixed(2)} are below the $${threshold.toFixed(2)} threshold`
+      );
+    }
+
+    if (!preferences.auto_invest_user_id) {
+      return this.skip(
+        walletAddress,
+        'No Privy user on file to sign deposits; save the auto-invest settings again'
+      );
+    }
+
+    const roundupIds = pending.map((record) => record.id);
+    const reason =
+      cadence === 'threshold'
+        ? `Pending round-ups $${amount.toFixed(2)} reached the $${threshold.toFixed(2)} threshold`
+        : `Scheduled ${cadence} sweep: pending round-ups $${amount.toFixed(2)} reached the $${threshold.toFixed(2)} threshold`;
+
+    try {
+      // The deposit is exactly the swept round-ups' total, so no fraction
+      // of a round-up is lost to rounding
+      const result = await getLendTransactionService().execute({
+        action: 'deposit',
+        amount,
+        walletAddress,
+        userId: preferences.auto_invest_user_id,
+        roundupIds,
+        amountFromRoundups: true,
+      });
+
+      await this.log(walletAddress, 'invested', reason, {
+        amountUsdc: result.amount,
+        roundupIds,
+        signature: result.signature,
+        investmentId: result.investmentId,
+      });
+
+      return {
+        walletAddress,
+        outcome: 'invested',
+        reason,
+        amountUsdc: result.amount,
+        signature: result.signature,
+      };
+    } catch (error) {
+      const failure =
+        error instanceof LendTransactionError
+          ? `${reason}, but the deposit failed (${error.code}): ${error.message}`
+          : `${reason}, but the deposit failed: ${error instanceof Error ? error.message : String(error)}`;
+
+      await this.log(walletAddress, 'failed', failure, { amountUsdc: amount, roundupIds });
+
+      return { walletAddress, outcome: 'failed', reason: failure, amountUsdc: amount };
+    }
+  }
+
+  /**
+   * List a wallet's automatic actions, newest first
+   * @param walletAddress Wallet address
+   * @param limit Maximum number of entries
+   */
+  async getLog(walletAddress: string, limit: number = 20): Promise<AutoInvestLogEntry[]> {
+    try {
+      const { data, error } = await this.supabase
+        .from('auto_invest_log')
+        .select('*')
+        .eq('wallet_address', walletAddress)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+      return (data || []).map(fromRecord);
+    } catch (error) {
+      console.error('Error fetching auto-invest log:', error);
+      throw error;
+    }
+  }
+
+  private async skip(walletAddress: string, reason: string): Promise<AutoInvestRunResult> {
+    // 'threshold' wallets are evaluated on every tick; only log a skip when
+    // its reason changed, so the log is not flooded with identical entries
+    const [latest] = await this.getLog(walletAddress, 1);
+    if (!latest || latest.outcome !== 'skipped' || latest.reason !== reason) {
+      await this.log(walletAddress, 'skipped', reason);
+    }
+
+    return { walletAddress, outcome: 'skipped', reason };
+  }
+
+  private async log(
+    walletAddress: string,
+    outcome: AutoInvestOutcome,
+    reason: string,
+    details: {
+      amountUsdc?: number;
+      roundupIds?: number[];
+      signature?: string;
+      investmentId?: number | null;
+    } = {}
+  ): Promise<void> {
+    console.log(`Auto-invest ${outcome} for ${walletAddress}: ${reason}`);
+
+    const { error } = await this.supabase.from('auto_invest_log').insert({
+      wallet_address: walletAddress,
+      outcome,
+      reason,
+      amount_usdc: details.amountUsdc ?? null,
+      roundup_ids: details.roundupIds || [],
+      signature: details.signature || null,
+      investment_id: details.investmentId ?? null,
+    });
+
+    if (error) {
+      console.error('Error writing auto-invest log:', error);
+    }
+  }
+}
+
+// Singleton instance
+let autoInvestServiceInstance: AutoInvestService | null = null;
+
+export function getAutoInvestService(): AutoInvestService {
+  if (!autoInvestServiceInstance) {
+    autoInvestServiceInstance = new AutoInvestService();
+  }
+  return autoInvestServiceInstance;
+}
+
+let schedulerTimer: ReturnType<typeof setInterval> | null = null;
+
+/**
+ * Start the in-process auto-invest scheduler
+ * For long-running servers; serverless deployments call
+ * POST /api/cron/auto-invest from an external cron instead
+ */
+export function startAutoInvestScheduler(): void {
+  if (schedulerTimer) return;
+
+  const { intervalMinutes } = config.getAutoInvestConfig();
+  console.log(`Auto-invest scheduler running every ${intervalMinutes} minutes`);
+
+  schedulerTimer = setInterval(() => {
+    getAutoInvestService()
+      .runDue()
+      .catch((error) => console.error('Auto-invest scheduler run failed:', error));
+  }, intervalMinutes * 60 * 1000);
+}
+
+export function stopAutoInvestScheduler(): void {
+  if (schedulerTimer) {
+    clearInterval(schedulerTimer);
+    schedulerTimer = null;
+  }
+}
@@ -119,6 +119,113 @@ export class BaselineTracker {
     }
   }
 
+  /**
+   * Store the other wallets linked to the same user
+   * Transfers between linked wallets never generate round-ups
+   * @param walletAddress Wallet address
+   * @param linkedWallets Other wallet addresses owned by the same user
+   */
+  async setLinkedWallets(
+    walletAddress: string,
+    linkedWallets: string[]
+  ): Promise<void> {
+    try {
+      const { error } = await this.supabase
+        .from('wallet_tracking')
+        .update({
+          linked_wallets: Array.from(new Set(linkedWallets)).filter(
+            (linked) => linked !== walletAddress
+          ),
+          updated_at: new Date().toISOString(),
+        })
+        .eq('wallet_address', walletAddress);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error updating linked wallets:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the other wallets linked to the same user
+   * @param walletAddress Wallet address
+   */
+  async getLinkedWallets(walletAddress: string): Promise<string[]> {
+    try {
+      const tracking = await this.getWalletTracking(walletAddress);
+      return tracking?.linked_wallets || [];
+    } catch (error) {
+      console.error('Error getting linked wallets:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Get every wallet that has a baseline, i.e. can be synced incrementally
+   */
+  async getTrackedWallets(): Promise<WalletTracking[]> {
+    try {
+      const { data, error } = await this.supabase
+        .from('wallet_tracking')
+        .select('*')
+        .not('last_tracked_tx', 'is', null);
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('Error fetching tracked wallets:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the tracking records of those addresses that are tracked wallets
+   * @param addresses Wallet addresses to look up
+   */
+  async getWalletTrackings(addresses: string[]): Promise<WalletTracking[]> {
+    if (addresses.length === 0) return [];
+
+    try {
+      const { data, error } = await this.supabase
+        .from('wallet_tracking')
+        .select('*')
+        .in('wallet_address', addresses);
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('Error fetching wallet tracking records:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update a wallet's background sync status
+   * @param walletAddress Wallet address
+   * @param status Sync status, with the sync time or last error
+   */
+  async setSyncStatus(
+    walletAddress: string,
+    status: Pick<WalletTracking, 'sync_status'> &
+      Partial<Pick<WalletTracking, 'last_synced_at' | 'last_sync_error'>>
+  ): Promise<void> {
+    try {
+      const { error } = await this.supabase
+        .from('wallet_tracking')
+        .update({
+          ...status,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('wallet_address', walletAddress);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error updating wallet sync status:', error);
+      throw error;
+    }
+  }
+
   /**
    * Get the baseline transaction signature for a wallet
    * Returns null if no baseline has been set
@@ -0,0 +1,160 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { describe, expect, it } from 'vitest';
+import { getHeliusService, HeliusTransaction } from './helius-service';
+import { ASSOCIATED_TOKEN_PROGRAM_ID } from './token-accounts';
+import { NATIVE_SOL_MINT } from './token-registry';
+
+const FIXTURE_DIR = join(process.cwd(), 'scripts/fixtures/helius-webhook');
+const WALLET = 'HN7cABqLq46Es1jh92dQQisAq662SmxELLLsHHe4YWrH';
+const USDC_MINT = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const POOL = '7UX2i7SucgLMQcfZ75s3VXmZZY4YRUyJN9X1RgfMoDUi';
+
+function loadFixture(name: string): HeliusTransaction {
+  const raw = readFileSync(join(FIXTURE_DIR, name), 'utf8').replaceAll('{{WALLET}}', WALLET);
+  return (JSON.parse(raw) as HeliusTransaction[])[0];
+}
+
+describe('HeliusService.parseTransaction', () => {
+  const helius = getHeliusService();
+
+  it('parses a SOL payment without the network fee', async () => {
+    const parsed = await helius.parseTransaction(loadFixture('sol-payment.json'), WALLET);
+
+    expect(parsed).toMatchObject({
+      signature: loadFixture('sol-payment.json').signature,
+      type: 'sent',
+      category: 'payment',
+      token: 'SOL',
+      tokenMint: null,
+      amount: 0.0525,
+      fee: 0.000005,
+      rent: 0,
+      toAddress: '9xQeWvG816bUx9EPjHmaT23yvVM2ZWbrrpZb9PusVFin',
+    });
+    expect(parsed?.outflows).toHaveLength(1);
+  });
+
+  it('parses a USDC payment from the token balance changes', async () => {
+    const parsed = await helius.parseTransaction(loadFixture('usdc-payment.json'), WALLET);
+
+    expect(parsed).toMatchObject({
+      type: 'sent',
+      token: 'USDC',
+      tokenMint: USDC_MINT,
+      tokenDecimals: 6,
+      amount: 4.35,
+      fee: 0.000005,
+      toAddress: '7UX2i7SucgLMQcfZ75s3VXmZZY4YRUyJN9X1RgfMoDUi',
+    });
+    expect(parsed?.outflows.map((outflow) => outflow.token)).toEqual(['USDC']);
+  });
+
+  it('reports funding the recipient token account as rent, not spend', async () => {
+    const tx = loadFixture('usdc-payment.json');
+    tx.nativeTransfers = [
+      {
+        fromUserAccount: WALLET,
+        toUserAccount: 'CFcjRGeCRrHnqBKcMtyaqvMhFmBeSQjPXnEo5LWcvk9a',
+        amount: 2039280,
+      },
+    ];
+    tx.instructions = [
+      {
+        programId: ASSOCIATED_TOKEN_PROGRAM_ID,
+        accounts: [WALLET, 'CFcjRGeCRrHnqBKcMtyaqvMhFmBeSQjPXnEo5LWcvk9a', POOL, USDC_MINT],
+        data: '',
+        innerInstructions: [],
+      },
+      ...(tx.instructions || []),
+    ];
+
+    const parsed = await helius.parseTransaction(tx, WALLET);
+
+    expect(parsed?.rent).toBe(0.00203928);
+    expect(parsed?.outflows.map((outflow) => outflow.token)).toEqual(['USDC']);
+  });
+
+  it('counts SOL wrapped into the recipient account as spent, beyond its rent', async () => {
+    const parsed = await helius.parseTransaction(loadFixture('wsol-payment.json'), WALLET);
+
+    expect(parsed).toMatchObject({
+      type: 'sent',
+      category: 'payment',
+      token: 'SOL',
+      tokenMint: null,
+      amount: 0.25,
+      fee: 0.000005,
+      rent: 0.00203928,
+      toAddress: '9xQeWvG816bUx9EPjHmaT23yvVM2ZWbrrpZb9PusVFin',
+    });
+    expect(parsed?.outflows).toHaveLength(1);
+  });
+
+  it('nets SOL wrapped into the wallet\'s own account against the wrapped SOL it swaps', async () => {
+    const tx = loadFixture('wsol-payment.json');
+    const ownAccount = tx.nativeTransfers![0].toUserAccount;
+    tx.nativeTransfers = [
+      ...(tx.nativeTransfers || []),
+      // Closing the temporary account refunds its rent
+      { fromUserAccount: ownAccount, toUserAccount: WALLET, amount: 2039280 },
+    ];
+    tx.tokenTransfers = [
+      {
+        fromUserAccount: WALLET,
+        toUserAccount: POOL,
+        fromTokenAccount: ownAccount,
+        toTokenAccount: 'CFcjRGeCRrHnqBKcMtyaqvMhFmBeSQjPXnEo5LWcvk9a',
+        tokenAmount: 0.25,
+        mint: NATIVE_SOL_MINT,
+        tokenStandard: 'Fungible',
+      },
+    ];
+    // The closed account reports no token balance change
+    tx.accountData = tx.accountData?.slice(0, 1);
+
+    const parsed = await helius.parseTransaction(tx, WALLET);
+
+    expect(parsed).toMatchObject({ token: 'SOL', amount: 0.25, rent: 0, toAddress: POOL });
+    expect(parsed?.outflows).toHaveLength(1);
+  });
+
+  it('nets SOL coming back to the wallet against what it sent', async () => {
+    const tx = loadFixture('sol-payment.json');
+    tx.nativeTransfers = [
+      ...(tx.nativeTransfers || []),
+      {
+        fromUserAccount: '9xQeWvG816bUx9EPjHmaT23yvVM2ZWbrrpZb9PusVFin',
+        toUserAccount: WALLET,
+        amount: 2500000,
+      },
+    ];
+
+    const parsed = await helius.parseTransaction(tx, WALLET);
+
+    expect(parsed?.amount).toBe(0.05);
+  });
+
+  it('skips a transaction where the wallet only receives', async () => {
+    const tx = loadFixture('sol-payment.json');
+    tx.nativeTransfers = [
+      {
+        fromUserAccount: '9xQeWvG816bUx9EPjHmaT23yvVM2ZWbrrpZb9PusVFin',
+        toUserAccount: WALLET,
+        amount: 52500000,
+      },
+    ];
+
+    expect(await helius.parseTransaction(tx, WALLET)).toBeNull();
+  });
+
+  it('falls back to the balance change without the fee when there are no native transfers', async () => {
+    const tx = loadFixture('sol-payment.json');
+    tx.nativeTransfers = [];
+
+    const parsed = await helius.parseTransaction(tx, WALLET);
+
+    expect(parsed?.amount).toBe(0.0525);
+    expect(parsed?.fee).toBe(0.000005);
+  });
+});
@@ -3,12 +3,20 @@
  * Fetches transaction data using Helius enhanced transaction API
  */
 
+import { collectCreatedTokenAccounts, TOKEN_ACCOUNT_RENT_LAMPORTS } from './token-accounts';
+import { getTokenRegistry, NATIVE_SOL_MINT } from './token-registry';
+import { classifyTransaction } from './transaction-classifier';
+import type { AssetOutflow, WalletTransaction } from './transaction-source';
+
 const HELIUS_API_KEY = process.env.HELIUS_API_KEY;
 
 if (!HELIUS_API_KEY) {
   console.warn('HELIUS_API_KEY not found in environment variables');
 }
 
+// Webhooks are managed on the main Helius API for every network
+const HELIUS_WEBHOOK_API_URL = 'https://api.helius.xyz';
+
 export interface HeliusTransaction {
   description: string;
   type: string;
@@ -44,6 +52,16 @@ export interface HeliusTransaction {
       userAccount: string;
     }>;
   }>;
+  instructions?: Array<{
+    programId: string;
+    accounts: string[];
+    data: string;
+    innerInstructions?: Array<{
+      programId: string;
+      accounts: string[];
+      data: string;
+    }>;
+  }>;
   events?: {
     nft?: any;
     swap?: any;
@@ -51,18 +69,19 @@ export interface HeliusTransaction {
   };
 }
 
-export interface ParsedHeliusTransaction {
-  signature: string;
-  timestamp: number;
-  slot: number;
-  fee: number;
-  type: 'sent' | 'received' | 'unknown';
-  amount: number; // In SOL or token amount
-  token: string; // 'SOL', 'USDC', etc.
-  tokenMint: string | null;
-  tokenDecimals: number;
-  fromAddress: string;
-  toAddress: string;
+export interface HeliusWebhook {
+  webhookID: string;
+  webhookURL: string;
+  transactionTypes: string[];
+  accountAddresses: string[];
+  webhookType: string; // 'enhanced' or 'enhancedDevnet'
+  authHeader?: string;
+}
+
+interface AssetFlow {
+  outgoing: number;
+  incoming: number;
+  recipients: Map<string, number>;
 }
 
 export class HeliusService {
@@ -151,91 +170,236 @@ export class HeliusService {
   }
 
   /**
-   * Get the most recent transaction for a wallet
-   * @param address Wallet address
+   * List the webhooks registered with this API key
    */
-  async getMostRecentTransaction(address: string): Promise<HeliusTransaction | null> {
-    try {
-      const transactions = await this.fetchTransactions(address, 1);
-      return transactions.length > 0 ? transactions[0] : null;
-    } catch (error) {
-      console.error('Error fetching most recent transaction:', error);
-      return null;
+  async listWebhooks(): Promise<HeliusWebhook[]> {
+    return this.webhookRequest<HeliusWebhook[]>('GET', '/v0/webhooks');
+  }
+
+  /**
+   * Create an enhanced-transaction webhook for the current network
+   * @param webhookURL URL Helius posts transactions to
+   * @param accountAddresses Addresses whose transactions are delivered
+   * @param authHeader Sent back as the Authorization header of every delivery
+   */
+  async createWebhook(
+    webhookURL: string,
+    accountAddresses: string[],
+    authHeader?: string
+  ): Promise<HeliusWebhook> {
+    return this.webhookRequest<HeliusWebhook>('POST', '/v0/webhooks', {
+      webhookURL,
+      transactionTypes: ['ANY'],
+      accountAddresses,
+      webhookType: this.network === 'devnet' ? 'enhancedDevnet' : 'enhanced',
+      ...(authHeader ? { authHeader } : {}),
+    });
+  }
+
+  /**
+   * Replace a webhook's settings, e.g. to change its account addresses
+   * @param webhook Webhook with the new settings
+   */
+  async updateWebhook(webhook: HeliusWebhook): Promise<HeliusWebhook> {
+    const { webhookID, ...settings } = webhook;
+    return this.webhookRequest<HeliusWebhook>('PUT', `/v0/webhooks/${webhookID}`, settings);
+  }
+
+  private async webhookRequest<T>(method: 'GET' | 'POST' | 'PUT', path: string, body?: object): Promise<T> {
+    const response = await fetch(`${HELIUS_WEBHOOK_API_URL}${path}?api-key=${this.apiKey}`, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: body ? JSON.stringify(body) : undefined,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Helius webhook API error response:', errorText);
+      throw new Error(`Helius webhook API error (${response.status}): ${response.statusText}`);
     }
+
+    return response.json();
   }
 
   /**
    * Parse Helius transaction to extract outgoing transaction details
+   * Nets every native and token transfer per asset so only what the wallet
+   * actually spent counts; network fees and the rent of token accounts the
+   * transaction created are reported separately. Lamports beyond that rent
+   * are wrapped SOL: spent as SOL when they go to another wallet's account,
+   * netted against the wrapped SOL legs when they go to the wallet's own
    * @param tx Helius transaction
    * @param walletAddress User's wallet address
+   * @param linkedWallets Other wallets owned by the same user
    */
-  parseTransaction(tx: HeliusTransaction, walletAddress: string): ParsedHeliusTransaction | null {
+  async parseTransaction(
+    tx: HeliusTransaction,
+    walletAddress: string,
+    linkedWallets: string[] = []
+  ): Promise<WalletTransaction | null> {
     try {
-      // Determine transaction type (sent/received)
-      let type: 'sent' | 'received' | 'unknown' = 'unknown';
-      let amount = 0;
-      let token = 'SOL';
-      let tokenMint: string | null = null;
-      let tokenDecimals = 9;
-      let fromAddress = '';
-      let toAddress = '';
-
-      // Check native SOL transfers
+      const createdAccounts = collectCreatedTokenAccounts(tx);
+      const tokenAccountOwners = this.collectTokenAccountOwners(tx, createdAccounts);
+      const registry = getTokenRegistry();
+
+      // Native SOL flows (lamports)
+      const native: AssetFlow = { outgoing: 0, incoming: 0, recipients: new Map() };
+      let rentLamports = 0;
+      let wrappedLamports = 0; // Into the wallet's own wrapped SOL accounts, net of unwraps
+      const rentDue = new Map<string, number>(); // Rent still to fund per created account
+
       if (tx.nativeTransfers && tx.nativeTransfers.length > 0) {
-        const transfer = tx.nativeTransfers[0];
-        fromAddress = transfer.fromUserAccount;
-        toAddress = transfer.toUserAccount;
-        amount = transfer.amount / 1e9; // Convert lamports to SOL
-
-        if (transfer.fromUserAccount === walletAddress) {
-          type = 'sent';
-        } else if (transfer.toUserAccount === walletAddress) {
-          type = 'received';
+        for (const transfer of tx.nativeTransfers) {
+          const isOutgoing = transfer.fromUserAccount === walletAddress;
+          const isIncoming = transfer.toUserAccount === walletAddress;
+          if (isOutgoing === isIncoming) continue; // Unrelated or self-transfer
+
+          if (isOutgoing && tokenAccountOwners.has(transfer.toUserAccount)) {
+            // Funding a token account: its rent if this transaction created it,
+            // wrapped SOL otherwise
+            const account = transfer.toUserAccount;
+            const due = createdAccounts.has(account)
+              ? rentDue.get(account) ?? TOKEN_ACCOUNT_RENT_LAMPORTS
+              : 0;
+            const rent = Math.min(transfer.amount, due);
+            rentDue.set(account, due - rent);
+            rentLamports += rent;
+
+            const wrapped = transfer.amount - rent;
+            const owner = tokenAccountOwners.get(account);
+            if (owner === walletAddress) {
+              wrappedLamports += wrapped;
+            } else if (wrapped > 0) {
+              this.addFlow(native, owner || account, wrapped, 0);
+            }
+          } else if (isIncoming && tokenAccountOwners.has(transfer.fromUserAccount)) {
+            // Closing a token account refunds its rent and any wrapped SOL
+            const rent = Math.min(transfer.amount, TOKEN_ACCOUNT_RENT_LAMPORTS);
+            rentLamports -= rent;
+
+            const unwrapped = transfer.amount - rent;
+            if (tokenAccountOwners.get(transfer.fromUserAccount) === walletAddress) {
+              wrappedLamports -= unwrapped;
+            } else {
+              this.addFlow(native, null, 0, unwrapped);
+            }
+          } else if (isOutgoing) {
+            this.addFlow(native, transfer.toUserAccount, transfer.amount, 0);
+          } else {
+            this.addFlow(native, null, 0, transfer.amount);
+          }
+        }
+      } else {
+        // Fall back to the wallet's balance change, excluding the fee it paid
+        const walletData = tx.accountData?.find((data) => data.account === walletAddress);
+        if (walletData) {
+          const feePaid = tx.feePayer === walletAddress ? tx.fee : 0;
+          const change = walletData.nativeBalanceChange + feePaid;
+          this.addFlow(native, null, Math.max(0, -change), Math.max(0, change));
         }
       }
 
-      // Check token transfers
-      if (tx.tokenTransfers && tx.tokenTransfers.length > 0) {
-        const transfer = tx.tokenTransfers[0];
-        fromAddress = transfer.fromUserAccount;
-        toAddress = transfer.toUserAccount;
-        tokenMint = transfer.mint;
-        amount = transfer.tokenAmount;
-
-        // Determine token symbol from mint (you may want to expand this mapping)
-        if (tokenMint === 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v' ||
-            tokenMint === '4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU') {
-          token = 'USDC';
-          tokenDecimals = 6;
-        } else if (tokenMint === 'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB') {
-          token = 'USDT';
-          tokenDecimals = 6;
+      // Token flows per mint (UI amounts)
+      const tokens = new Map<string, AssetFlow>();
+      for (const transfer of tx.tokenTransfers || []) {
+        const isOutgoing = transfer.fromUserAccount === walletAddress;
+        const isIncoming = transfer.toUserAccount === walletAddress;
+        if (isOutgoing === isIncoming) continue;
+
+        const flow = tokens.get(transfer.mint) || { outgoing: 0, incoming: 0, recipients: new Map() };
+        if (isOutgoing) {
+          this.addFlow(flow, transfer.toUserAccount, transfer.tokenAmount, 0);
+        } else {
+          this.addFlow(flow, null, 0, transfer.tokenAmount);
         }
+        tokens.set(transfer.mint, flow);
+      }
+
+      // SOL wrapped into the wallet's own account leaves as SOL and arrives
+      // as wrapped SOL, so spending it later in the transaction nets out
+      if (wrappedLamports !== 0) {
+        const flow = tokens.get(NATIVE_SOL_MINT) || { outgoing: 0, incoming: 0, recipients: new Map() };
+        this.addFlow(native, null, Math.max(0, wrappedLamports), Math.max(0, -wrappedLamports));
+        this.addFlow(flow, null, Math.max(0, -wrappedLamports) / 1e9, Math.max(0, wrappedLamports) / 1e9);
+        tokens.set(NATIVE_SOL_MINT, flow);
+      }
 
-        if (transfer.fromUserAccount === walletAddress) {
-          type = 'sent';
-        } else if (transfer.toUserAccount === walletAddress) {
-          type = 'received';
+      // Token balance changes are the ground truth for the wallet's net position
+      const balanceChanges = this.collectTokenBalanceChanges(tx, walletAddress);
+      for (const [mint, change] of balanceChanges) {
+        const flow = tokens.get(mint) || { outgoing: 0, incoming: 0, recipients: new Map() };
+        flow.outgoing = Math.max(0, -change);
+        flow.incoming = Math.max(0, change);
+        tokens.set(mint, flow);
+      }
+
+      // Wrapped SOL is spent as SOL
+      const wrappedSol = tokens.get(NATIVE_SOL_MINT);
+      if (wrappedSol) {
+        native.outgoing += wrappedSol.outgoing * 1e9;
+        native.incoming += wrappedSol.incoming * 1e9;
+        for (const [recipient, amount] of wrappedSol.recipients) {
+          native.recipients.set(recipient, (native.recipients.get(recipient) || 0) + amount * 1e9);
         }
+        tokens.delete(NATIVE_SOL_MINT);
+      }
+
+      const outflows: AssetOutflow[] = [];
+      let hasIncoming = native.incoming > native.outgoing;
+
+      for (const [mint, flow] of tokens) {
+        const net = flow.outgoing - flow.incoming;
+        if (net < 0) hasIncoming = true;
+        if (net <= 0) continue;
+
+        const tokenInfo = await registry.getToken(mint);
+        outflows.push({
+          token: tokenInfo.symbol,
+          tokenMint: mint,
+          tokenDecimals: tokenInfo.decimals,
+          amount: net,
+          toAddress: this.largestRecipient(flow),
+        });
+      }
+
+      const nativeNet = native.outgoing - native.incoming;
+      if (nativeNet > 0) {
+        outflows.push({
+          token: 'SOL',
+          tokenMint: null,
+          tokenDecimals: 9,
+          amount: nativeNet / 1e9, // Convert lamports to SOL
+          toAddress: this.largestRecipient(native),
+        });
       }
 
       // Only return sent transactions (outgoing)
-      if (type !== 'sent') {
+      if (outflows.length === 0) {
+        if (hasIncoming) {
+          console.log(`Skipping incoming transaction ${tx.signature.substring(0, 8)}...`);
+        }
         return null;
       }
 
+      const primary = outflows[0];
+
       return {
         signature: tx.signature,
         timestamp: tx.timestamp,
         slot: tx.slot,
-        fee: tx.fee / 1e9, // Convert lamports to SOL
-        type,
-        amount,
-        token,
-        tokenMint,
-        tokenDecimals,
-        fromAddress,
-        toAddress,
+        fee: tx.feePayer === walletAddress ? tx.fee / 1e9 : 0, // Convert lamports to SOL
+        rent: Math.max(0, rentLamports) / 1e9,
+        type: 'sent',
+        category: classifyTransaction(tx, walletAddress, linkedWallets),
+        amount: primary.amount,
+        token: primary.token,
+        tokenMint: primary.tokenMint,
+        tokenDecimals: primary.tokenDecimals,
+        fromAddress: walletAddress,
+        toAddress: primary.toAddress,
+        outflows,
       };
     } catch (error) {
       console.error('Error parsing Helius transaction:', error);
@@ -244,61 +408,69 @@ export class HeliusService {
   }
 
   /**
-   * Fetch and parse outgoing transactions for a wallet
-   * @param address Wallet address
-   * @param limit Maximum number of transactions
-   * @param afterSignature Only fetch transactions after this signature (baseline)
+   * Collect every token account touched or created by a transaction, with
+   * the wallet that owns it ('' when the transaction does not say)
    */
-  async fetchOutgoingTransactions(
-    address: string,
-    limit: number = 100,
-    afterSignature?: string
-  ): Promise<ParsedHeliusTransaction[]> {
-    try {
-      const allTransactions: ParsedHeliusTransaction[] = [];
-      let currentBefore: string | undefined;
-      let foundBaseline = !afterSignature; // If no baseline, process all
-
-      while (allTransactions.length < limit) {
-        const transactions = await this.fetchTransactions(address, Math.min(100, limit - allTransactions.length), currentBefore);
+  private collectTokenAccountOwners(tx: HeliusTransaction, createdAccounts: Set<string>): Map<string, string> {
+    const owners = new Map<string, string>();
+    const setOwner = (account: string | undefined, owner: string | undefined) => {
+      if (account && (owner || !owners.has(account))) owners.set(account, owner || '');
+    };
+
+    for (const transfer of tx.tokenTransfers || []) {
+      setOwner(transfer.fromTokenAccount, transfer.fromUserAccount);
+      setOwner(transfer.toTokenAccount, transfer.toUserAccount);
+    }
 
-        if (transactions.length === 0) {
-          break; // No more transactions
-        }
+    for (const data of tx.accountData || []) {
+      for (const change of data.tokenBalanceChanges || []) {
+        setOwner(data.account, change.userAccount);
+      }
+    }
 
-        for (const tx of transactions) {
-          // Stop if we've reached the baseline transaction
-          if (afterSignature && tx.signature === afterSignature) {
-            foundBaseline = true;
-            break;
-          }
+    createdAccounts.forEach((account) => setOwner(account, undefined));
 
-          // Only process if we haven't found the baseline yet
-          if (!foundBaseline) {
-            const parsed = this.parseTransaction(tx, address);
-            if (parsed && parsed.type === 'sent') {
-              allTransactions.push(parsed);
-            }
-          }
-        }
+    return owners;
+  }
 
-        if (foundBaseline) {
-          break;
-        }
+  /**
+   * Sum the wallet's token balance changes per mint (UI amounts)
+   */
+  private collectTokenBalanceChanges(tx: HeliusTransaction, walletAddress: string): Map<string, number> {
+    const changes = new Map<string, number>();
 
-        // Get the last transaction signature for pagination
-        currentBefore = transactions[transactions.length - 1]?.signature;
+    for (const data of tx.accountData || []) {
+      for (const change of data.tokenBalanceChanges || []) {
+        if (change.userAccount !== walletAddress) continue;
 
-        if (!currentBefore) {
-          break;
-        }
+        const amount =
+          parseFloat(change.rawTokenAmount.tokenAmount) /
+          Math.pow(10, change.rawTokenAmount.decimals);
+        changes.set(change.mint, (changes.get(change.mint) || 0) + amount);
       }
+    }
 
-      return allTransactions;
-    } catch (error) {
-      console.error('Error fetching outgoing transactions:', error);
-      throw error;
+    return changes;
+  }
+
+  private addFlow(flow: AssetFlow, recipient: string | null, outgoing: number, incoming: number): void {
+    flow.outgoing += outgoing;
+    flow.incoming += incoming;
+    if (recipient && outgoing > 0) {
+      flow.recipients.set(recipient, (flow.recipients.get(recipient) || 0) + outgoing);
+    }
+  }
+
+  private largestRecipient(flow: AssetFlow): string {
+    let largest = '';
+    let largestAmount = 0;
+    for (const [recipient, amount] of flow.recipients) {
+      if (amount > largestAmount) {
+        largest = recipient;
+        largestAmount = amount;
+      }
     }
+    return largest;
   }
 }
 
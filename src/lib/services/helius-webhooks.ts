@@ -0,0 +1,229 @@
+/**
+ * Helius Webhook Service
+ * Registers tracked wallets with the app's Helius enhanced-transaction
+ * webhook and turns webhook deliveries into round-ups, so new activity is
+ * picked up without waiting for a sync
+ */
+
+import { timingSafeEqual } from 'crypto';
+import { createServerClient } from '../supabase/client';
+import { config } from '../config';
+import { getBaselineTracker } from './baseline-tracker';
+import { getHeliusService, HeliusTransaction, HeliusWebhook } from './helius-service';
+import { getRoundupPipeline } from './roundup-pipeline';
+
+export interface WebhookIngestResult {
+  received: number; // Transactions in the payload
+  duplicates: number; // Already processed in an earlier delivery
+  untracked: number; // Touched no tracked wallet
+  processed: number; // Outgoing transactions routed to a tracked wallet
+  stored: number; // New round-up records
+}
+
+/**
+ * Every account a transaction touched that could be a wallet
+ */
+function collectAccounts(tx: HeliusTransaction): string[] {
+  const accounts = new Set<string>([tx.feePayer]);
+
+  for (const transfer of tx.nativeTransfers || []) {
+    accounts.add(transfer.fromUserAccount);
+    accounts.add(transfer.toUserAccount);
+  }
+
+  for (const transfer of tx.tokenTransfers || []) {
+    accounts.add(transfer.fromUserAccount);
+    accounts.add(transfer.toUserAccount);
+  }
+
+  for (const data of tx.accountData || []) {
+    accounts.add(data.account);
+    for (const change of data.tokenBalanceChanges || []) {
+      accounts.add(change.userAccount);
+    }
+  }
+
+  accounts.delete('');
+  return Array.from(accounts);
+}
+
+export class HeliusWebhookService {
+  private supabase;
+  private webhookId: string | null;
+  private registration: Promise<unknown> = Promise.resolve();
+
+  constructor() {
+    this.supabase = createServerClient();
+    this.webhookId = config.getHeliusWebhookConfig().webhookId;
+  }
+
+  /**
+   * Check a delivery's Authorization header against the configured secret
+   * Deliveries are rejected when no secret is configured
+   */
+  isAuthorized(authorizationHeader: string | null): boolean {
+    const { authHeader } = config.getHeliusWebhookConfig();
+    if (!authHeader || !authorizationHeader) return false;
+
+    const expected = Buffer.from(authHeader);
+    const received = Buffer.from(authorizationHeader);
+    return expected.length === received.length && timingSafeEqual(expected, received);
+  }
+
+  /**
+   * Add a wallet to the app's webhook, creating the webhook on first use
+   * Registrations run one at a time so concurrent wallet inits cannot
+   * overwrite each other's address lists
+   * @param walletAddress Wallet address
+   * @returns False when webhooks are not configured
+   */
+  async registerWallet(walletAddress: string): Promise<boolean> {
+    const { url, authHeader } = config.getHeliusWebhookConfig();
+
+    if (!url) {
+      console.log('HELIUS_WEBHOOK_URL not set, skipping webhook registration');
+      return false;
+    }
+
+    const registration = this.registration.then(async () => {
+      const heliusService = getHeliusService();
+      const webhook = await this.findWebhook(url);
+
+      if (!webhook) {
+        const created = await heliusService.createWebhook(url, [walletAddress], authHeader || undefined);
+        this.webhookId = created.webhookID;
+        console.log(`Created Helius webhook ${created.webhookID} for ${walletAddress}`);
+        return;
+      }
+
+      if (webhook.accountAddresses.includes(walletAddress)) return;
+
+      await heliusService.updateWebhook({
+        ...webhook,
+        accountAddresses: [...webhook.accountAddresses, walletAddress],
+      });
+      console.log(`Added ${walletAddress} to Helius webhook ${webhook.webhookID}`);
+    });
+
+    // Keep the queue going after a failed registration
+    this.registration = registration.catch(() => undefined);
+    await registration;
+    return true;
+  }
+
+  /**
+   * Route a webhook delivery's transactions to the tracked wallets they
+   * touched and store their round-ups
+   * A transaction is processed once: its signature is claimed before
+   * processing and released again if processing fails, including a round-up
+   * the pipeline could not store, so the delivery errors and Helius retries
+   * @param transactions Enhanced transactions from the delivery
+   */
+  async ingest(transactions: HeliusTransaction[]): Promise<WebhookIngestResult> {
+    const heliusService = getHeliusService();
+    const pipeline = getRoundupPipeline();
+    const result: WebhookIngestResult = {
+      received: transactions.length,
+      duplicates: 0,
+      untracked: 0,
+      processed: 0,
+      stored: 0,
+    };
+
+    for (const tx of transactions) {
+      if (!(await this.claimSignature(tx.signature))) {
+        result.duplicates++;
+        continue;
+      }
+
+      try {
+        const wallets = (await getBaselineTracker().getWalletTrackings(collectAccounts(tx)))
+          .filter((tracking) => tracking.last_tracked_tx);
+
+        if (wallets.length === 0) {
+          result.untracked++;
+          continue;
+        }
+
+        for (const tracking of wallets) {
+          const parsed = await heliusService.parseTransaction(
+            tx,
+            tracking.wallet_address,
+            tracking.linked_wallets || []
+          );
+          if (!parsed || parsed.type !== 'sent') continue;
+
+          const routed = await pipeline.processTransactions(tracking.wallet_address, [parsed]);
+          if (routed.failed > 0) {
+            throw new Error(
+              `Could not store the round-up of ${tx.signature} for ${tracking.wallet_address}`
+            );
+          }
+          result.processed += routed.processed;
+          result.stored += routed.stored;
+        }
+
+        await this.supabase
+          .from('helius_webhook_events')
+          .update({ wallets: wallets.map((tracking) => tracking.wallet_address) })
+          .eq('signature', tx.signature);
+      } catch (error) {
+        await this.releaseSignature(tx.signature);
+        throw error;
+      }
+    }
+
+    return result;
+  }
+
+  private async findWebhook(url: string): Promise<HeliusWebhook | null> {
+    const webhooks = await getHeliusService().listWebhooks();
+    const webhook =
+      webhooks.find((candidate) => candidate.webhookID === this.webhookId) ||
+      webhooks.find((candidate) => candidate.webhookURL === url) ||
+      null;
+
+    if (webhook) {
+      this.webhookId = webhook.webhookID;
+    }
+    return webhook;
+  }
+
+  /**
+   * Record a signature as processed
+   * @returns False if it was already recorded
+   */
+  private async claimSignature(signature: string): Promise<boolean> {
+    const { error } = await this.supabase
+      .from('helius_webhook_events')
+      .insert({ signature, wallets: [] });
+
+    if (error) {
+      // Unique violation - already processed
+      if (error.code === '23505') return false;
+      throw error;
+    }
+    return true;
+  }
+
+  private async releaseSignature(signature: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('helius_webhook_events')
+      .delete()
+      .eq('signature', signature);
+
+    if (error) {
+      console.error(`Error releasing webhook signature ${signature}:`, error);
+    }
+  }
+}
+
+// Singleton instance
+let heliusWebhookServiceInstance: HeliusWebhookService | null = null;
+
+export function getHeliusWebhookService(): HeliusWebhookService {
+  if (!heliusWebhookServiceInstance) {
+    heliusWebhookServiceInstance = new HeliusWebhookService();
+  }
+  return heliusWebhookServiceInstance;
+}
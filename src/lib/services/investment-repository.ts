@@ -0,0 +1,189 @@
+/**
+ * Investment Repository
+ * Persists confirmed Jupiter Earn deposits and withdrawals in Supabase,
+ * with the jlUSDC shares they moved and the round-ups they swept
+ */
+
+import { createServerClient } from '../supabase/client';
+import type { InvestmentRecord } from '../supabase/types';
+import type { CreateInvestment, Investment } from '../db/types';
+
+function fromRecord(record: InvestmentRecord): Investment {
+  return {
+    id: record.id,
+    walletAddress: record.wallet_address,
+    action: record.action,
+    amountUsdc: Number(record.amount_usdc),
+    shares: record.shares === null ? null : Number(record.shares),
+    pricePerShare: record.price_per_share === null ? null : Number(record.price_per_share),
+    roundupIds: record.roundup_ids || [],
+    signature: record.signature,
+    createdAt: new Date(record.created_at),
+  };
+}
+
+export interface ListInvestmentsOptions {
+  limit?: number;
+  offset?: number;
+}
+
+export interface InvestmentPage {
+  investments: Investment[];
+  total: number; // Investments across all pages
+}
+
+export interface InvestmentSummary {
+  count: number;
+  totalDeposited: number; // USDC
+  totalWithdrawn: number; // USDC
+  netShares: number; // jlUSDC deposited minus withdrawn
+}
+
+export class InvestmentRepository {
+  private supabase;
+
+  constructor() {
+    this.supabase = createServerClient();
+  }
+
+  /**
+   * Record a confirmed deposit or withdrawal
+   * Idempotent on signature: recording the same transaction twice returns the
+   * stored investment
+   */
+  async recordInvestment(investment: CreateInvestment): Promise<Investment> {
+    try {
+      const { data, error } = await this.supabase
+        .from('investments')
+        .insert({
+          wallet_address: investment.walletAddress,
+          action: investment.action,
+          amount_usdc: investment.amountUsdc,
+          shares: investment.shares,
+          price_per_share: investment.pricePerShare,
+          roundup_ids: investment.roundupIds,
+          signature: investment.signature,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        // Unique violation on signature - already recorded
+        if (error.code === '23505') {
+          const existing = await this.getBySignature(investment.signature);
+          if (existing) return existing;
+        }
+        throw error;
+      }
+
+      return fromRecord(data);
+    } catch (error) {
+      console.error('Error recording investment:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * List a wallet's investments, newest first
+   * @param walletAddress Wallet address
+   * @param options Pagination
+   */
+  async listInvestments(
+    walletAddress: string,
+    options: ListInvestmentsOptions = {}
+  ): Promise<InvestmentPage> {
+    const { limit = 20, offset = 0 } = options;
+
+    try {
+      const { data, error, count } = await this.supabase
+        .from('investments')
+        .select('*', { count: 'exact' })
+        .eq('wallet_address', walletAddress)
+        .order('created_at', { ascending: false })
+        .range(offset, offset + limit - 1);
+
+      if (error) throw error;
+
+      return {
+        investments: (data || []).map(fromRecord),
+        total: count || 0,
+      };
+    } catch (error) {
+      console.error('Error listing investments:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Totals across all of a wallet's investments
+   */
+  async getSummary(walletAddress: string): Promise<InvestmentSummary> {
+    try {
+      const { data, error } = await this.supabase
+        .from('investments')
+        .select('action, amount_usdc, shares')
+        .eq('wallet_address', walletAddress);
+
+      if (error) throw error;
+
+      return (data || []).reduce<InvestmentSummary>(
+        (summary, record) => {
+          const amount = Number(record.amount_usdc);
+          const shares = Number(record.shares ?? 0); // Unknown shares are left out
+          const isDeposit = record.action === 'deposit';
+
+          return {
+            count: summary.count + 1,
+            totalDeposited: summary.totalDeposited + (isDeposit ? amount : 0),
+            totalWithdrawn: summary.totalWithdrawn + (isDeposit ? 0 : amount),
+            netShares: summary.netShares + (isDeposit ? shares : -shares),
+          };
+        },
+        { count: 0, totalDeposited: 0, totalWithdrawn: 0, netShares: 0 }
+      );
+    } catch (error) {
+      console.error('Error summarizing investments:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get an investment by its ID
+   */
+  async getById(id: number): Promise<Investment | null> {
+    const { data, error } = await this.supabase
+      .from('investments')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw error;
+
+    return data ? fromRecord(data) : null;
+  }
+
+  /**
+   * Get an investment by its transaction signature
+   */
+  async getBySignature(signature: string): Promise<Investment | null> {
+    const { data, error } = await this.supabase
+      .from('investments')
+      .select('*')
+      .eq('signature', signature)
+      .maybeSingle();
+
+    if (error) throw error;
+
+    return data ? fromRecord(data) : null;
+  }
+}
+
+// Singleton instance
+let investmentRepositoryInstance: InvestmentRepository | null = null;
+
+export function getInvestmentRepository(): InvestmentRepository {
+  if (!investmentRepositoryInstance) {
+    investmentRepositoryInstance = new InvestmentRepository();
+  }
+  return investmentRepositoryInstance;
+}
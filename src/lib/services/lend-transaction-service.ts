@@ -0,0 +1,819 @@
+/**
+ * Jupiter Lend transaction service
+ * Builds Jupiter Earn deposit and withdraw transactions, signs them on
+ * behalf of the user through Privy and records confirmed ones as investments
+ */
+
+import {
+	ComputeBudgetProgram,
+	Connection,
+	LAMPORTS_PER_SOL,
+	PublicKey,
+	SimulatedTransactionResponse,
+	TokenBalance,
+	Transaction,
+	TransactionExpiredBlockheightExceededError,
+	TransactionInstruction,
+} from "@solana/web3.js";
+import {
+	bnToNumber,
+	getDepositInstructionData,
+	getUSDCLendingTokenDetails,
+	getWithdrawInstructionData,
+	USDC_MAINNET_MINT_PUBKEY,
+} from "@/utils/jupiter-lend";
+import { config, getCurrentNetworkConfig } from "../config";
+import { getPrivyClient } from "../privy-server";
+import { getInvestmentRepository } from "./investment-repository";
+import { getRoundupCalculator } from "./roundup-calculator";
+
+export type LendAction = "deposit" | "withdraw";
+
+export interface LendTransactionRequest {
+	action: LendAction;
+	amount: number; // USDC
+	walletAddress: string;
+	userId: string; // Privy user ID
+	roundupIds?: number[]; // Round-up records swept into a deposit
+	amountFromRoundups?: boolean; // Deposit the swept round-ups' total instead of amount
+}
+
+export interface LendTransactionResult {
+	signature: string;
+	walletAddress: string;
+	action: LendAction;
+	amount: number;
+	shares: number | null; // jlUSDC minted (deposit) or burned (withdraw); null when unknown
+	pricePerShare: number | null; // USDC per jlUSDC; null when unknown
+	investmentId: number | null; // Null when the history write failed
+}
+
+export interface LendTransactionPreview {
+	action: LendAction;
+	amount: number;
+	walletAddress: string;
+	success: boolean; // False when the transaction would fail
+	feeLamports: number | null;
+	feeSol: number | null;
+	computeUnits: number | null; // Consumed in simulation
+	computeUnitLimit: number;
+	shares: number | null; // jlUSDC minted (deposit) or burned (withdraw)
+	error?: {
+		code: LendTransactionErrorCode;
+		message: string;
+	};
+	logs: string[];
+}
+
+export interface BuiltLendTransaction {
+	transaction: Transaction;
+	blockhash: string;
+	lastValidBlockHeight: number;
+}
+
+export type LendTransactionErrorCode =
+	| "insufficient_balance"
+	| "simulation_failed"
+	| "signing_failed"
+	| "expired"
+	| "transaction_failed"
+	| "unconfirmed"
+	| "roundups_unavailable";
+
+/**
+ * Thrown when a Jupiter Lend transaction cannot be completed
+ * The code tells callers why, so they can show the right message
+ */
+export class LendTransactionError extends Error {
+	readonly code: LendTransactionErrorCode;
+	readonly logs?: string[];
+	readonly signature?: string; // Set once the transaction was sent
+
+	constructor(
+		code: LendTransactionErrorCode,
+		message: string,
+		logs?: string[],
+		signature?: string
+	) {
+		super(message);
+		this.name = "LendTransactionError";
+		this.code = code;
+		this.logs = logs;
+		this.signature = signature;
+	}
+}
+
+export interface ReconcileResult {
+	invested: number; // Failed round-ups whose deposit landed after all
+	released: number; // Failed round-ups returned to pending
+}
+
+// SPL Token program errors that mean the wallet does not hold enough funds
+const INSUFFICIENT_FUNDS_LOG_PATTERNS = [
+	/insufficient funds/i,
+	/insufficient lamports/i,
+];
+
+// Base transaction fee per signature
+const BASE_FEE_LAMPORTS = 5000;
+
+// An unconfirmed deposit the cluster still does not know this long after it
+// was sent was dropped; its blockhash expired long before
+const UNCONFIRMED_DEPOSIT_EXPIRY_MS = 5 * 60 * 1000;
+
+const TOKEN_PROGRAM_ID = "TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA";
+const TOKEN_2022_PROGRAM_ID = "TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb";
+
+// Well-known SPL Token program error codes
+const TOKEN_PROGRAM_ERRORS: Record<number, string> = {
+	0: "Lamport balance below rent-exempt threshold",
+	1: "Insufficient token funds",
+	3: "Token account mint mismatch",
+	4: "Token account owner mismatch",
+	13: "Token account not initialized",
+	17: "Token account is frozen",
+};
+
+/**
+ * Turn a simulation or confirmation error into a readable message
+ */
+export function describeTransactionError(
+	err: unknown,
+	logs: string[] = []
+): string {
+	// Program logs usually carry the most specific message
+	for (const line of logs) {
+		const anchorError = line.match(/Error Message: (.+?)\.?$/);
+		if (anchorError) return anchorError[1];
+
+		const programError = line.match(/^Program log: Error: (.+)$/);
+		if (programError) return programError[1];
+	}
+
+	if (typeof err === "string") {
+		return err;
+	}
+
+	if (err && typeof err === "object" && "InstructionError" in err) {
+		const [index, detail] = (
+			err as { InstructionError: [number, unknown] }
+		).InstructionError;
+
+		if (detail && typeof detail === "object" && "Custom" in detail) {
+			const code = (detail as { Custom: number }).Custom;
+			// Custom codes are program-specific; only decode the token program's
+			const tokenProgramFailed = logs.some(
+				(line) =>
+					line.startsWith(`Program ${TOKEN_PROGRAM_ID} failed`) ||
+					line.startsWith(`Program ${TOKEN_2022_PROGRAM_ID} failed`)
+			);
+			if (tokenProgramFailed && TOKEN_PROGRAM_ERRORS[code]) {
+				return TOKEN_PROGRAM_ERRORS[code];
+			}
+			return `Instruction ${index} failed with custom program error 0x${code.toString(
+				16
+			)}`;
+		}
+
+		return `Instruction ${index} failed: ${
+			typeof detail === "string" ? detail : JSON.stringify(detail)
+		}`;
+	}
+
+	return JSON.stringify(err);
+}
+
+function isInsufficientFunds(logs: string[] = []): boolean {
+	return logs.some((line) =>
+		INSUFFICIENT_FUNDS_LOG_PATTERNS.some((pattern) => pattern.test(line))
+	);
+}
+
+export class LendTransactionService {
+	private connection: Connection;
+
+	constructor() {
+		const networkConfig = getCurrentNetworkConfig();
+		this.connection = new Connection(
+			networkConfig.RPC_ENDPOINT,
+			"confirmed"
+		);
+	}
+
+	/**
+	 * Build the Jupiter Lend transaction with compute budget and a recent blockhash
+	 */
+	async buildTransaction(
+		action: LendAction,
+		walletAddress: string,
+		amount: number
+	): Promise<BuiltLendTransaction> {
+		// Get instruction data from Jupiter
+		const instructionData =
+			action === "deposit"
+				? await getDepositInstructionData(
+						this.connection,
+						walletAddress,
+						amount
+				  )
+				: await getWithdrawInstructionData(
+						this.connection,
+						walletAddress,
+						amount
+				  );
+
+		console.log("Instruction data retrieved from Jupiter");
+
+		const lendInstruction = new TransactionInstruction({
+			programId: new PublicKey(instructionData.programId),
+			keys: instructionData.keys.map((key) => ({
+				pubkey: new PublicKey(key.pubkey),
+				isSigner: key.isSigner,
+				isWritable: key.isWritable,
+			})),
+			data: Buffer.from(instructionData.data),
+		});
+
+		const solanaConfig = config.getSolanaConfig();
+		const { blockhash, lastValidBlockHeight } =
+			await this.connection.getLatestBlockhash("confirmed");
+
+		const transaction = new Transaction({
+			feePayer: new PublicKey(walletAddress),
+			blockhash,
+			lastValidBlockHeight,
+		}).add(
+			ComputeBudgetProgram.setComputeUnitLimit({
+				units: solanaConfig.computeUnitLimit,
+			}),
+			ComputeBudgetProgram.setComputeUnitPrice({
+				microLamports: solanaConfig.priorityFeeMicroLamports,
+			}),
+			lendInstruction
+		);
+
+		return { transaction, blockhash, lastValidBlockHeight };
+	}
+
+	/**
+	 * Worst-case fee: base fee plus the priority fee for the full compute budget
+	 */
+	private estimateFeeLamports(): number {
+		const solanaConfig = config.getSolanaConfig();
+		const priorityFeeLamports = Math.ceil(
+			(solanaConfig.computeUnitLimit *
+				solanaConfig.priorityFeeMicroLamports) /
+				1_000_000
+		);
+		return BASE_FEE_LAMPORTS + priorityFeeLamports;
+	}
+
+	/**
+	 * Check the wallet holds enough SOL for fees and, for deposits, enough USDC
+	 * Throws an insufficient_balance error otherwise
+	 */
+	async assertSufficientBalance(
+		action: LendAction,
+		walletAddress: string,
+		amount: number
+	): Promise<void> {
+		const owner = new PublicKey(walletAddress);
+
+		const lamports = await this.connection.getBalance(owner, "confirmed");
+		const requiredLamports = this.estimateFeeLamports();
+
+		if (lamports < requiredLamports) {
+			throw new LendTransactionError(
+				"insufficient_balance",
+				`Insufficient SOL for fees: need ${(
+					requiredLamports / LAMPORTS_PER_SOL
+				).toFixed(6)} SOL, have ${(lamports / LAMPORTS_PER_SOL).toFixed(
+					6
+				)} SOL`
+			);
+		}
+
+		if (action !== "deposit") return;
+
+		const tokenAccounts =
+			await this.connection.getParsedTokenAccountsByOwner(owner, {
+				mint: USDC_MAINNET_MINT_PUBKEY,
+			});
+		const usdcBalance = tokenAccounts.value.reduce(
+			(total, account) =>
+				total +
+				(account.account.data.parsed.info.tokenAmount.uiAmount || 0),
+			0
+		);
+
+		if (usdcBalance < amount) {
+			throw new LendTransactionError(
+				"insufficient_balance",
+				`Insufficient USDC: need ${amount.toFixed(
+					2
+				)} USDC, have ${usdcBalance.toFixed(2)} USDC`
+			);
+		}
+	}
+
+	/**
+	 * Simulate a transaction without signatures
+	 */
+	async simulate(
+		transaction: Transaction
+	): Promise<SimulatedTransactionResponse> {
+		const { value } = await this.connection.simulateTransaction(
+			transaction
+		);
+		return value;
+	}
+
+	/**
+	 * Build the exact transaction execute() would send and simulate it
+	 * Returns the expected fee, compute units and jlUSDC shares, or the reason
+	 * the transaction would fail. Nothing is signed or sent.
+	 */
+	async preview(
+		request: Omit<LendTransactionRequest, "userId">
+	): Promise<LendTransactionPreview> {
+		const { action, amount, walletAddress } = request;
+
+		const preview: LendTransactionPreview = {
+			action,
+			amount,
+			walletAddress,
+			success: false,
+			feeLamports: null,
+			feeSol: null,
+			computeUnits: null,
+			computeUnitLimit: config.getSolanaConfig().computeUnitLimit,
+			shares: null,
+			logs: [],
+		};
+
+		const lendingToken = await getUSDCLendingTokenDetails(this.connection);
+		preview.shares =
+			amount * bnToNumber(lendingToken.convertToShares, lendingToken.decimals);
+
+		try {
+			await this.assertSufficientBalance(action, walletAddress, amount);
+
+			const { transaction } = await this.buildTransaction(
+				action,
+				walletAddress,
+				amount
+			);
+
+			const [simulation, fee] = await Promise.all([
+				this.simulate(transaction),
+				this.connection.getFeeForMessage(
+					transaction.compileMessage(),
+					"confirmed"
+				),
+			]);
+
+			preview.feeLamports = fee.value ?? this.estimateFeeLamports();
+			preview.feeSol = preview.feeLamports / LAMPORTS_PER_SOL;
+			preview.computeUnits = simulation.unitsConsumed ?? null;
+			preview.logs = simulation.logs || [];
+
+			if (simulation.err) {
+				preview.error = {
+					code: isInsufficientFunds(preview.logs)
+						? "insufficient_balance"
+						: "simulation_failed",
+					message: describeTransactionError(
+						simulation.err,
+						preview.logs
+					),
+				};
+				return preview;
+			}
+
+			preview.success = true;
+			return preview;
+		} catch (error) {
+			if (error instanceof LendTransactionError) {
+				preview.error = { code: error.code, message: error.message };
+				return preview;
+			}
+			throw error;
+		}
+	}
+
+	/**
+	 * Build, sign and send a Jupiter Lend transaction
+	 * Round-ups swept into a deposit are reserved before sending, marked as
+	 * invested once it confirms and released if it does not go through.
+	 * Throws a LendTransactionError when the transaction cannot be completed
+	 */
+	async execute(
+		request: LendTransactionRequest
+	): Promise<LendTransactionResult> {
+		const { action, walletAddress, roundupIds = [] } = request;
+
+		if (action !== "deposit" || roundupIds.length === 0) {
+			return this.send(request);
+		}
+
+		// Settle earlier unconfirmed deposits first, so their round-ups are
+		// either invested or available again
+		try {
+			await this.reconcileFailedDeposits(walletAddress);
+		} catch (error) {
+			console.error("Failed to reconcile unconfirmed deposits:", error);
+		}
+
+		const calculator = getRoundupCalculator();
+		const swept = await calculator.sweepRoundups(walletAddress, roundupIds);
+
+		if (swept.length < roundupIds.length) {
+			await calculator.releaseRoundups(
+				walletAddress,
+				swept.map((record) => record.id)
+			);
+			throw new LendTransactionError(
+				"roundups_unavailable",
+				"Some round-ups are unpriced or already being invested; refresh and try again"
+			);
+		}
+
+		// USDC has 6 decimals
+		const roundupTotal =
+			Math.round(
+				swept.reduce(
+					(sum, record) => sum + Number(record.round_up_value),
+					0
+				) * 1_000_000
+			) / 1_000_000;
+
+		if (request.amountFromRoundups && roundupTotal <= 0) {
+			await calculator.releaseRoundups(walletAddress, roundupIds);
+			throw new LendTransactionError(
+				"roundups_unavailable",
+				"The selected round-ups add up to nothing to deposit"
+			);
+		}
+
+		let result: LendTransactionResult;
+		try {
+			result = await this.send(
+				request.amountFromRoundups
+					? { ...request, amount: roundupTotal }
+					: request
+			);
+		} catch (error) {
+			try {
+				// A sent but unconfirmed deposit may still land, so keep its
+				// round-ups out of the pending total until it is reconciled
+				if (
+					error instanceof LendTransactionError &&
+					error.code === "unconfirmed"
+				) {
+					await calculator.markFailed(
+						walletAddress,
+						roundupIds,
+						error.signature ?? null
+					);
+				} else {
+					await calculator.releaseRoundups(walletAddress, roundupIds);
+				}
+			} catch (releaseError) {
+				console.error(
+					"Failed to update round-ups after a failed deposit:",
+					releaseError
+				);
+			}
+			throw error;
+		}
+
+		try {
+			await calculator.markInvested(
+				walletAddress,
+				roundupIds,
+				result.investmentId
+			);
+		} catch (error) {
+			console.error(
+				`Failed to mark round-ups as invested by ${result.signature}:`,
+				error
+			);
+		}
+
+		return result;
+	}
+
+	/**
+	 * Settle round-ups left 'failed' by deposits that were sent but never
+	 * confirmed. A deposit that landed marks them invested and is recorded
+	 * as an investment; one that failed or was dropped releases them to
+	 * pending. Deposits still in flight are left for a later check.
+	 * @param walletAddress Wallet address
+	 */
+	async reconcileFailedDeposits(
+		walletAddress: string
+	): Promise<ReconcileResult> {
+		const calculator = getRoundupCalculator();
+		const failed = await calculator.getRoundups(
+			walletAddress,
+			1000,
+			"failed"
+		);
+		const result: ReconcileResult = { invested: 0, released: 0 };
+
+		const byDeposit = new Map<string, typeof failed>();
+		for (const record of failed) {
+			// Nothing to check without the deposit's signature
+			if (!record.deposit_signature) continue;
+			const records = byDeposit.get(record.deposit_signature) || [];
+			records.push(record);
+			byDeposit.set(record.deposit_signature, records);
+		}
+		if (byDeposit.size === 0) return result;
+
+		const signatures = Array.from(byDeposit.keys());
+		const { value: statuses } = await this.connection.getSignatureStatuses(
+			signatures,
+			{ searchTransactionHistory: true }
+		);
+
+		for (let i = 0; i < signatures.length; i++) {
+			const signature = signatures[i];
+			const records = byDeposit.get(signature) || [];
+			const ids = records.map((record) => record.id);
+			const status = statuses[i];
+
+			if (
+				status &&
+				!status.err &&
+				(status.confirmationStatus === "confirmed" ||
+					status.confirmationStatus === "finalized")
+			) {
+				// USDC has 6 decimals
+				const amount =
+					Math.round(
+						records.reduce(
+							(sum, record) => sum + Number(record.round_up_value),
+							0
+						) * 1_000_000
+					) / 1_000_000;
+
+				let investmentId: number | null = null;
+				try {
+					const shares = await this.getSharesMoved(
+						signature,
+						walletAddress,
+						amount
+					);
+					const investment =
+						await getInvestmentRepository().recordInvestment({
+							walletAddress,
+							action: "deposit",
+							amountUsdc: amount,
+							shares,
+							pricePerShare: shares ? amount / shares : null,
+							roundupIds: ids,
+							signature,
+						});
+					investmentId = investment.id;
+				} catch (error) {
+					console.error(
+						`Failed to record reconciled deposit ${signature} in investment history:`,
+						error
+					);
+				}
+
+				await calculator.markInvested(walletAddress, ids, investmentId);
+				result.invested += ids.length;
+				console.log(
+					`Deposit ${signature} landed after all; ${ids.length} round-ups invested`
+				);
+				continue;
+			}
+
+			const sentAt = Math.min(
+				...records.map((record) =>
+					record.deposit_sent_at
+						? new Date(record.deposit_sent_at).getTime()
+						: 0
+				)
+			);
+			const dropped =
+				!status && Date.now() - sentAt >= UNCONFIRMED_DEPOSIT_EXPIRY_MS;
+
+			if (status?.err || dropped) {
+				await calculator.releaseRoundups(walletAddress, ids);
+				result.released += ids.length;
+				console.log(
+					`Deposit ${signature} did not go through; ${ids.length} round-ups released`
+				);
+			}
+		}
+
+		return result;
+	}
+
+	private async send(
+		request: LendTransactionRequest
+	): Promise<LendTransactionResult> {
+		const { action, amount, walletAddress, userId, roundupIds = [] } =
+			request;
+
+		console.log(
+			`Processing ${action} transaction for user ${userId}...`,
+			{
+				amount,
+				walletAddress,
+			}
+		);
+
+		await this.assertSufficientBalance(action, walletAddress, amount);
+
+		const { transaction, blockhash, lastValidBlockHeight } =
+			await this.buildTransaction(action, walletAddress, amount);
+
+		// Simulate first so program errors surface before the user signs
+		const simulation = await this.simulate(transaction);
+		if (simulation.err) {
+			const logs = simulation.logs || [];
+			throw new LendTransactionError(
+				isInsufficientFunds(logs)
+					? "insufficient_balance"
+					: "simulation_failed",
+				describeTransactionError(simulation.err, logs),
+				logs
+			);
+		}
+
+		// Sign with the user's Privy embedded wallet
+		let signedTransaction: Transaction;
+		try {
+			const response = await getPrivyClient().walletApi.solana.signTransaction(
+				{
+					address: walletAddress,
+					chainType: "solana",
+					transaction,
+				}
+			);
+			signedTransaction = response.signedTransaction as Transaction;
+		} catch (error) {
+			throw new LendTransactionError(
+				"signing_failed",
+				`Privy could not sign the transaction: ${
+					error instanceof Error ? error.message : String(error)
+				}`
+			);
+		}
+
+		// Already simulated, so skip the duplicate preflight
+		const signature = await this.connection.sendRawTransaction(
+			signedTransaction.serialize(),
+			{ skipPreflight: true, maxRetries: 3 }
+		);
+
+		console.log(`Transaction sent: ${signature}`);
+
+		try {
+			const confirmation = await this.connection.confirmTransaction(
+				{ signature, blockhash, lastValidBlockHeight },
+				"confirmed"
+			);
+
+			if (confirmation.value.err) {
+				throw new LendTransactionError(
+					"transaction_failed",
+					`Transaction ${signature} failed: ${describeTransactionError(
+						confirmation.value.err
+					)}`
+				);
+			}
+		} catch (error) {
+			if (error instanceof TransactionExpiredBlockheightExceededError) {
+				throw new LendTransactionError(
+					"expired",
+					`Transaction ${signature} expired before it was confirmed; please try again`
+				);
+			}
+			if (error instanceof LendTransactionError) throw error;
+			throw new LendTransactionError(
+				"unconfirmed",
+				`Transaction ${signature} was sent but could not be confirmed: ${
+					error instanceof Error ? error.message : String(error)
+				}`,
+				undefined,
+				signature
+			);
+		}
+
+		console.log(`Transaction confirmed: ${signature}`);
+
+		// The funds have moved; nothing from here on may fail the request,
+		// or the caller would treat the deposit as not having landed
+		const shares = await this.getSharesMoved(
+			signature,
+			walletAddress,
+			amount
+		);
+		const pricePerShare = shares ? amount / shares : null;
+
+		let investmentId: number | null = null;
+		try {
+			const investment = await getInvestmentRepository().recordInvestment({
+				walletAddress,
+				action,
+				amountUsdc: amount,
+				shares,
+				pricePerShare,
+				roundupIds,
+				signature,
+			});
+			investmentId = investment.id;
+		} catch (error) {
+			console.error(
+				`Failed to record ${action} ${signature} in investment history:`,
+				error
+			);
+		}
+
+		return {
+			signature,
+			walletAddress,
+			action,
+			amount,
+			shares,
+			pricePerShare,
+			investmentId,
+		};
+	}
+
+	/**
+	 * jlUSDC minted or burned by a confirmed transaction
+	 * Read from the wallet's token balance change, falling back to the
+	 * current exchange rate when the transaction cannot be loaded.
+	 * Never throws; null when neither can be read
+	 */
+	private async getSharesMoved(
+		signature: string,
+		walletAddress: string,
+		amount: number
+	): Promise<number | null> {
+		let lendingToken: Awaited<ReturnType<typeof getUSDCLendingTokenDetails>>;
+		try {
+			lendingToken = await getUSDCLendingTokenDetails(this.connection);
+		} catch (error) {
+			console.error(
+				`Could not load jlUSDC details for ${signature}; shares unknown:`,
+				error
+			);
+			return null;
+		}
+		const lendingMint = lendingToken.address.toBase58();
+
+		try {
+			const transaction = await this.connection.getParsedTransaction(
+				signature,
+				{ commitment: "confirmed", maxSupportedTransactionVersion: 0 }
+			);
+
+			const balanceOf = (balances?: TokenBalance[] | null) =>
+				(balances || [])
+					.filter(
+						(balance) =>
+							balance.mint === lendingMint &&
+							balance.owner === walletAddress
+					)
+					.reduce(
+						(total, balance) =>
+							total + (balance.uiTokenAmount.uiAmount || 0),
+						0
+					);
+
+			if (transaction?.meta) {
+				const change =
+					balanceOf(transaction.meta.postTokenBalances) -
+					balanceOf(transaction.meta.preTokenBalances);
+				if (change !== 0) return Math.abs(change);
+			}
+		} catch (error) {
+			console.error(
+				`Could not read jlUSDC balance change for ${signature}:`,
+				error
+			);
+		}
+
+		return (
+			amount *
+			bnToNumber(lendingToken.convertToShares, lendingToken.decimals)
+		);
+	}
+}
+
+// Singleton instance
+let lendTransactionServiceInstance: LendTransactionService | null = null;
+
+export function getLendTransactionService(): LendTransactionService {
+	if (!lendTransactionServiceInstance) {
+		lendTransactionServiceInstance = new LendTransactionService();
+	}
+	return lendTransactionServiceInstance;
+}
@@ -0,0 +1,186 @@
+/**
+ * Price History Service
+ * Persists minute-bucketed USD prices per token mint in Supabase and
+ * backfills missing ranges from a pluggable historical price source
+ */
+
+import { createServerClient } from '../supabase/client';
+import type { PriceHistoryPoint } from '../supabase/types';
+import type { PriceData } from './price-oracle';
+
+export interface PricePoint {
+  timestamp: number; // Unix seconds
+  price: number;
+}
+
+/**
+ * A source of historical USD prices for a token mint
+ */
+export interface HistoricalPriceSource {
+  readonly name: PriceData['source'];
+
+  /**
+   * Fetch price points for a mint between two unix timestamps (seconds)
+   */
+  fetchRange(tokenMint: string, from: number, to: number): Promise<PricePoint[]>;
+}
+
+/**
+ * CoinGecko market chart range API (free, no API key needed)
+ * Granularity is chosen by CoinGecko: 5-minutely for ranges within a day
+ * of now, hourly up to 90 days back and daily (00:00 UTC) beyond that
+ */
+export class CoinGeckoHistoricalSource implements HistoricalPriceSource {
+  readonly name = 'coingecko' as const;
+  private resolveCoinId: (tokenMint: string) => Promise<string | null>;
+
+  constructor(resolveCoinId: (tokenMint: string) => Promise<string | null>) {
+    this.resolveCoinId = resolveCoinId;
+  }
+
+  async fetchRange(tokenMint: string, from: number, to: number): Promise<PricePoint[]> {
+    const coinId = await this.resolveCoinId(tokenMint);
+    if (!coinId) {
+      throw new Error(`No CoinGecko ID known for ${tokenMint}`);
+    }
+
+    const url = `https://api.coingecko.com/api/v3/coins/${coinId}/market_chart/range?vs_currency=usd&from=${from}&to=${to}`;
+
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`CoinGecko market chart error: ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    const prices: Array<[number, number]> = data.prices || [];
+
+    return prices.map(([timestampMs, price]) => ({
+      timestamp: Math.floor(timestampMs / 1000),
+      price,
+    }));
+  }
+}
+
+/**
+ * Convert a unix timestamp (seconds) into its minute bucket
+ */
+export function toMinuteBucket(timestamp: number): number {
+  return Math.floor(timestamp / 60);
+}
+
+/**
+ * Linearly interpolate the price at a timestamp between two known points
+ */
+export function interpolatePrice(before: PricePoint, after: PricePoint, timestamp: number): number {
+  if (after.timestamp === before.timestamp) {
+    return before.price;
+  }
+
+  const ratio = (timestamp - before.timestamp) / (after.timestamp - before.timestamp);
+  return before.price + (after.price - before.price) * ratio;
+}
+
+export class PriceHistoryStore {
+  private supabase;
+
+  constructor() {
+    this.supabase = createServerClient();
+  }
+
+  /**
+   * Get the closest stored points on either side of a timestamp
+   * @param tokenMint Token mint address
+   * @param timestamp Unix timestamp in seconds
+   * @param maxGapSeconds Ignore points further than this from the timestamp
+   */
+  async getBracketingPoints(
+    tokenMint: string,
+    timestamp: number,
+    maxGapSeconds: number
+  ): Promise<{ before: PricePoint | null; after: PricePoint | null }> {
+    try {
+      const bucket = toMinuteBucket(timestamp);
+      const maxGapBuckets = Math.ceil(maxGapSeconds / 60);
+
+      const [beforeResult, afterResult] = await Promise.all([
+        this.supabase
+          .from('price_history')
+          .select('*')
+          .eq('token_mint', tokenMint)
+          .lte('bucket', bucket)
+          .gte('bucket', bucket - maxGapBuckets)
+          .order('bucket', { ascending: false })
+          .limit(1),
+        this.supabase
+          .from('price_history')
+          .select('*')
+          .eq('token_mint', tokenMint)
+          .gte('bucket', bucket)
+          .lte('bucket', bucket + maxGapBuckets)
+          .order('bucket', { ascending: true })
+          .limit(1),
+      ]);
+
+      if (beforeResult.error) throw beforeResult.error;
+      if (afterResult.error) throw afterResult.error;
+
+      return {
+        before: this.toPricePoint(beforeResult.data?.[0]),
+        after: this.toPricePoint(afterResult.data?.[0]),
+      };
+    } catch (error) {
+      console.error('Error fetching price history:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Store price points, one row per mint and minute bucket
+   * Existing buckets are overwritten with the newer value
+   */
+  async storePoints(tokenMint: string, points: PricePoint[], source: PriceData['source']): Promise<void> {
+    if (points.length === 0) return;
+
+    // Collapse points that land in the same minute bucket
+    const byBucket = new Map<number, PricePoint>();
+    for (const point of points) {
+      byBucket.set(toMinuteBucket(point.timestamp), point);
+    }
+
+    try {
+      const rows = Array.from(byBucket.entries()).map(([bucket, point]) => ({
+        token_mint: tokenMint,
+        bucket,
+        price: point.price,
+        source,
+      }));
+
+      const { error } = await this.supabase
+        .from('price_history')
+        .upsert(rows, { onConflict: 'token_mint,bucket' });
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error storing price history:', error);
+      throw error;
+    }
+  }
+
+  private toPricePoint(row: PriceHistoryPoint | undefined): PricePoint | null {
+    if (!row) return null;
+    return {
+      timestamp: row.bucket * 60,
+      price: parseFloat(row.price.toString()),
+    };
+  }
+}
+
+// Singleton instance
+let priceHistoryStoreInstance: PriceHistoryStore | null = null;
+
+export function getPriceHistoryStore(): PriceHistoryStore {
+  if (!priceHistoryStoreInstance) {
+    priceHistoryStoreInstance = new PriceHistoryStore();
+  }
+  return priceHistoryStoreInstance;
+}
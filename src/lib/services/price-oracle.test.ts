@@ -0,0 +1,35 @@
+import { describe, expect, it, vi } from "vitest";
+import { PriceOracle } from "./price-oracle";
+import type { PriceProvider } from "./price-providers";
+
+vi.mock("../supabase/client", () => ({
+	createServerClient: () => ({}),
+}));
+
+const BONK_MINT = "DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263";
+
+const failingProvider: PriceProvider = {
+	name: "jupiter",
+	async getPrice(tokenMint: string) {
+		throw new Error(`No Jupiter price for ${tokenMint}`);
+	},
+};
+
+describe("PriceOracle", () => {
+	it("throws instead of returning a zero price when every provider fails", async () => {
+		const oracle = new PriceOracle({ providers: [failingProvider] });
+
+		await expect(oracle.getCurrentSolPrice()).rejects.toThrow(
+			"All price providers failed"
+		);
+		await expect(oracle.getCurrentTokenPrice(BONK_MINT)).rejects.toThrow(
+			"All price providers failed"
+		);
+		await expect(
+			oracle.getHistoricalPrice({
+				tokenMint: BONK_MINT,
+				blockTime: Math.floor(Date.now() / 1000),
+			})
+		).rejects.toThrow("All price providers failed");
+	});
+});
@@ -1,19 +1,44 @@
 /**
  * Price oracle service for fetching USD prices at block time
- * Supports Pyth and Jupiter price feeds
+ * Queries an ordered chain of CoinGecko, Jupiter and Pyth price providers
  */
 
-import { Connection, PublicKey } from "@solana/web3.js";
+import { Connection } from "@solana/web3.js";
 // Removed unused @solana/kit imports
-import { config } from "../config";
+import { config, PriceProviderName } from "../config";
+import {
+	CoinGeckoHistoricalSource,
+	HistoricalPriceSource,
+	PriceHistoryStore,
+	PricePoint,
+	getPriceHistoryStore,
+	interpolatePrice,
+	toMinuteBucket,
+} from "./price-history";
+import {
+	CoinGeckoPriceProvider,
+	JupiterPriceProvider,
+	PriceProvider,
+	PriceProviderChain,
+	PriceProviderChainOptions,
+	PythPriceProvider,
+} from "./price-providers";
+import { TokenRegistry, getTokenRegistry } from "./token-registry";
 
 export interface PriceData {
 	price: number;
 	timestamp: number;
-	source: "pyth" | "jupiter" | "cached";
+	source: "pyth" | "jupiter" | "coingecko";
 	confidence?: number;
 }
 
+export interface PriceOracleOptions {
+	providers?: PriceProvider[];
+	quorum?: PriceProviderChainOptions;
+	historicalSource?: HistoricalPriceSource;
+	historyStore?: PriceHistoryStore;
+}
+
 export interface HistoricalPriceRequest {
 	tokenMint?: string;
 	blockTime: number;
@@ -24,18 +49,51 @@ export class PriceOracle {
 	private connection: Connection;
 	private priceCache: Map<string, PriceData>;
 	private cacheDuration: number = 60 * 1000; // 1 minute cache
-
-	constructor() {
+	private providerChain: PriceProviderChain;
+	private historicalSource: HistoricalPriceSource;
+	private historyStore: PriceHistoryStore;
+	private historicalCache: Map<string, PriceData>;
+	private tokenRegistry: TokenRegistry;
+	private historyWindowSeconds: number = 2 * 60 * 60; // Max distance to a known point
+	// CoinGecko only has daily points (00:00 UTC) more than 90 days back, so
+	// older block times need a window that reaches the days on either side
+	private dailyHistoryWindowSeconds: number = 24 * 60 * 60;
+	private dailyHistoryAgeSeconds: number = 90 * 24 * 60 * 60;
+
+	constructor(options: PriceOracleOptions = {}) {
 		const solanaConfig = config.getSolanaConfig();
 		this.connection = new Connection(
 			solanaConfig.rpcUrl,
 			solanaConfig.commitment
 		);
 		this.priceCache = new Map();
+		this.tokenRegistry = getTokenRegistry();
+
+		const oracleConfig = config.getPriceOracleConfig();
+		this.providerChain = new PriceProviderChain(
+			options.providers ||
+				oracleConfig.providers.map((name) =>
+					this.createProvider(name)
+				),
+			options.quorum || {
+				quorumEnabled: oracleConfig.quorumEnabled,
+				quorumTolerance: oracleConfig.quorumTolerance,
+				quorumMinProviders: oracleConfig.quorumMinProviders,
+			}
+		);
+
+		this.historicalSource =
+			options.historicalSource ||
+			new CoinGeckoHistoricalSource((mint) =>
+				this.mintToCoinGeckoId(mint)
+			);
+		this.historyStore = options.historyStore || getPriceHistoryStore();
+		this.historicalCache = new Map();
 	}
 
 	/**
 	 * Get current SOL price in USD
+	 * Throws when no provider can price SOL
 	 */
 	async getCurrentSolPrice(): Promise<PriceData> {
 		const cacheKey = "sol_current";
@@ -43,28 +101,20 @@ export class PriceOracle {
 		if (cached) return cached;
 
 		try {
-			// Use CoinGecko for SOL price (free, no API key needed)
-			const price = await this.fetchFromCoinGecko("solana");
-			const priceData: PriceData = {
-				price,
-				timestamp: Date.now(),
-				source: "jupiter", // Keep as 'jupiter' for backward compatibility
-			};
+			const priceData = await this.providerChain.getPrice(
+				"So11111111111111111111111111111111111111112"
+			);
 			this.cachePrice(cacheKey, priceData);
 			return priceData;
 		} catch (error) {
 			console.error("Error fetching current SOL price:", error);
-			// Return a fallback price if all sources fail
-			return {
-				price: 0,
-				timestamp: Date.now(),
-				source: "jupiter",
-			};
+			throw error;
 		}
 	}
 
 	/**
 	 * Get current token price in USD
+	 * Throws when no provider can price the token
 	 */
 	async getCurrentTokenPrice(tokenMint: string): Promise<PriceData> {
 		const cacheKey = `${tokenMint}_current`;
@@ -72,14 +122,7 @@ export class PriceOracle {
 		if (cached) return cached;
 
 		try {
-			// Map token mint to CoinGecko ID
-			const coingeckoId = this.mintToCoinGeckoId(tokenMint);
-			const price = await this.fetchFromCoinGecko(coingeckoId);
-			const priceData: PriceData = {
-				price,
-				timestamp: Date.now(),
-				source: "jupiter", // Keep as 'jupiter' for backward compatibility
-			};
+			const priceData = await this.providerChain.getPrice(tokenMint);
 			this.cachePrice(cacheKey, priceData);
 			return priceData;
 		} catch (error) {
@@ -87,17 +130,14 @@ export class PriceOracle {
 				`Error fetching current price for ${tokenMint}:`,
 				error
 			);
-			return {
-				price: 0,
-				timestamp: Date.now(),
-				source: "jupiter",
-			};
+			throw error;
 		}
 	}
 
 	/**
 	 * Get historical price at a specific block time
-	 * Note: This is an approximation as historical data is expensive to query
+	 * Interpolates between the stored price points around the block time,
+	 * backfilling the price history from the historical source when needed
 	 */
 	async getHistoricalPrice(
 		request: HistoricalPriceRequest
@@ -118,134 +158,188 @@ export class PriceOracle {
 			return this.getCurrentTokenPrice(tokenMint);
 		}
 
-		// For historical prices, we'll use current price as approximation
-		// In production, you'd want to integrate with a historical price API
-		// or maintain your own price history database
-		const currentPrice =
-			tokenMint === "So11111111111111111111111111111111111111112"
-				? await this.getCurrentSolPrice()
-				: await this.getCurrentTokenPrice(tokenMint);
+		// Historical prices never change, so they are cached without expiry
+		const cacheKey = `${tokenMint}_${toMinuteBucket(request.blockTime)}`;
+		const cached = this.historicalCache.get(cacheKey);
+		if (cached) return cached;
+
+		let price = await this.getStoredHistoricalPrice(
+			tokenMint,
+			request.blockTime
+		);
+
+		if (price === null) {
+			price = await this.backfillHistoricalPrice(
+				tokenMint,
+				request.blockTime
+			);
+		}
 
-		return {
-			...currentPrice,
+		if (price === null) {
+			throw new Error(
+				`No historical price available for ${tokenMint} at ${request.blockTime}`
+			);
+		}
+
+		const priceData: PriceData = {
+			price,
 			timestamp: request.blockTime * 1000,
+			source: this.historicalSource.name,
 		};
+		this.historicalCache.set(cacheKey, priceData);
+		return priceData;
 	}
 
 	/**
-	 * Map Solana token mint address to CoinGecko ID
+	 * How far from a block time price points are looked for
 	 */
-	private mintToCoinGeckoId(tokenMint: string): string {
-		const mintMap: { [key: string]: string } = {
-			So11111111111111111111111111111111111111112: "solana",
-			EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v: "usd-coin", // Mainnet USDC
-			"4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU": "usd-coin", // Devnet USDC
-			Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB: "tether", // USDT
-			mSoLzYCxHdYgdzU16g5QSh3i5K3z3KZK7ytfqcJm7So: "msol", // mSOL
-		};
-
-		return mintMap[tokenMint] || "solana";
+	private getHistoryWindowSeconds(blockTime: number): number {
+		const age = Math.floor(Date.now() / 1000) - blockTime;
+		return age > this.dailyHistoryAgeSeconds
+			? this.dailyHistoryWindowSeconds
+			: this.historyWindowSeconds;
 	}
 
 	/**
-	 * Fetch price from CoinGecko API (free, no API key needed)
+	 * Interpolate a price from the persisted price history
+	 * Returns null when the history has no points around the block time
 	 */
-	private async fetchFromCoinGecko(coinId: string): Promise<number> {
-		const url = `https://api.coingecko.com/api/v3/simple/price?ids=${coinId}&vs_currencies=usd`;
-
+	private async getStoredHistoricalPrice(
+		tokenMint: string,
+		blockTime: number
+	): Promise<number | null> {
 		try {
-			const response = await fetch(url);
-			if (!response.ok) {
-				throw new Error(
-					`CoinGecko API error: ${response.statusText}`
+			const { before, after } =
+				await this.historyStore.getBracketingPoints(
+					tokenMint,
+					blockTime,
+					this.getHistoryWindowSeconds(blockTime)
 				);
-			}
-
-			const data = await response.json();
-			const priceData = data[coinId];
-
-			if (!priceData || !priceData.usd) {
-				throw new Error("Price data not available");
-			}
-
-			return priceData.usd;
+			return this.priceFromBracket(before, after, blockTime);
 		} catch (error) {
-			console.error("CoinGecko fetch error:", error);
-			throw error;
+			console.error(
+				`Error reading price history for ${tokenMint}:`,
+				error
+			);
+			return null;
 		}
 	}
 
 	/**
-	 * Fetch price from Jupiter aggregator (deprecated - requires auth now)
+	 * Fetch the price range around the block time from the historical
+	 * source, persist it, and interpolate from the fetched points
 	 */
-	private async fetchFromJupiter(tokenMint: string): Promise<number> {
-		const oracleConfig = config.getPriceOracleConfig();
-		const url = `${oracleConfig.jupiterApiUrl}/price?ids=${tokenMint}`;
-
+	private async backfillHistoricalPrice(
+		tokenMint: string,
+		blockTime: number
+	): Promise<number | null> {
+		const windowSeconds = this.getHistoryWindowSeconds(blockTime);
+		let points: PricePoint[];
 		try {
-			const response = await fetch(url);
-			if (!response.ok) {
-				throw new Error(`Jupiter API error: ${response.statusText}`);
-			}
+			points = await this.historicalSource.fetchRange(
+				tokenMint,
+				blockTime - windowSeconds,
+				blockTime + windowSeconds
+			);
+		} catch (error) {
+			console.error(
+				`Error backfilling price history for ${tokenMint}:`,
+				error
+			);
+			return null;
+		}
 
-			const data = await response.json();
-			const priceData = data.data?.[tokenMint];
+		try {
+			await this.historyStore.storePoints(
+				tokenMint,
+				points,
+				this.historicalSource.name
+			);
+		} catch (error) {
+			// Still usable for this request even if persisting failed
+			console.error("Error persisting price history:", error);
+		}
 
-			if (!priceData || !priceData.price) {
-				throw new Error("Price data not available");
+		let before: PricePoint | null = null;
+		let after: PricePoint | null = null;
+		for (const point of points) {
+			if (
+				point.timestamp <= blockTime &&
+				(!before || point.timestamp > before.timestamp)
+			) {
+				before = point;
+			}
+			if (
+				point.timestamp >= blockTime &&
+				(!after || point.timestamp < after.timestamp)
+			) {
+				after = point;
 			}
-
-			return priceData.price;
-		} catch (error) {
-			console.error("Jupiter fetch error:", error);
-			throw error;
 		}
+
+		return this.priceFromBracket(before, after, blockTime);
 	}
 
 	/**
-	 * Fetch price from Pyth oracle (on-chain)
-	 * This is more complex and requires parsing on-chain account data
+	 * Resolve a price from the points on either side of a timestamp
+	 * A single side is only trusted when it falls in the same minute bucket
 	 */
-	private async fetchFromPyth(
-		priceFeedAddress: string
-	): Promise<PriceData> {
-		try {
-			const publicKey = new PublicKey(priceFeedAddress);
-			const accountInfo = await this.connection.getAccountInfo(
-				publicKey
-			);
+	private priceFromBracket(
+		before: PricePoint | null,
+		after: PricePoint | null,
+		timestamp: number
+	): number | null {
+		if (before && after) {
+			return interpolatePrice(before, after, timestamp);
+		}
 
-			if (!accountInfo) {
-				throw new Error("Pyth price feed not found");
-			}
+		const single = before || after;
+		if (
+			single &&
+			toMinuteBucket(single.timestamp) === toMinuteBucket(timestamp)
+		) {
+			return single.price;
+		}
 
-			// Parse Pyth price data
-			// Note: This is a simplified version. In production, use @pythnetwork/client
-			const price = this.parsePythPrice(accountInfo.data);
+		return null;
+	}
 
-			return {
-				price,
-				timestamp: Date.now(),
-				source: "pyth",
-			};
-		} catch (error) {
-			console.error("Pyth fetch error:", error);
-			throw error;
-		}
+	/**
+	 * Map Solana token mint address to CoinGecko ID
+	 * Returns null for mints CoinGecko cannot price
+	 */
+	private async mintToCoinGeckoId(tokenMint: string): Promise<string | null> {
+		const coingeckoId = await this.tokenRegistry.getCoinGeckoId(tokenMint);
+		return coingeckoId || null;
 	}
 
 	/**
-	 * Parse Pyth price from account data
-	 * Simplified version - in production use @pythnetwork/client
+	 * Create a price provider by its configured name
 	 */
-	private parsePythPrice(_data: Buffer): number {
-		// This is a placeholder - actual Pyth price parsing is more complex
-		// You should use @pythnetwork/client library for production
-		// For now, we'll just return 0 and rely on Jupiter
-		console.warn(
-			"Pyth price parsing not fully implemented, use Jupiter instead"
-		);
-		return 0;
+	private createProvider(name: PriceProviderName): PriceProvider {
+		const oracleConfig = config.getPriceOracleConfig();
+
+		switch (name) {
+			case "jupiter":
+				return new JupiterPriceProvider(oracleConfig.jupiterApiUrl);
+			case "pyth":
+				return new PythPriceProvider(this.connection, {
+					So11111111111111111111111111111111111111112:
+						oracleConfig.pythSolUsdFeed,
+					EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v:
+						oracleConfig.pythUsdcUsdFeed, // Mainnet USDC
+					"4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU":
+						oracleConfig.pythUsdcUsdFeed, // Devnet USDC
+				}, {
+					maxStalenessSeconds: oracleConfig.pythMaxStalenessSeconds,
+					maxConfidenceRatio: oracleConfig.pythMaxConfidenceRatio,
+				});
+			case "coingecko":
+			default:
+				return new CoinGeckoPriceProvider((mint) =>
+					this.mintToCoinGeckoId(mint)
+				);
+		}
 	}
 
 	/**
@@ -261,7 +355,8 @@ export class PriceOracle {
 			return null;
 		}
 
-		return { ...cached, source: "cached" };
+		// Keep the source of the provider that originally answered
+		return { ...cached };
 	}
 
 	/**
@@ -276,6 +371,7 @@ export class PriceOracle {
 	 */
 	clearCache(): void {
 		this.priceCache.clear();
+		this.historicalCache.clear();
 	}
 
 	/**
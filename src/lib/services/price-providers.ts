@@ -0,0 +1,284 @@
+/**
+ * Current price providers used by the price oracle
+ * Each provider answers USD prices for a token mint from a single source
+ */
+
+import { Connection, PublicKey } from "@solana/web3.js";
+import type { PriceProviderName } from "../config";
+import type { PriceData } from "./price-oracle";
+import { parsePythPriceAccount } from "./pyth-price-account";
+
+export interface PriceProvider {
+	readonly name: PriceProviderName;
+
+	/**
+	 * Fetch the current USD price for a token mint
+	 * Throws when the provider cannot price the mint
+	 */
+	getPrice(tokenMint: string): Promise<PriceData>;
+}
+
+/**
+ * CoinGecko simple price API (free, no API key needed)
+ */
+export class CoinGeckoPriceProvider implements PriceProvider {
+	readonly name = "coingecko" as const;
+	private resolveCoinId: (tokenMint: string) => Promise<string | null>;
+
+	constructor(resolveCoinId: (tokenMint: string) => Promise<string | null>) {
+		this.resolveCoinId = resolveCoinId;
+	}
+
+	async getPrice(tokenMint: string): Promise<PriceData> {
+		const coinId = await this.resolveCoinId(tokenMint);
+		if (!coinId) {
+			throw new Error(`No CoinGecko ID known for ${tokenMint}`);
+		}
+
+		const url = `https://api.coingecko.com/api/v3/simple/price?ids=${coinId}&vs_currencies=usd`;
+
+		const response = await fetch(url);
+		if (!response.ok) {
+			throw new Error(`CoinGecko API error: ${response.statusText}`);
+		}
+
+		const data = await response.json();
+		const priceData = data[coinId];
+
+		if (!priceData || !priceData.usd) {
+			throw new Error("Price data not available");
+		}
+
+		return {
+			price: priceData.usd,
+			timestamp: Date.now(),
+			source: this.name,
+		};
+	}
+}
+
+/**
+ * Jupiter price API
+ */
+export class JupiterPriceProvider implements PriceProvider {
+	readonly name = "jupiter" as const;
+	private apiUrl: string;
+
+	constructor(apiUrl: string) {
+		this.apiUrl = apiUrl;
+	}
+
+	async getPrice(tokenMint: string): Promise<PriceData> {
+		const url = `${this.apiUrl}/price?ids=${tokenMint}`;
+
+		const response = await fetch(url);
+		if (!response.ok) {
+			throw new Error(`Jupiter API error: ${response.statusText}`);
+		}
+
+		const data = await response.json();
+		const priceData = data.data?.[tokenMint];
+
+		if (!priceData || !priceData.price) {
+			throw new Error("Price data not available");
+		}
+
+		return {
+			price: parseFloat(priceData.price),
+			timestamp: Date.now(),
+			source: this.name,
+		};
+	}
+}
+
+export interface PythPriceProviderOptions {
+	maxStalenessSeconds?: number;
+	maxConfidenceRatio?: number; // Max confidence interval relative to price, e.g. 0.01 for 1%
+}
+
+/**
+ * Pyth oracle (on-chain price accounts read through our own RPC)
+ */
+export class PythPriceProvider implements PriceProvider {
+	readonly name = "pyth" as const;
+	private connection: Connection;
+	private feeds: Record<string, string>;
+	private maxStalenessSeconds: number;
+	private maxConfidenceRatio: number;
+
+	/**
+	 * @param connection Solana RPC connection
+	 * @param feeds Map of token mint to Pyth price account address
+	 * @param options Staleness and confidence limits
+	 */
+	constructor(
+		connection: Connection,
+		feeds: Record<string, string>,
+		options: PythPriceProviderOptions = {}
+	) {
+		this.connection = connection;
+		this.feeds = feeds;
+		this.maxStalenessSeconds = options.maxStalenessSeconds ?? 60;
+		this.maxConfidenceRatio = options.maxConfidenceRatio ?? 0.01;
+	}
+
+	async getPrice(tokenMint: string): Promise<PriceData> {
+		const feedAddress = this.feeds[tokenMint];
+		if (!feedAddress) {
+			throw new Error(`No Pyth price feed configured for ${tokenMint}`);
+		}
+
+		const accountInfo = await this.connection.getAccountInfo(
+			new PublicKey(feedAddress)
+		);
+
+		if (!accountInfo) {
+			throw new Error("Pyth price feed not found");
+		}
+
+		return this.parsePythPrice(accountInfo.data);
+	}
+
+	/**
+	 * Decode a Pyth price account and reject unusable prices
+	 */
+	parsePythPrice(data: Buffer, now: number = Date.now()): PriceData {
+		const account = parsePythPriceAccount(data);
+
+		if (account.status !== "trading") {
+			throw new Error(`Pyth price not trading (status: ${account.status})`);
+		}
+
+		if (account.price <= 0) {
+			throw new Error("Pyth price not available");
+		}
+
+		const age = Math.floor(now / 1000) - account.publishTime;
+		if (age > this.maxStalenessSeconds) {
+			throw new Error(
+				`Pyth price is stale (published ${age}s ago, max ${this.maxStalenessSeconds}s)`
+			);
+		}
+
+		const confidenceRatio = account.confidence / account.price;
+		if (confidenceRatio > this.maxConfidenceRatio) {
+			throw new Error(
+				`Pyth confidence interval too wide (${(confidenceRatio * 100).toFixed(2)}% of price)`
+			);
+		}
+
+		return {
+			price: account.price,
+			timestamp: account.publishTime * 1000,
+			source: this.name,
+			confidence: account.confidence,
+		};
+	}
+}
+
+/**
+ * Thrown in quorum mode when providers disagree beyond the tolerance
+ */
+export class PriceQuorumError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "PriceQuorumError";
+	}
+}
+
+export interface PriceProviderChainOptions {
+	quorumEnabled?: boolean;
+	quorumTolerance?: number; // Max relative deviation from the median, e.g. 0.02 for 2%
+	quorumMinProviders?: number;
+}
+
+/**
+ * Ordered provider chain
+ * Without quorum the first provider to answer wins. With quorum every
+ * provider is queried, and the answer of the highest-priority provider is
+ * only accepted when all answers sit within the tolerance of their median.
+ */
+export class PriceProviderChain {
+	private providers: PriceProvider[];
+	private quorumEnabled: boolean;
+	private quorumTolerance: number;
+	private quorumMinProviders: number;
+
+	constructor(
+		providers: PriceProvider[],
+		options: PriceProviderChainOptions = {}
+	) {
+		if (providers.length === 0) {
+			throw new Error("At least one price provider is required");
+		}
+
+		this.providers = providers;
+		this.quorumEnabled = options.quorumEnabled ?? false;
+		this.quorumTolerance = options.quorumTolerance ?? 0.02;
+		this.quorumMinProviders = options.quorumMinProviders ?? 2;
+	}
+
+	async getPrice(tokenMint: string): Promise<PriceData> {
+		return this.quorumEnabled
+			? this.getQuorumPrice(tokenMint)
+			: this.getFirstPrice(tokenMint);
+	}
+
+	private async getFirstPrice(tokenMint: string): Promise<PriceData> {
+		const errors: string[] = [];
+
+		for (const provider of this.providers) {
+			try {
+				return await provider.getPrice(tokenMint);
+			} catch (error) {
+				errors.push(
+					`${provider.name}: ${
+						error instanceof Error ? error.message : String(error)
+					}`
+				);
+			}
+		}
+
+		throw new Error(
+			`All price providers failed for ${tokenMint} (${errors.join("; ")})`
+		);
+	}
+
+	private async getQuorumPrice(tokenMint: string): Promise<PriceData> {
+		const results = await Promise.allSettled(
+			this.providers.map((provider) => provider.getPrice(tokenMint))
+		);
+
+		// Preserve chain order so the first answer is the highest priority
+		const answers: PriceData[] = [];
+		for (const result of results) {
+			if (result.status === "fulfilled") {
+				answers.push(result.value);
+			}
+		}
+
+		if (answers.length < this.quorumMinProviders) {
+			throw new PriceQuorumError(
+				`Price quorum not reached for ${tokenMint}: ${answers.length} of ${this.quorumMinProviders} providers answered`
+			);
+		}
+
+		const sorted = answers.map((answer) => answer.price).sort((a, b) => a - b);
+		const middle = Math.floor(sorted.length / 2);
+		const median =
+			sorted.length % 2 === 0
+				? (sorted[middle - 1] + sorted[middle]) / 2
+				: sorted[middle];
+
+		for (const answer of answers) {
+			const deviation = Math.abs(answer.price - median) / median;
+			if (deviation > this.quorumTolerance) {
+				throw new PriceQuorumError(
+					`Price providers disagree for ${tokenMint}: ${answer.source} reported ${answer.price}, median ${median} (tolerance ${this.quorumTolerance * 100}%)`
+				);
+			}
+		}
+
+		return answers[0];
+	}
+}
@@ -1,54 +1,49 @@
 /**
  * Spare change proposal engine
- * Generates round-up and percentage-based contribution proposals
+ * Generates round-up and percentage-based contribution proposals from the
+ * round-ups calculated by the round-up pipeline, so proposal amounts always
+ * match the dashboard
  */
 
-import { TransactionDetails } from './transaction-fetcher';
-import { PriceOracle } from './price-oracle';
-import { CreateContributionProposal } from '../db/types';
+import type { RoundupCalculation } from './roundup-calculator';
+import { CreateContributionProposal, PriceSource } from '../db/types';
 
 export interface ProposalConfig {
   roundupEnabled: boolean;
   percentageEnabled: boolean;
   percentageRate: number; // e.g., 1.0 for 1%
-  minProposalAmount?: number; // Minimum amount in SOL to create a proposal
-  maxProposalAmount?: number; // Maximum amount in SOL for a single proposal
+  minProposalAmount?: number; // Minimum amount in USD to create a proposal
+  maxProposalAmount?: number; // Maximum amount in USD for a single proposal
 }
 
 export interface ProposalResult {
   proposals: CreateContributionProposal[];
-  totalSpareChange: number;
+  totalSpareChange: number; // In transaction token units
   totalSpareChangeUsd: number;
 }
 
-export class ProposalEngine {
-  private priceOracle: PriceOracle;
+export const DEFAULT_MIN_PROPOSAL_USD = 0.01; // Minimum $0.01
+export const DEFAULT_MAX_PROPOSAL_USD = 1.0; // Maximum $1.00 per proposal
 
-  constructor() {
-    this.priceOracle = new PriceOracle();
-  }
+const PRICE_SOURCES: PriceSource[] = ['pyth', 'jupiter', 'coingecko', 'stablecoin', 'manual'];
 
+export class ProposalEngine {
   /**
-   * Generate proposals from transactions
+   * Generate proposals from calculated round-ups
    */
-  async generateProposals(
-    transactions: TransactionDetails[],
+  generateProposals(
+    roundups: RoundupCalculation[],
     walletAddress: string,
     config: ProposalConfig
-  ): Promise<ProposalResult> {
+  ): ProposalResult {
     const proposals: CreateContributionProposal[] = [];
     let totalSpareChange = 0;
     let totalSpareChangeUsd = 0;
 
-    // Only process 'sent' transactions (outgoing payments)
-    const sentTransactions = transactions.filter(tx => tx.type === 'sent' && tx.success && tx.amount);
-
-    for (const tx of sentTransactions) {
-      if (!tx.amount) continue;
-
+    for (const roundup of roundups) {
       // Generate round-up proposal
       if (config.roundupEnabled) {
-        const roundupProposal = await this.generateRoundupProposal(tx, walletAddress, config);
+        const roundupProposal = this.generateRoundupProposal(roundup, walletAddress, config);
         if (roundupProposal) {
           proposals.push(roundupProposal);
           totalSpareChange += roundupProposal.spareChangeAmountSol;
@@ -58,8 +53,8 @@ export class ProposalEngine {
 
       // Generate percentage-based proposal
       if (config.percentageEnabled && config.percentageRate > 0) {
-        const percentageProposal = await this.generatePercentageProposal(
-          tx,
+        const percentageProposal = this.generatePercentageProposal(
+          roundup,
           walletAddress,
           config
         );
@@ -80,170 +75,123 @@ export class ProposalEngine {
 
   /**
    * Generate a round-up proposal for a transaction
-   * Rounds up to the nearest whole number (e.g., 0.5 SOL -> 1.0 SOL, spare = 0.5 SOL)
+   * Uses the round-up to the nearest whole USD dollar calculated by the pipeline
+   * (e.g., $200.80 -> $201.00, spare = $0.20)
    */
-  private async generateRoundupProposal(
-    tx: TransactionDetails,
+  private generateRoundupProposal(
+    roundup: RoundupCalculation,
     walletAddress: string,
     config: ProposalConfig
-  ): Promise<CreateContributionProposal | null> {
-    if (!tx.amount) return null;
+  ): CreateContributionProposal | null {
+    const priced = roundup.price_status !== 'unpriced';
+    const spareChangeUsd = priced ? roundup.round_up_value : undefined;
 
-    const amount = tx.amount;
-    const roundedUp = Math.ceil(amount);
-    const spareChange = roundedUp - amount;
-
-    // Skip if spare change is too small
-    if (config.minProposalAmount && spareChange < config.minProposalAmount) {
+    // Skip if spare change is too small (unpriced round-ups are kept for review)
+    if (priced && config.minProposalAmount && roundup.round_up_value < config.minProposalAmount) {
       return null;
     }
 
-    // Cap at max amount
-    const finalSpareChange = config.maxProposalAmount
-      ? Math.min(spareChange, config.maxProposalAmount)
-      : spareChange;
-
-    // Get price at block time
-    const priceData = await this.priceOracle.getHistoricalPrice({
-      tokenMint: tx.tokenMint,
-      blockTime: tx.blockTime,
-      slot: tx.slot,
-    });
-
-    // Calculate USD values
-    const originalAmountUsd = amount * priceData.price;
-    const spareChangeUsd = finalSpareChange * priceData.price;
-
-    const proposal: CreateContributionProposal = {
-      walletAddress,
-      transactionSignature: tx.signature,
-      transactionTimestamp: tx.timestamp,
-      transactionSlot: tx.slot,
-      originalAmountSol: amount,
-      originalAmountUsd,
-      tokenMint: tx.tokenMint,
-      tokenSymbol: tx.tokenSymbol || (tx.tokenMint ? undefined : 'SOL'),
-      solPriceUsd: tx.tokenMint ? undefined : priceData.price,
-      tokenPriceUsd: tx.tokenMint ? priceData.price : undefined,
-      priceSource: priceData.source === 'cached' ? 'jupiter' : priceData.source,
-      proposalType: 'roundup',
-      spareChangeAmountSol: finalSpareChange,
-      spareChangeAmountUsd: spareChangeUsd,
-      status: 'pending',
-    };
-
-    return proposal;
+    return this.buildProposal(roundup, walletAddress, 'roundup', spareChangeUsd, config);
   }
 
   /**
    * Generate a percentage-based proposal for a transaction
-   * Calculates a percentage of the transaction amount (e.g., 1% of 10 SOL = 0.1 SOL)
+   * Calculates a percentage of the transaction's USD value (e.g., 1% of $10 = $0.10)
    */
-  private async generatePercentageProposal(
-    tx: TransactionDetails,
+  private generatePercentageProposal(
+    roundup: RoundupCalculation,
     walletAddress: string,
     config: ProposalConfig
-  ): Promise<CreateContributionProposal | null> {
-    if (!tx.amount || !config.percentageRate) return null;
+  ): CreateContributionProposal | null {
+    if (!config.percentageRate) return null;
 
-    const amount = tx.amount;
-    const spareChange = amount * (config.percentageRate / 100);
+    const priced = roundup.price_status !== 'unpriced';
+    const spareChangeUsd = priced ? roundup.usd_value * (config.percentageRate / 100) : undefined;
 
-    // Skip if spare change is too small
-    if (config.minProposalAmount && spareChange < config.minProposalAmount) {
+    // Skip if spare change is too small (unpriced round-ups are kept for review)
+    if (spareChangeUsd !== undefined && config.minProposalAmount && spareChangeUsd < config.minProposalAmount) {
       return null;
     }
 
-    // Cap at max amount
-    const finalSpareChange = config.maxProposalAmount
-      ? Math.min(spareChange, config.maxProposalAmount)
-      : spareChange;
-
-    // Get price at block time
-    const priceData = await this.priceOracle.getHistoricalPrice({
-      tokenMint: tx.tokenMint,
-      blockTime: tx.blockTime,
-      slot: tx.slot,
-    });
+    const proposal = this.buildProposal(roundup, walletAddress, 'percentage', spareChangeUsd, config);
+    proposal.percentageRate = config.percentageRate;
+    return proposal;
+  }
 
-    // Calculate USD values
-    const originalAmountUsd = amount * priceData.price;
-    const spareChangeUsd = finalSpareChange * priceData.price;
+  /**
+   * Build a proposal from a round-up, capping the USD spare change and
+   * expressing it in the transaction's token units as well
+   */
+  private buildProposal(
+    roundup: RoundupCalculation,
+    walletAddress: string,
+    proposalType: CreateContributionProposal['proposalType'],
+    spareChangeUsd: number | undefined,
+    config: ProposalConfig
+  ): CreateContributionProposal {
+    const finalSpareChangeUsd =
+      spareChangeUsd !== undefined && config.maxProposalAmount
+        ? Math.min(spareChangeUsd, config.maxProposalAmount)
+        : spareChangeUsd;
+
+    const priced = roundup.price_status !== 'unpriced';
+    // The stored unit price of the proposal's token; usd_value / token_amount
+    // would mix in every other asset the transaction spent
+    const outflow = roundup.outflows.find(
+      (candidate) => candidate.token_mint === roundup.token_mint && candidate.token === roundup.token
+    );
+    const tokenPrice = outflow?.unit_price ?? undefined;
+    const isSol = roundup.token === 'SOL';
 
-    const proposal: CreateContributionProposal = {
+    return {
       walletAddress,
-      transactionSignature: tx.signature,
-      transactionTimestamp: tx.timestamp,
-      transactionSlot: tx.slot,
-      originalAmountSol: amount,
-      originalAmountUsd,
-      tokenMint: tx.tokenMint,
-      tokenSymbol: tx.tokenSymbol || (tx.tokenMint ? undefined : 'SOL'),
-      solPriceUsd: tx.tokenMint ? undefined : priceData.price,
-      tokenPriceUsd: tx.tokenMint ? priceData.price : undefined,
-      priceSource: priceData.source === 'cached' ? 'jupiter' : priceData.source,
-      proposalType: 'percentage',
-      percentageRate: config.percentageRate,
-      spareChangeAmountSol: finalSpareChange,
-      spareChangeAmountUsd: spareChangeUsd,
+      transactionSignature: roundup.transaction_id,
+      transactionTimestamp: new Date(roundup.transaction_date),
+      originalAmountSol: roundup.token_amount,
+      originalAmountUsd: priced ? roundup.usd_value : undefined,
+      tokenMint: roundup.token_mint || undefined,
+      tokenSymbol: roundup.token,
+      solPriceUsd: isSol ? tokenPrice : undefined,
+      tokenPriceUsd: isSol ? undefined : tokenPrice,
+      priceSource: PRICE_SOURCES.find((source) => source === outflow?.price_source),
+      priceStatus: roundup.price_status,
+      proposalType,
+      spareChangeAmountSol:
+        finalSpareChangeUsd !== undefined && tokenPrice ? finalSpareChangeUsd / tokenPrice : 0,
+      spareChangeAmountUsd:
+        finalSpareChangeUsd !== undefined ? parseFloat(finalSpareChangeUsd.toFixed(2)) : undefined,
       status: 'pending',
     };
-
-    return proposal;
   }
 
   /**
-   * Calculate spare change summary for a set of transactions
+   * Calculate spare change summary (USD) for a set of round-ups
    * Useful for previewing without creating proposals
    */
-  async calculateSpareChangeSummary(
-    transactions: TransactionDetails[],
+  calculateSpareChangeSummary(
+    roundups: RoundupCalculation[],
     config: ProposalConfig
-  ): Promise<{
+  ): {
     roundupTotal: number;
     percentageTotal: number;
     total: number;
     transactionCount: number;
-  }> {
-    const sentTransactions = transactions.filter(tx => tx.type === 'sent' && tx.success && tx.amount);
+  } {
+    const { proposals } = this.generateProposals(roundups, '', config);
 
-    let roundupTotal = 0;
-    let percentageTotal = 0;
+    const sum = (type: CreateContributionProposal['proposalType']) =>
+      proposals
+        .filter((proposal) => proposal.proposalType === type)
+        .reduce((total, proposal) => total + (proposal.spareChangeAmountUsd || 0), 0);
 
-    for (const tx of sentTransactions) {
-      if (!tx.amount) continue;
-
-      // Calculate round-up
-      if (config.roundupEnabled) {
-        const roundedUp = Math.ceil(tx.amount);
-        const spareChange = roundedUp - tx.amount;
-        const finalSpareChange = config.maxProposalAmount
-          ? Math.min(spareChange, config.maxProposalAmount)
-          : spareChange;
-
-        if (!config.minProposalAmount || finalSpareChange >= config.minProposalAmount) {
-          roundupTotal += finalSpareChange;
-        }
-      }
-
-      // Calculate percentage
-      if (config.percentageEnabled && config.percentageRate > 0) {
-        const spareChange = tx.amount * (config.percentageRate / 100);
-        const finalSpareChange = config.maxProposalAmount
-          ? Math.min(spareChange, config.maxProposalAmount)
-          : spareChange;
-
-        if (!config.minProposalAmount || finalSpareChange >= config.minProposalAmount) {
-          percentageTotal += finalSpareChange;
-        }
-      }
-    }
+    const roundupTotal = sum('roundup');
+    const percentageTotal = sum('percentage');
 
     return {
       roundupTotal,
       percentageTotal,
       total: roundupTotal + percentageTotal,
-      transactionCount: sentTransactions.length,
+      transactionCount: roundups.length,
     };
   }
 }
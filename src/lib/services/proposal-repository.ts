@@ -0,0 +1,641 @@
+/**
+ * Proposal Repository
+ * Persists contribution proposals in Supabase and moves them through their
+ * lifecycle (pending → accepted/rejected → executing → executed)
+ */
+
+import { createServerClient } from '../supabase/client';
+import { getInvestmentRepository } from './investment-repository';
+import { DEFAULT_MAX_PROPOSAL_USD, ProposalEngine } from './proposal-engine';
+import { getRoundupCalculator, type RoundupCalculation } from './roundup-calculator';
+import type {
+  ContributionProposalRecord,
+  CreateContributionProposalRecord,
+} from '../supabase/types';
+import type {
+  ContributionProposal,
+  CreateContributionProposal,
+  PriceSource,
+  ProposalStatus,
+} from '../db/types';
+
+// Allowed status transitions; executed proposals are final. Execution
+// claims proposals as 'executing' first, so two requests cannot deposit
+// the same proposals, and moves them back to 'accepted' if it fails.
+export const PROPOSAL_TRANSITIONS: Record<ProposalStatus, ProposalStatus[]> = {
+  pending: ['accepted', 'rejected'],
+  accepted: ['pending', 'rejected', 'executing'],
+  rejected: ['pending'],
+  executing: ['accepted', 'executed'],
+  executed: [],
+};
+
+/**
+ * Thrown when a proposal cannot move to the requested status
+ */
+export class ProposalTransitionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProposalTransitionError';
+  }
+}
+
+export interface ListProposalsOptions {
+  status?: ProposalStatus | ProposalStatus[];
+  limit?: number;
+  offset?: number;
+}
+
+export interface UpsertProposalsResult {
+  inserted: number; // Proposals that did not exist before
+  proposals: ContributionProposal[]; // Stored state of every requested proposal
+}
+
+export interface ExecutionDetails {
+  executionSignature?: string;
+  executionError?: string;
+}
+
+export interface ReconcileExecutingResult {
+  executed: number;
+  released: number; // Returned to 'accepted'
+}
+
+const UNIQUE_PROPOSAL_COLUMNS = 'wallet_address,transaction_signature,proposal_type';
+
+// Proposals left 'executing' this long were abandoned by a request that
+// failed after claiming them; a live request has settled its deposit by then
+const STUCK_EXECUTION_MS = 10 * 60 * 1000;
+
+// Unpriced proposals in these statuses take a price once their round-up has
+// one; executing and executed proposals are settled
+const REPRICEABLE_STATUSES: ProposalStatus[] = ['pending', 'accepted', 'rejected'];
+
+function proposalKey(proposal: { walletAddress: string; transactionSignature: string; proposalType: string }): string {
+  return `${proposal.walletAddress}:${proposal.transactionSignature}:${proposal.proposalType}`;
+}
+
+function toRecord(proposal: CreateContributionProposal): CreateContributionProposalRecord {
+  return {
+    wallet_address: proposal.walletAddress,
+    transaction_signature: proposal.transactionSignature,
+    transaction_timestamp: proposal.transactionTimestamp.toISOString(),
+    transaction_slot: proposal.transactionSlot ?? null,
+    original_amount_sol: proposal.originalAmountSol,
+    original_amount_usd: proposal.originalAmountUsd ?? null,
+    token_mint: proposal.tokenMint ?? null,
+    token_symbol: proposal.tokenSymbol ?? null,
+    sol_price_usd: proposal.solPriceUsd ?? null,
+    token_price_usd: proposal.tokenPriceUsd ?? null,
+    price_source: proposal.priceSource ?? null,
+    price_status: proposal.priceStatus,
+    proposal_type: proposal.proposalType,
+    percentage_rate: proposal.percentageRate ?? null,
+    spare_change_amount_sol: proposal.spareChangeAmountSol,
+    spare_change_amount_usd: proposal.spareChangeAmountUsd ?? null,
+    status: proposal.status,
+    execution_signature: proposal.executionSignature ?? null,
+    execution_timestamp: proposal.executionTimestamp?.toISOString() ?? null,
+    execution_error: proposal.executionError ?? null,
+    notes: proposal.notes ?? null,
+  };
+}
+
+function optionalNumber(value: number | string | null): number | undefined {
+  return value === null ? undefined : Number(value);
+}
+
+function fromRecord(record: ContributionProposalRecord): ContributionProposal {
+  return {
+    id: record.id,
+    walletAddress: record.wallet_address,
+    transactionSignature: record.transaction_signature,
+    transactionTimestamp: new Date(record.transaction_timestamp),
+    transactionSlot: optionalNumber(record.transaction_slot),
+    originalAmountSol: Number(record.original_amount_sol),
+    originalAmountUsd: optionalNumber(record.original_amount_usd),
+    tokenMint: record.token_mint ?? undefined,
+    tokenSymbol: record.token_symbol ?? undefined,
+    solPriceUsd: optionalNumber(record.sol_price_usd),
+    tokenPriceUsd: optionalNumber(record.token_price_usd),
+    priceSource: (record.price_source as PriceSource | null) ?? undefined,
+    priceStatus: record.price_status,
+    proposalType: record.proposal_type,
+    percentageRate: optionalNumber(record.percentage_rate),
+    spareChangeAmountSol: Number(record.spare_change_amount_sol),
+    spareChangeAmountUsd: optionalNumber(record.spare_change_amount_usd),
+    status: record.status,
+    executionSignature: record.execution_signature ?? undefined,
+    executionTimestamp: record.execution_timestamp ? new Date(record.execution_timestamp) : undefined,
+    executionError: record.execution_error ?? undefined,
+    createdAt: new Date(record.created_at),
+    updatedAt: new Date(record.updated_at),
+    notes: record.notes ?? undefined,
+  };
+}
+
+export class ProposalRepository {
+  private supabase;
+
+  constructor() {
+    this.supabase = createServerClient();
+  }
+
+  /**
+   * Save generated proposals
+   * Idempotent on (wallet_address, transaction_signature, proposal_type):
+   * proposals that already exist keep their stored status and values, except
+   * that unpriced ones take the pricing of a now priced proposal
+   * @param proposals Proposals to save
+   * @returns Number of newly inserted proposals and the stored proposals
+   */
+  async upsertProposals(
+    proposals: CreateContributionProposal[]
+  ): Promise<UpsertProposalsResult> {
+    if (proposals.length === 0) {
+      return { inserted: 0, proposals: [] };
+    }
+
+    try {
+      const { data: inserted, error } = await this.supabase
+        .from('contribution_proposals')
+        .upsert(proposals.map(toRecord), {
+          onConflict: UNIQUE_PROPOSAL_COLUMNS,
+          ignoreDuplicates: true,
+        })
+        .select('id');
+
+      if (error) throw error;
+
+      // Read back every proposal, including ones that already existed
+      let stored = await this.getStoredProposals(proposals);
+
+      // Stored proposals still waiting for a price take the new pricing
+      const requested = new Map(proposals.map((proposal) => [proposalKey(proposal), proposal]));
+      const repriced = stored.flatMap((proposal) => {
+        const fresh = requested.get(proposalKey(proposal));
+        return proposal.priceStatus === 'unpriced' &&
+          REPRICEABLE_STATUSES.includes(proposal.status) &&
+          fresh &&
+          fresh.priceStatus !== 'unpriced'
+          ? [fresh]
+          : [];
+      });
+      if (repriced.length > 0 && (await this.updatePricing(repriced)) > 0) {
+        stored = await this.getStoredProposals(proposals);
+      }
+
+      return {
+        inserted: inserted?.length || 0,
+        proposals: stored,
+      };
+    } catch (error) {
+      console.error('Error saving proposals:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Price the stored proposals of a round-up that has just been priced,
+   * e.g. manually. Each unpriced proposal is regenerated from the round-up
+   * with its own type and percentage rate.
+   * @param walletAddress Wallet address
+   * @param roundup Round-up calculation of the proposals' transaction
+   * @returns Number of proposals repriced
+   */
+  async repriceFromRoundup(walletAddress: string, roundup: RoundupCalculation): Promise<number> {
+    if (roundup.price_status === 'unpriced') return 0;
+
+    try {
+      const { data, error } = await this.supabase
+        .from('contribution_proposals')
+        .select('*')
+        .eq('wallet_address', walletAddress)
+        .eq('transaction_signature', roundup.transaction_id)
+        .eq('price_status', 'unpriced')
+        .in('status', REPRICEABLE_STATUSES);
+
+      if (error) throw error;
+
+      const engine = new ProposalEngine();
+      const repriced = (data || []).map(fromRecord).flatMap((proposal) =>
+        engine.generateProposals([roundup], walletAddress, {
+          roundupEnabled: proposal.proposalType === 'roundup',
+          percentageEnabled: proposal.proposalType === 'percentage',
+          percentageRate: proposal.percentageRate ?? 0,
+          maxProposalAmount: DEFAULT_MAX_PROPOSAL_USD,
+        }).proposals
+      );
+
+      return await this.updatePricing(repriced);
+    } catch (error) {
+      console.error('Error repricing proposals:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Stored state of the given proposals, newest transaction first
+   */
+  private async getStoredProposals(
+    proposals: CreateContributionProposal[]
+  ): Promise<ContributionProposal[]> {
+    const walletAddresses = Array.from(new Set(proposals.map((p) => p.walletAddress)));
+    const signatures = Array.from(new Set(proposals.map((p) => p.transactionSignature)));
+
+    const { data: stored, error } = await this.supabase
+      .from('contribution_proposals')
+      .select('*')
+      .in('wallet_address', walletAddresses)
+      .in('transaction_signature', signatures)
+      .order('transaction_timestamp', { ascending: false });
+
+    if (error) throw error;
+
+    const requested = new Set(proposals.map(proposalKey));
+    return (stored || []).map(fromRecord).filter((proposal) => requested.has(proposalKey(proposal)));
+  }
+
+  /**
+   * Copy the pricing of priced proposals onto their stored, still unpriced
+   * counterparts. Status and execution details are left alone.
+   * @returns Number of proposals updated
+   */
+  private async updatePricing(proposals: CreateContributionProposal[]): Promise<number> {
+    let updated = 0;
+
+    for (const proposal of proposals) {
+      const record = toRecord(proposal);
+      const { data, error } = await this.supabase
+        .from('contribution_proposals')
+        .update({
+          original_amount_sol: record.original_amount_sol,
+          original_amount_usd: record.original_amount_usd,
+          token_mint: record.token_mint,
+          token_symbol: record.token_symbol,
+          sol_price_usd: record.sol_price_usd,
+          token_price_usd: record.token_price_usd,
+          price_source: record.price_source,
+          price_status: record.price_status,
+          spare_change_amount_sol: record.spare_change_amount_sol,
+          spare_change_amount_usd: record.spare_change_amount_usd,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('wallet_address', proposal.walletAddress)
+        .eq('transaction_signature', proposal.transactionSignature)
+        .eq('proposal_type', proposal.proposalType)
+        .eq('price_status', 'unpriced')
+        .in('status', REPRICEABLE_STATUSES)
+        .select('id');
+
+      if (error) throw error;
+      updated += data?.length || 0;
+    }
+
+    return updated;
+  }
+
+  /**
+   * List proposals for a wallet, newest transaction first
+   * @param walletAddress Wallet address
+   * @param options Optional status filter and pagination
+   */
+  async listProposals(
+    walletAddress: string,
+    options: ListProposalsOptions = {}
+  ): Promise<ContributionProposal[]> {
+    const { status, limit = 100, offset = 0 } = options;
+
+    try {
+      let query = this.supabase
+        .from('contribution_proposals')
+        .select('*')
+        .eq('wallet_address', walletAddress);
+
+      if (status) {
+        query = query.in('status', Array.isArray(status) ? status : [status]);
+      }
+
+      const { data, error } = await query
+        .order('transaction_timestamp', { ascending: false })
+        .range(offset, offset + limit - 1);
+
+      if (error) throw error;
+      return (data || []).map(fromRecord);
+    } catch (error) {
+      console.error('Error listing proposals:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get proposals by ID, scoped to a wallet
+   * @param walletAddress Wallet address
+   * @param ids Proposal IDs
+   */
+  async getProposalsByIds(walletAddress: string, ids: number[]): Promise<ContributionProposal[]> {
+    if (ids.length === 0) return [];
+
+    try {
+      const { data, error } = await this.supabase
+        .from('contribution_proposals')
+        .select('*')
+        .eq('wallet_address', walletAddress)
+        .in('id', ids);
+
+      if (error) throw error;
+      return (data || []).map(fromRecord);
+    } catch (error) {
+      console.error('Error fetching proposals:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Check that every proposal exists and may move to the given status
+   * @param walletAddress Wallet address owning the proposals
+   * @param ids Proposal IDs
+   * @param status Target status
+   * @returns The proposals in their current state
+   */
+  async assertTransition(
+    walletAddress: string,
+    ids: number[],
+    status: ProposalStatus
+  ): Promise<ContributionProposal[]> {
+    const uniqueIds = Array.from(new Set(ids));
+    const existing = await this.getProposalsByIds(walletAddress, uniqueIds);
+
+    const found = new Set(existing.map((proposal) => proposal.id));
+    const missing = uniqueIds.filter((id) => !found.has(id));
+    if (missing.length > 0) {
+      throw new ProposalTransitionError(`Proposals not found: ${missing.join(', ')}`);
+    }
+
+    const invalid = existing.filter(
+      (proposal) => !PROPOSAL_TRANSITIONS[proposal.status].includes(status)
+    );
+    if (invalid.length > 0) {
+      throw new ProposalTransitionError(
+        `Cannot move proposals to ${status}: ${invalid
+          .map((proposal) => `#${proposal.id} is ${proposal.status}`)
+          .join(', ')}`
+      );
+    }
+
+    return existing;
+  }
+
+  /**
+   * Move proposals to a new status
+   * Fails without changing anything when a proposal is missing or the
+   * transition is not allowed from its current status
+   * @param walletAddress Wallet address owning the proposals
+   * @param ids Proposal IDs
+   * @param status Target status
+   * @param execution Execution signature or error to record alongside the status
+   */
+  async transitionStatus(
+    walletAddress: string,
+    ids: number[],
+    status: ProposalStatus,
+    execution: ExecutionDetails = {}
+  ): Promise<ContributionProposal[]> {
+    const uniqueIds = Array.from(new Set(ids));
+    await this.assertTransition(walletAddress, uniqueIds, status);
+
+    const allowedFrom = (Object.keys(PROPOSAL_TRANSITIONS) as ProposalStatus[]).filter((from) =>
+      PROPOSAL_TRANSITIONS[from].includes(status)
+    );
+    const now = new Date().toISOString();
+
+    try {
+      // Guard on the current status so concurrent transitions cannot race
+      const { data, error } = await this.supabase
+        .from('contribution_proposals')
+        .update({
+          status,
+          updated_at: now,
+          ...(status === 'executed' ? { execution_timestamp: now } : {}),
+          ...(execution.executionSignature !== undefined
+            ? { execution_signature: execution.executionSignature }
+            : {}),
+          ...(execution.executionError !== undefined
+            ? { execution_error: execution.executionError }
+            : status === 'executed'
+              ? { execution_error: null }
+              : {}),
+        })
+        .eq('wallet_address', walletAddress)
+        .in('id', uniqueIds)
+        .in('status', allowedFrom)
+        .select();
+
+      if (error) throw error;
+
+      if ((data || []).length !== uniqueIds.length) {
+        throw new ProposalTransitionError(
+          `Proposals changed status while moving to ${status}; please retry`
+        );
+      }
+
+      return (data || []).map(fromRecord);
+    } catch (error) {
+      console.error('Error updating proposal status:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Record the signature of a confirmed deposit on proposals still claimed as
+   * 'executing', so reconciliation can finish moving them if the request
+   * that sent it could not
+   * @param walletAddress Wallet address owning the proposals
+   * @param ids Proposal IDs
+   * @param executionSignature Deposit signature
+   */
+  async recordExecutionSignature(
+    walletAddress: string,
+    ids: number[],
+    executionSignature: string
+  ): Promise<void> {
+    try {
+      const { error } = await this.supabase
+        .from('contribution_proposals')
+        .update({
+          execution_signature: executionSignature,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('wallet_address', walletAddress)
+        .in('id', ids)
+        .eq('status', 'executing');
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error recording proposal execution signature:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Signatures of the deposits that invested the round-ups of the given
+   * transactions, by transaction signature
+   * Transactions whose round-up is not invested are left out; an invested
+   * round-up whose investment was not recorded maps to null
+   * @param walletAddress Wallet address
+   * @param transactionSignatures Transaction signatures of the proposals
+   */
+  async getInvestedDeposits(
+    walletAddress: string,
+    transactionSignatures: string[]
+  ): Promise<Map<string, string | null>> {
+    const roundups = await getRoundupCalculator().getRoundupsByTransactionIds(
+      walletAddress,
+      Array.from(new Set(transactionSignatures))
+    );
+
+    const investments = getInvestmentRepository();
+    const signatures = new Map<number, string | null>();
+    const deposits = new Map<string, string | null>();
+
+    for (const roundup of roundups) {
+      if (roundup.status !== 'invested') continue;
+
+      const investmentId = roundup.investment_id;
+      if (investmentId !== null && !signatures.has(investmentId)) {
+        const investment = await investments.getById(investmentId);
+        signatures.set(investmentId, investment?.signature ?? null);
+      }
+      deposits.set(
+        roundup.transaction_id,
+        investmentId === null ? null : signatures.get(investmentId) ?? null
+      );
+    }
+
+    return deposits;
+  }
+
+  /**
+   * Move 'executing' proposals to 'executed' with the deposits that invested
+   * them
+   * @param walletAddress Wallet address owning the proposals
+   * @param deposits Deposit signature by proposal ID (null when unknown)
+   * @returns The executed proposals
+   */
+  async markExecutedBy(
+    walletAddress: string,
+    deposits: Map<number, string | null>
+  ): Promise<ContributionProposal[]> {
+    const byDeposit = new Map<string | null, number[]>();
+    for (const [id, deposit] of deposits) {
+      byDeposit.set(deposit, [...(byDeposit.get(deposit) || []), id]);
+    }
+
+    const executed: ContributionProposal[] = [];
+    for (const [deposit, ids] of byDeposit) {
+      executed.push(
+        ...(await this.transitionStatus(walletAddress, ids, 'executed', {
+          executionSignature: deposit ?? undefined,
+        }))
+      );
+    }
+
+    return executed;
+  }
+
+  /**
+   * Settle proposals a failed request left 'executing'
+   * A proposal carrying a deposit signature, or whose round-up has been
+   * invested, moves to 'executed'; one whose round-up is back to pending
+   * returns to 'accepted'. Anything else is left for a later check, e.g.
+   * round-ups still waiting on an unconfirmed deposit.
+   * @param walletAddress Wallet address
+   */
+  async reconcileExecuting(walletAddress: string): Promise<ReconcileExecutingResult> {
+    const result: ReconcileExecutingResult = { executed: 0, released: 0 };
+    const cutoff = new Date(Date.now() - STUCK_EXECUTION_MS).toISOString();
+
+    const { data, error } = await this.supabase
+      .from('contribution_proposals')
+      .select('*')
+      .eq('wallet_address', walletAddress)
+      .eq('status', 'executing')
+      .lt('updated_at', cutoff);
+
+    if (error) throw error;
+
+    const stuck = (data || []).map(fromRecord);
+    if (stuck.length === 0) return result;
+
+    const signatures = stuck.map((proposal) => proposal.transactionSignature);
+    const invested = await this.getInvestedDeposits(walletAddress, signatures);
+    const roundups = await getRoundupCalculator().getRoundupsByTransactionIds(walletAddress, signatures);
+    const released = new Set(
+      roundups.filter((roundup) => roundup.status === 'pending').map((roundup) => roundup.transaction_id)
+    );
+
+    const deposits = new Map<number, string | null>();
+    const reopened: number[] = [];
+
+    for (const proposal of stuck) {
+      const deposit = proposal.executionSignature ?? invested.get(proposal.transactionSignature);
+      if (deposit !== undefined) {
+        deposits.set(proposal.id, deposit);
+      } else if (released.has(proposal.transactionSignature)) {
+        reopened.push(proposal.id);
+      }
+    }
+
+    result.executed = (await this.markExecutedBy(walletAddress, deposits)).length;
+
+    if (reopened.length > 0) {
+      await this.transitionStatus(walletAddress, reopened, 'accepted', {
+        executionError: 'Execution was interrupted and no deposit went through',
+      });
+      result.released += reopened.length;
+    }
+
+    return result;
+  }
+
+  /**
+   * Record a failed execution attempt without changing proposal status
+   * @param walletAddress Wallet address owning the proposals
+   * @param ids Proposal IDs
+   * @param executionError Error message from the failed attempt
+   */
+  async recordExecutionError(
+    walletAddress: string,
+    ids: number[],
+    executionError: string
+  ): Promise<void> {
+    try {
+      const now = new Date().toISOString();
+
+      const { error } = await this.supabase
+        .from('contribution_proposals')
+        .update({
+          execution_error: executionError,
+          execution_timestamp: now,
+          updated_at: now,
+        })
+        .eq('wallet_address', walletAddress)
+        .in('id', ids);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error recording proposal execution error:', error);
+      throw error;
+    }
+  }
+}
+
+// Singleton instance
+let proposalRepositoryInstance: ProposalRepository | null = null;
+
+export function getProposalRepository(): ProposalRepository {
+  if (!proposalRepositoryInstance) {
+    proposalRepositoryInstance = new ProposalRepository();
+  }
+  return proposalRepositoryInstance;
+}
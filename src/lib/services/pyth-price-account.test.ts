@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { parsePythPriceAccount } from "./pyth-price-account";
+
+/**
+ * Build a v2 price account holding a SOL/USD aggregate price
+ */
+function buildPriceAccount(): Buffer {
+	const data = Buffer.alloc(240);
+	data.writeUInt32LE(0xa1b2c3d4, 0); // magic
+	data.writeUInt32LE(2, 4); // version
+	data.writeUInt32LE(3, 8); // price account
+	data.writeInt32LE(-8, 20); // exponent
+	data.writeBigUInt64LE(BigInt(268000005), 40); // valid slot
+	data.writeBigInt64LE(BigInt(1760000000), 96); // publish time
+	data.writeBigInt64LE(BigInt(16012345678), 208); // price
+	data.writeBigUInt64LE(BigInt(7500000), 216); // confidence
+	data.writeUInt32LE(1, 224); // trading
+	data.writeBigUInt64LE(BigInt(268000004), 232); // publish slot
+	return data;
+}
+
+describe("parsePythPriceAccount", () => {
+	it("decodes the aggregate price scaled by the exponent", () => {
+		const account = parsePythPriceAccount(buildPriceAccount());
+
+		expect(account).toEqual({
+			exponent: -8,
+			price: expect.closeTo(160.12345678, 8),
+			confidence: expect.closeTo(0.075, 8),
+			status: "trading",
+			publishTime: 1760000000,
+			publishSlot: 268000004,
+			validSlot: 268000005,
+		});
+	});
+
+	it("reports an unrecognised status as unknown", () => {
+		const data = buildPriceAccount();
+		data.writeUInt32LE(9, 224);
+
+		expect(parsePythPriceAccount(data).status).toBe("unknown");
+	});
+
+	it("rejects data that is not a v2 price account", () => {
+		expect(() => parsePythPriceAccount(Buffer.alloc(100))).toThrow(
+			"Pyth price account too small: 100 bytes"
+		);
+
+		const badMagic = buildPriceAccount();
+		badMagic.writeUInt32LE(0, 0);
+		expect(() => parsePythPriceAccount(badMagic)).toThrow("bad magic number");
+
+		const oldVersion = buildPriceAccount();
+		oldVersion.writeUInt32LE(1, 4);
+		expect(() => parsePythPriceAccount(oldVersion)).toThrow(
+			"Unsupported Pyth account version: 1"
+		);
+
+		const productAccount = buildPriceAccount();
+		productAccount.writeUInt32LE(2, 8);
+		expect(() => parsePythPriceAccount(productAccount)).toThrow(
+			"Not a Pyth price account (type 2)"
+		);
+	});
+});
@@ -0,0 +1,78 @@
+/**
+ * Decoder for on-chain Pyth v2 price accounts
+ * Mirrors the account layout used by @pythnetwork/client
+ */
+
+const PYTH_MAGIC = 0xa1b2c3d4;
+const PYTH_VERSION_2 = 2;
+const PYTH_ACCOUNT_TYPE_PRICE = 3;
+const PYTH_PRICE_ACCOUNT_MIN_SIZE = 240;
+
+export type PythPriceStatus = "unknown" | "trading" | "halted" | "auction" | "ignored";
+
+const PRICE_STATUSES: PythPriceStatus[] = [
+	"unknown",
+	"trading",
+	"halted",
+	"auction",
+	"ignored",
+];
+
+export interface PythPriceAccount {
+	exponent: number;
+	price: number; // Aggregate price, already scaled by the exponent
+	confidence: number; // Confidence interval, already scaled by the exponent
+	status: PythPriceStatus;
+	publishTime: number; // Unix seconds
+	publishSlot: number;
+	validSlot: number;
+}
+
+/**
+ * Decode a Pyth price account
+ * Throws when the data is not a v2 price account
+ */
+export function parsePythPriceAccount(data: Buffer): PythPriceAccount {
+	if (data.length < PYTH_PRICE_ACCOUNT_MIN_SIZE) {
+		throw new Error(
+			`Pyth price account too small: ${data.length} bytes`
+		);
+	}
+
+	const magic = data.readUInt32LE(0);
+	if (magic !== PYTH_MAGIC) {
+		throw new Error("Not a Pyth account (bad magic number)");
+	}
+
+	const version = data.readUInt32LE(4);
+	if (version !== PYTH_VERSION_2) {
+		throw new Error(`Unsupported Pyth account version: ${version}`);
+	}
+
+	const accountType = data.readUInt32LE(8);
+	if (accountType !== PYTH_ACCOUNT_TYPE_PRICE) {
+		throw new Error(`Not a Pyth price account (type ${accountType})`);
+	}
+
+	const exponent = data.readInt32LE(20);
+	const validSlot = Number(data.readBigUInt64LE(40));
+	const publishTime = Number(data.readBigInt64LE(96));
+
+	// Aggregate price info starts at offset 208
+	const rawPrice = Number(data.readBigInt64LE(208));
+	const rawConfidence = Number(data.readBigUInt64LE(216));
+	const statusCode = data.readUInt32LE(224);
+	const publishSlot = Number(data.readBigUInt64LE(232));
+
+	const scale = Math.pow(10, exponent);
+
+	return {
+		exponent,
+		price: rawPrice * scale,
+		confidence: rawConfidence * scale,
+		status: PRICE_STATUSES[statusCode] || "unknown",
+		publishTime,
+		publishSlot,
+		validSlot,
+	};
+}
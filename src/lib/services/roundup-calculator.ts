@@ -5,8 +5,13 @@
 
 import { createServerClient } from '../supabase/client';
 import { PriceOracle } from './price-oracle';
-import type { ParsedHeliusTransaction } from './helius-service';
-import type { RoundupRecord } from '../supabase/types';
+import { getTokenRegistry } from './token-registry';
+import type { WalletTransaction } from './transaction-source';
+import type { RoundupOutflow, RoundupRecord } from '../supabase/types';
+import type { PriceStatus, RoundupStatus } from '../db/types';
+
+// Smallest deposit worth sending to Jupiter Earn (USD)
+export const MIN_INVESTMENT_USD = 1.0;
 
 export interface RoundupCalculation {
   transaction_id: string;
@@ -17,6 +22,43 @@ export interface RoundupCalculation {
   usd_value: number;
   round_up_value: number;
   price_source: string;
+  price_status: PriceStatus;
+  outflows: RoundupOutflow[];
+}
+
+/**
+ * The calculation a stored round-up record was made from
+ */
+export function toRoundupCalculation(record: RoundupRecord): RoundupCalculation {
+  return {
+    transaction_id: record.transaction_id,
+    transaction_date: record.transaction_date,
+    token: record.token,
+    token_mint: record.token_mint,
+    token_amount: Number(record.token_amount),
+    usd_value: Number(record.usd_value),
+    round_up_value: Number(record.round_up_value),
+    price_source: record.price_source,
+    price_status: record.price_status,
+    outflows: record.outflows || [],
+  };
+}
+
+/**
+ * Distinct price sources of the priced outflows, joined with ','
+ */
+function joinPriceSources(outflows: RoundupOutflow[]): string {
+  const sources = new Set(
+    outflows.flatMap((outflow) => (outflow.price_source ? [outflow.price_source] : []))
+  );
+  return sources.size > 0 ? Array.from(sources).join(',') : 'none';
+}
+
+/**
+ * Summed USD value of the priced outflows
+ */
+function sumPricedValue(outflows: RoundupOutflow[]): number {
+  return outflows.reduce((sum, outflow) => sum + (outflow.usd_value ?? 0), 0);
 }
 
 export class RoundupCalculator {
@@ -46,54 +88,105 @@ export class RoundupCalculator {
   }
 
   /**
-   * Get USD price for a token
+   * Get USD price for a token at the time a transaction landed
    * @param token Token symbol (SOL, USDC, etc.)
    * @param tokenMint Token mint address
+   * @param blockTime Unix timestamp (seconds) of the transaction
    */
-  async getTokenPrice(token: string, tokenMint: string | null): Promise<number> {
+  async getTokenPrice(
+    token: string,
+    tokenMint: string | null,
+    blockTime: number
+  ): Promise<{ price: number; source: string }> {
     try {
-      // For SOL, use native SOL mint
-      if (token === 'SOL') {
-        const priceData = await this.priceOracle.getCurrentSolPrice();
-        return priceData.price;
-      }
-
-      // For stablecoins, return $1.00
-      if (token === 'USDC' || token === 'USDT') {
-        return 1.0;
+      // For stablecoins, return $1.00 (by mint; any token can call itself USDC)
+      if (getTokenRegistry().isStablecoin(tokenMint)) {
+        return { price: 1.0, source: 'stablecoin' };
       }
 
-      // For other tokens, fetch from price oracle
-      if (tokenMint) {
-        const priceData = await this.priceOracle.getCurrentTokenPrice(tokenMint);
-        return priceData.price;
+      // For SOL, the oracle defaults to the native SOL mint
+      if (token === 'SOL' || tokenMint) {
+        const priceData = await this.priceOracle.getHistoricalPrice({
+          tokenMint: token === 'SOL' ? undefined : tokenMint || undefined,
+          blockTime,
+        });
+        return { price: priceData.price, source: priceData.source };
       }
 
       // Fallback to 0 if we can't determine price
       console.warn(`Unable to determine price for token: ${token}`);
-      return 0;
+      return { price: 0, source: 'none' };
     } catch (error) {
       console.error('Error fetching token price:', error);
-      return 0;
+      return { price: 0, source: 'none' };
     }
   }
 
   /**
    * Process a single transaction and calculate round-up
+   * The USD value is the sum of every asset the wallet spent; network fees
+   * and token account rent are not part of the spend
    * @param transaction Parsed Helius transaction
    */
-  async processTransaction(transaction: ParsedHeliusTransaction): Promise<RoundupCalculation | null> {
+  async processTransaction(transaction: WalletTransaction): Promise<RoundupCalculation | null> {
     try {
-      // Get current token price
-      const tokenPrice = await this.getTokenPrice(transaction.token, transaction.tokenMint);
+      const transactionDate = new Date(transaction.timestamp * 1000).toISOString();
+      const outflows = transaction.outflows.length > 0
+        ? transaction.outflows
+        : [{
+            token: transaction.token,
+            tokenMint: transaction.tokenMint,
+            tokenDecimals: transaction.tokenDecimals,
+            amount: transaction.amount,
+            toAddress: transaction.toAddress,
+          }];
 
-      if (tokenPrice === 0) {
-        console.warn(`Skipping transaction ${transaction.signature} - unable to get price for ${transaction.token}`);
-        return null;
+      // Every asset is priced on its own so each keeps its unit price
+      const pricedOutflows: RoundupOutflow[] = [];
+      for (const outflow of outflows) {
+        // Get token price at block time
+        const tokenPrice = await this.getTokenPrice(
+          outflow.token,
+          outflow.tokenMint,
+          transaction.timestamp
+        );
+
+        const priced = tokenPrice.price > 0;
+        pricedOutflows.push({
+          token: outflow.token,
+          token_mint: outflow.tokenMint,
+          amount: outflow.amount,
+          unit_price: priced ? tokenPrice.price : null,
+          usd_value: priced ? outflow.amount * tokenPrice.price : null,
+          price_source: priced ? tokenPrice.source : null,
+        });
       }
 
-      // Calculate USD value
-      const usdValue = transaction.amount * tokenPrice;
+      const usdValue = sumPricedValue(pricedOutflows);
+      const priceSource = joinPriceSources(pricedOutflows);
+      const unpriced = pricedOutflows.filter((outflow) => outflow.unit_price === null);
+
+      // Unpriceable tokens are kept for manual review instead of being skipped.
+      // The whole record stays unpriced until every listed asset has a price;
+      // its token fields point at the first one still missing and usd_value
+      // holds the priced remainder.
+      if (unpriced.length > 0) {
+        console.warn(
+          `Transaction ${transaction.signature} needs manual review - unable to get price for ${unpriced.map((outflow) => outflow.token).join(', ')}`
+        );
+        return {
+          transaction_id: transaction.signature,
+          transaction_date: transactionDate,
+          token: unpriced[0].token,
+          token_mint: unpriced[0].token_mint,
+          token_amount: unpriced[0].amount,
+          usd_value: parseFloat(usdValue.toFixed(2)),
+          round_up_value: 0,
+          price_source: priceSource,
+          price_status: 'unpriced',
+          outflows: pricedOutflows,
+        };
+      }
 
       // Calculate round-up
       const roundUpValue = this.calculateRoundup(usdValue);
@@ -101,13 +194,15 @@ export class RoundupCalculator {
       // Create round-up calculation
       const calculation: RoundupCalculation = {
         transaction_id: transaction.signature,
-        transaction_date: new Date(transaction.timestamp * 1000).toISOString(),
+        transaction_date: transactionDate,
         token: transaction.token,
         token_mint: transaction.tokenMint,
         token_amount: transaction.amount,
         usd_value: parseFloat(usdValue.toFixed(2)),
         round_up_value: parseFloat(roundUpValue.toFixed(2)),
-        price_source: 'coingecko',
+        price_source: priceSource,
+        price_status: 'priced',
+        outflows: pricedOutflows,
       };
 
       return calculation;
@@ -139,6 +234,8 @@ export class RoundupCalculator {
           usd_value: calculation.usd_value,
           round_up_value: calculation.round_up_value,
           price_source: calculation.price_source,
+          price_status: calculation.price_status,
+          outflows: calculation.outflows,
         })
         .select()
         .single();
@@ -160,58 +257,159 @@ export class RoundupCalculator {
   }
 
   /**
-   * Process multiple transactions and store round-ups
+   * Get stored round-up records for specific transactions
    * @param walletAddress Wallet address
-   * @param transactions Array of parsed transactions
+   * @param transactionIds Transaction signatures
    */
-  async processAndStoreTransactions(
+  async getRoundupsByTransactionIds(
     walletAddress: string,
-    transactions: ParsedHeliusTransaction[]
-  ): Promise<{ stored: number; skipped: number; total: number }> {
-    let stored = 0;
-    let skipped = 0;
-
-    for (const transaction of transactions) {
-      try {
-        const calculation = await this.processTransaction(transaction);
-
-        if (!calculation) {
-          skipped++;
-          continue;
-        }
+    transactionIds: string[]
+  ): Promise<RoundupRecord[]> {
+    if (transactionIds.length === 0) return [];
 
-        const record = await this.storeRoundup(walletAddress, calculation);
+    try {
+      const { data, error } = await this.supabase
+        .from('roundup_records')
+        .select('*')
+        .eq('wallet_address', walletAddress)
+        .in('transaction_id', transactionIds);
 
-        if (record) {
-          stored++;
-          console.log(`Stored round-up: ${calculation.round_up_value} USD for tx ${calculation.transaction_id.substring(0, 8)}...`);
-        } else {
-          skipped++;
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('Error fetching round-up records by transaction:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Apply a manually supplied USD price to an unpriced asset of a round-up
+   * record. The record stays unpriced, pointing at the next asset, until
+   * every asset it lists has a price.
+   * @param walletAddress Wallet address
+   * @param transactionId Transaction signature of the round-up record
+   * @param priceUsd USD price per token
+   * @param tokenMint Mint of the asset to price (defaults to the record's token)
+   */
+  async applyManualPrice(
+    walletAddress: string,
+    transactionId: string,
+    priceUsd: number,
+    tokenMint?: string | null
+  ): Promise<RoundupRecord> {
+    try {
+      const { data: existing, error: fetchError } = await this.supabase
+        .from('roundup_records')
+        .select('*')
+        .eq('wallet_address', walletAddress)
+        .eq('transaction_id', transactionId)
+        .single();
+
+      if (fetchError) throw fetchError;
+
+      if (existing.price_status !== 'unpriced') {
+        throw new Error(`Round-up for transaction ${transactionId} is already priced`);
+      }
+
+      const outflows: RoundupOutflow[] = existing.outflows || [];
+      let update: Partial<Omit<RoundupRecord, 'id' | 'wallet_address' | 'transaction_id'>>;
+
+      if (outflows.length === 0) {
+        // Records stored before per-asset pricing: usd_value already holds
+        // any priced assets from the same transaction
+        const usdValue =
+          parseFloat(existing.usd_value.toString()) +
+          parseFloat(existing.token_amount.toString()) * priceUsd;
+
+        update = {
+          usd_value: parseFloat(usdValue.toFixed(2)),
+          round_up_value: parseFloat(this.calculateRoundup(usdValue).toFixed(2)),
+          price_source: 'manual',
+          price_status: 'manual',
+        };
+      } else {
+        const mint = tokenMint === undefined ? existing.token_mint : tokenMint;
+        const index = outflows.findIndex(
+          (outflow) => outflow.unit_price === null && outflow.token_mint === mint
+        );
+        if (index === -1) {
+          throw new Error(`Round-up for transaction ${transactionId} has no unpriced asset ${mint ?? 'SOL'}`);
         }
-      } catch (error) {
-        console.error(`Error processing transaction ${transaction.signature}:`, error);
-        skipped++;
+
+        const updatedOutflows = outflows.map((outflow, i) =>
+          i === index
+            ? {
+                ...outflow,
+                unit_price: priceUsd,
+                usd_value: outflow.amount * priceUsd,
+                price_source: 'manual',
+              }
+            : outflow
+        );
+        const usdValue = sumPricedValue(updatedOutflows);
+        const next = updatedOutflows.find((outflow) => outflow.unit_price === null);
+
+        update = {
+          outflows: updatedOutflows,
+          usd_value: parseFloat(usdValue.toFixed(2)),
+          price_source: joinPriceSources(updatedOutflows),
+          ...(next
+            ? {
+                token: next.token,
+                token_mint: next.token_mint,
+                token_amount: next.amount,
+                price_status: 'unpriced' as const,
+              }
+            : {
+                round_up_value: parseFloat(this.calculateRoundup(usdValue).toFixed(2)),
+                price_status: 'manual' as const,
+              }),
+        };
       }
-    }
 
-    return {
-      stored,
-      skipped,
-      total: transactions.length,
-    };
+      const { data, error } = await this.supabase
+        .from('roundup_records')
+        .update(update)
+        .eq('id', existing.id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      console.error('Error applying manual price:', error);
+      throw error;
+    }
   }
 
   /**
-   * Get all round-up records for a wallet
+   * Get round-up records for a wallet
    * @param walletAddress Wallet address
    * @param limit Maximum number of records to fetch
+   * @param status Only return records in these states (all states by default)
+   * @param since Only return records of transactions at or after this time
    */
-  async getRoundups(walletAddress: string, limit: number = 100): Promise<RoundupRecord[]> {
+  async getRoundups(
+    walletAddress: string,
+    limit: number = 100,
+    status?: RoundupStatus | RoundupStatus[],
+    since?: Date
+  ): Promise<RoundupRecord[]> {
     try {
-      const { data, error } = await this.supabase
+      let query = this.supabase
         .from('roundup_records')
         .select('*')
-        .eq('wallet_address', walletAddress)
+        .eq('wallet_address', walletAddress);
+
+      if (status) {
+        query = query.in('status', Array.isArray(status) ? status : [status]);
+      }
+
+      if (since) {
+        query = query.gte('transaction_date', since.toISOString());
+      }
+
+      const { data, error } = await query
         .order('transaction_date', { ascending: false })
         .limit(limit);
 
@@ -224,12 +422,13 @@ export class RoundupCalculator {
   }
 
   /**
-   * Get total round-up value for a wallet
+   * Get the un-invested round-up value for a wallet
+   * Only pending round-ups count; swept, invested and failed ones are excluded
    * @param walletAddress Wallet address
    */
   async getTotalRoundup(walletAddress: string): Promise<number> {
     try {
-      const records = await this.getRoundups(walletAddress, 1000); // Fetch up to 1000 records
+      const records = await this.getRoundups(walletAddress, 1000, 'pending'); // Fetch up to 1000 records
       const total = records.reduce((sum, record) => sum + parseFloat(record.round_up_value.toString()), 0);
       return parseFloat(total.toFixed(2));
     } catch (error) {
@@ -239,13 +438,112 @@ export class RoundupCalculator {
   }
 
   /**
-   * Check if round-up total is ready for investment (>= $1.00)
+   * Reserve pending round-ups for a deposit
+   * Unpriced round-ups and ones already swept or invested are left alone
+   * @param walletAddress Wallet address
+   * @param ids Round-up record ids
+   * @returns The records that were swept
+   */
+  async sweepRoundups(walletAddress: string, ids: number[]): Promise<RoundupRecord[]> {
+    if (ids.length === 0) return [];
+
+    try {
+      const { data, error } = await this.supabase
+        .from('roundup_records')
+        .update({ status: 'swept' })
+        .eq('wallet_address', walletAddress)
+        .in('id', ids)
+        .eq('status', 'pending')
+        .neq('price_status', 'unpriced')
+        .select();
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('Error sweeping round-ups:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Mark swept round-ups as consumed by a confirmed deposit
    * @param walletAddress Wallet address
+   * @param ids Round-up record ids
+   * @param investmentId Investment that consumed them
    */
-  async isReadyForInvestment(walletAddress: string): Promise<boolean> {
+  async markInvested(walletAddress: string, ids: number[], investmentId: number | null): Promise<void> {
+    await this.setStatus(walletAddress, ids, ['swept', 'failed'], {
+      status: 'invested',
+      investment_id: investmentId,
+    });
+  }
+
+  /**
+   * Release round-ups from a deposit that did not go through, back to pending
+   * @param walletAddress Wallet address
+   * @param ids Round-up record ids
+   */
+  async releaseRoundups(walletAddress: string, ids: number[]): Promise<void> {
+    await this.setStatus(walletAddress, ids, ['swept', 'failed'], {
+      status: 'pending',
+      investment_id: null,
+      deposit_signature: null,
+      deposit_sent_at: null,
+    });
+  }
+
+  /**
+   * Mark swept round-ups whose deposit was sent but never confirmed
+   * They stay out of the pending total until the deposit is reconciled
+   * @param walletAddress Wallet address
+   * @param ids Round-up record ids
+   * @param depositSignature Signature of the unconfirmed deposit
+   */
+  async markFailed(walletAddress: string, ids: number[], depositSignature: string | null): Promise<void> {
+    await this.setStatus(walletAddress, ids, ['swept'], {
+      status: 'failed',
+      deposit_signature: depositSignature,
+      deposit_sent_at: new Date().toISOString(),
+    });
+  }
+
+  private async setStatus(
+    walletAddress: string,
+    ids: number[],
+    fromStatuses: RoundupStatus[],
+    update: { status: RoundupStatus } & Partial<
+      Pick<RoundupRecord, 'investment_id' | 'deposit_signature' | 'deposit_sent_at'>
+    >
+  ): Promise<void> {
+    if (ids.length === 0) return;
+
+    try {
+      const { error } = await this.supabase
+        .from('roundup_records')
+        .update(update)
+        .eq('wallet_address', walletAddress)
+        .in('id', ids)
+        .in('status', fromStatuses);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error(`Error marking round-ups as ${update.status}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Check if the un-invested round-up total is ready for investment
+   * @param walletAddress Wallet address
+   * @param threshold Minimum total in USD (at least $1.00)
+   */
+  async isReadyForInvestment(
+    walletAddress: string,
+    threshold: number = MIN_INVESTMENT_USD
+  ): Promise<boolean> {
     try {
       const total = await this.getTotalRoundup(walletAddress);
-      return total >= 1.0;
+      return total >= Math.max(threshold, MIN_INVESTMENT_USD);
     } catch (error) {
       console.error('Error checking investment readiness:', error);
       return false;
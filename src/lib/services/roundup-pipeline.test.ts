@@ -0,0 +1,233 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { getHeliusService, HeliusTransaction } from './helius-service';
+import { RoundupPipeline } from './roundup-pipeline';
+import type { WalletTransaction } from './transaction-source';
+
+// In-memory stand-in for the few Supabase queries the pipeline makes
+const db = vi.hoisted(() => {
+  const tables: Record<string, Record<string, unknown>[]> = {};
+  const failingTransactions = new Set<string>(); // Inserts that fail as if Supabase were down
+  let nextId = 1;
+
+  function from(table: string) {
+    const rows = (tables[table] ||= []);
+    const filters: ((row: Record<string, unknown>) => boolean)[] = [];
+    let inserted: Record<string, unknown> | null = null;
+    let insertError: { code: string; message: string } | null = null;
+
+    const builder = {
+      select: () => builder,
+      eq: (column: string, value: unknown) => {
+        filters.push((row) => row[column] === value);
+        return builder;
+      },
+      in: (column: string, values: unknown[]) => {
+        filters.push((row) => values.includes(row[column]));
+        return builder;
+      },
+      insert: (row: Record<string, unknown>) => {
+        if (failingTransactions.has(row.transaction_id as string)) {
+          insertError = { code: '08006', message: 'connection failure' };
+        } else if (rows.some((stored) => stored.wallet_address === row.wallet_address && stored.transaction_id === row.transaction_id)) {
+          insertError = { code: '23505', message: 'duplicate key value violates unique constraint' };
+        } else {
+          inserted = { id: nextId++, status: 'pending', investment_id: null, ...row };
+          rows.push(inserted);
+        }
+        return builder;
+      },
+      single: async () => ({ data: inserted, error: insertError }),
+      then: (resolve: (result: { data: Record<string, unknown>[]; error: null }) => unknown) =>
+        resolve({ data: rows.filter((row) => filters.every((filter) => filter(row))), error: null }),
+    };
+    return builder;
+  }
+
+  return {
+    tables,
+    failingTransactions,
+    client: { from },
+    reset: () => {
+      for (const table of Object.keys(tables)) delete tables[table];
+      failingTransactions.clear();
+      nextId = 1;
+    },
+  };
+});
+
+// USD price per mint; SOL is requested without a mint
+const prices = vi.hoisted(() => new Map<string | undefined, number>());
+
+// Transactions the stubbed source returns, and where the baseline was moved
+const source = vi.hoisted(() => ({
+  transactions: [] as WalletTransaction[],
+  baseline: 'baseline-signature' as string | null,
+}));
+
+vi.mock('../supabase/client', () => ({
+  createServerClient: () => db.client,
+}));
+
+vi.mock('./price-oracle', () => ({
+  PriceOracle: class {
+    async getHistoricalPrice({ tokenMint }: { tokenMint?: string }) {
+      return { price: prices.get(tokenMint) ?? 0, source: 'pyth' };
+    }
+  },
+}));
+
+vi.mock('./transaction-source', () => ({
+  getTransactionSource: () => ({
+    fetchOutgoingTransactions: async () => ({ transactions: source.transactions, cursor: null }),
+  }),
+}));
+
+vi.mock('./baseline-tracker', () => ({
+  getBaselineTracker: () => ({
+    getWalletTracking: async () => ({ last_tracked_tx: source.baseline, linked_wallets: [] }),
+    updateLastTracked: async (_walletAddress: string, signature: string) => {
+      source.baseline = signature;
+    },
+  }),
+}));
+
+vi.mock('./user-preferences', () => ({
+  getUserPreferencesService: () => ({
+    getRoundupCategories: async () => ['payment'],
+  }),
+}));
+
+const FIXTURE_DIR = join(process.cwd(), 'scripts/fixtures/helius-webhook');
+const WALLET = 'HN7cABqLq46Es1jh92dQQisAq662SmxELLLsHHe4YWrH';
+
+/**
+ * Parse the recorded webhook deliveries for the wallet, newest first
+ */
+async function loadTransactions(): Promise<WalletTransaction[]> {
+  const helius = getHeliusService();
+  const transactions: WalletTransaction[] = [];
+
+  for (const name of ['usdc-payment.json', 'sol-payment.json']) {
+    const raw = readFileSync(join(FIXTURE_DIR, name), 'utf8').replaceAll('{{WALLET}}', WALLET);
+    for (const tx of JSON.parse(raw) as HeliusTransaction[]) {
+      const parsed = await helius.parseTransaction(tx, WALLET);
+      if (parsed) transactions.push(parsed);
+    }
+  }
+
+  return transactions;
+}
+
+describe('RoundupPipeline.processTransactions', () => {
+  beforeEach(() => {
+    db.reset();
+    prices.clear();
+    prices.set(undefined, 160);
+  });
+
+  it('prices, rounds up and stores each recorded payment', async () => {
+    const result = await new RoundupPipeline().processTransactions(WALLET, await loadTransactions());
+
+    expect(result).toMatchObject({ processed: 2, stored: 2, skipped: 0, unpriced: 0, excluded: 0 });
+    expect(result.newestSignature).toBe(result.calculations[0].transaction_id);
+    expect(result.calculations).toMatchObject([
+      { token: 'USDC', token_amount: 4.35, usd_value: 4.35, round_up_value: 0.65, price_source: 'stablecoin' },
+      { token: 'SOL', token_amount: 0.0525, usd_value: 8.4, round_up_value: 0.6, price_source: 'pyth' },
+    ]);
+    expect(db.tables.roundup_records).toHaveLength(2);
+  });
+
+  it('reuses stored round-ups when the same transactions arrive again', async () => {
+    const pipeline = new RoundupPipeline();
+    const transactions = await loadTransactions();
+    await pipeline.processTransactions(WALLET, transactions);
+    prices.set(undefined, 200);
+
+    const result = await pipeline.processTransactions(WALLET, transactions);
+
+    expect(result).toMatchObject({ processed: 2, stored: 0, skipped: 2 });
+    expect(result.calculations[1]).toMatchObject({ usd_value: 8.4, round_up_value: 0.6 });
+    expect(db.tables.roundup_records).toHaveLength(2);
+  });
+
+  it('keeps a payment it cannot price for manual review', async () => {
+    prices.clear();
+
+    const result = await new RoundupPipeline().processTransactions(WALLET, await loadTransactions());
+
+    expect(result).toMatchObject({ stored: 2, unpriced: 1 });
+    expect(result.calculations[1]).toMatchObject({
+      token: 'SOL',
+      price_status: 'unpriced',
+      round_up_value: 0,
+      outflows: [{ token: 'SOL', amount: 0.0525, unit_price: null }],
+    });
+  });
+
+  it('does not value a token at $1 just because it is named USDC', async () => {
+    const [usdcPayment] = await loadTransactions();
+    const spamMint = 'SpamUSDC1111111111111111111111111111111111';
+    const spam = {
+      ...usdcPayment,
+      tokenMint: spamMint,
+      outflows: usdcPayment.outflows.map((outflow) => ({ ...outflow, tokenMint: spamMint })),
+    };
+
+    const result = await new RoundupPipeline().processTransactions(WALLET, [spam]);
+
+    expect(result).toMatchObject({ stored: 1, unpriced: 1 });
+    expect(result.calculations[0]).toMatchObject({ token: 'USDC', token_mint: spamMint, price_status: 'unpriced' });
+  });
+
+  it('excludes categories the wallet does not round up', async () => {
+    const transactions = (await loadTransactions()).map((transaction) => ({
+      ...transaction,
+      category: 'swap' as const,
+    }));
+
+    const result = await new RoundupPipeline().processTransactions(WALLET, transactions);
+
+    expect(result).toMatchObject({ processed: 2, stored: 0, excluded: 2 });
+    expect(db.tables.roundup_records ?? []).toHaveLength(0);
+  });
+});
+
+describe('RoundupPipeline.run', () => {
+  beforeEach(async () => {
+    db.reset();
+    prices.clear();
+    prices.set(undefined, 160);
+    source.transactions = await loadTransactions();
+    source.baseline = 'baseline-signature';
+  });
+
+  it('moves the baseline to the newest transaction', async () => {
+    const result = await new RoundupPipeline().run(WALLET, { advanceBaseline: true });
+
+    expect(result).toMatchObject({ stored: 2, failed: 0 });
+    expect(source.baseline).toBe(source.transactions[0].signature);
+    expect(result.baseline).toBe(source.transactions[0].signature);
+  });
+
+  it('keeps the baseline behind a transaction that failed to store', async () => {
+    const [newest, oldest] = source.transactions;
+    db.failingTransactions.add(newest.signature);
+
+    const result = await new RoundupPipeline().run(WALLET, { advanceBaseline: true });
+
+    expect(result).toMatchObject({ stored: 1, skipped: 0, failed: 1, failedSignatures: [newest.signature] });
+    expect(source.baseline).toBe(oldest.signature);
+  });
+
+  it('leaves the baseline alone when the oldest transaction failed', async () => {
+    db.failingTransactions.add(source.transactions[1].signature);
+
+    const result = await new RoundupPipeline().run(WALLET, { advanceBaseline: true });
+
+    expect(result).toMatchObject({ stored: 1, failed: 1 });
+    expect(source.baseline).toBe('baseline-signature');
+    expect(result.baseline).toBe('baseline-signature');
+  });
+});
@@ -0,0 +1,219 @@
+/**
+ * Round-up Pipeline
+ * Single ingestion → pricing → calculation → persistence path for round-ups.
+ * The dashboard (/api/roundups/track) and proposals (/api/proposals) both
+ * read their numbers from here, so they always agree.
+ */
+
+import { getTransactionSource, TransactionSource, WalletTransaction } from './transaction-source';
+import {
+  getRoundupCalculator,
+  RoundupCalculator,
+  RoundupCalculation,
+  toRoundupCalculation,
+} from './roundup-calculator';
+import { getBaselineTracker, BaselineTracker } from './baseline-tracker';
+import { getUserPreferencesService, UserPreferencesService } from './user-preferences';
+import { EXCLUDED_ROUNDUP_CATEGORIES } from './transaction-classifier';
+
+export interface RoundupPipelineOptions {
+  limit?: number; // Maximum number of outgoing transactions to ingest (per chunk when advancing the baseline)
+  afterSignature?: string; // Only ingest transactions after this signature (baseline)
+  since?: number; // Only ingest transactions at or after this unix timestamp (seconds)
+  advanceBaseline?: boolean; // Ingest everything since the baseline, then move it to the newest transaction
+}
+
+export interface RoundupPipelineResult {
+  processed: number; // Outgoing transactions ingested
+  stored: number; // New round-up records
+  skipped: number; // Transactions that were already stored
+  failed: number; // Transactions that could not be calculated or stored; retried later
+  failedSignatures: string[];
+  unpriced: number; // New records waiting for a manual price
+  excluded: number; // Transactions in categories that do not generate round-ups
+  calculations: RoundupCalculation[]; // Round-ups for every included transaction, newest first
+  newestSignature: string | null;
+  baseline: string | null; // Baseline after the run; only set when advancing it
+}
+
+/**
+ * Combine the results of consecutive chunks of one walk, newest chunk first
+ */
+function mergeResults(newer: RoundupPipelineResult, older: RoundupPipelineResult): RoundupPipelineResult {
+  return {
+    processed: newer.processed + older.processed,
+    stored: newer.stored + older.stored,
+    skipped: newer.skipped + older.skipped,
+    failed: newer.failed + older.failed,
+    failedSignatures: [...newer.failedSignatures, ...older.failedSignatures],
+    unpriced: newer.unpriced + older.unpriced,
+    excluded: newer.excluded + older.excluded,
+    calculations: [...newer.calculations, ...older.calculations],
+    newestSignature: newer.newestSignature || older.newestSignature,
+    baseline: null,
+  };
+}
+
+export class RoundupPipeline {
+  private source: TransactionSource;
+  private calculator: RoundupCalculator;
+  private baselineTracker: BaselineTracker;
+  private preferences: UserPreferencesService;
+
+  constructor() {
+    this.source = getTransactionSource();
+    this.calculator = getRoundupCalculator();
+    this.baselineTracker = getBaselineTracker();
+    this.preferences = getUserPreferencesService();
+  }
+
+  /**
+   * Ingest a wallet's outgoing transactions, price and calculate their
+   * round-ups and store them. Transactions that already have a stored
+   * round-up reuse it, including manually priced ones.
+   * When advancing the baseline, the walk continues in chunks of `limit`
+   * until it reaches the baseline, so nothing older than the last chunk
+   * is skipped when the baseline moves. The baseline never moves past a
+   * transaction that failed, so the next run retries it.
+   * @param walletAddress Wallet address
+   * @param options Ingestion window and baseline handling
+   */
+  async run(walletAddress: string, options: RoundupPipelineOptions = {}): Promise<RoundupPipelineResult> {
+    const { limit = 100, afterSignature, since, advanceBaseline = false } = options;
+
+    const tracking = await this.baselineTracker.getWalletTracking(walletAddress);
+    let result: RoundupPipelineResult | null = null;
+    let cursor: string | null = null;
+    const signatures: string[] = []; // Every ingested transaction, newest first
+
+    do {
+      // Ingestion
+      const page = await this.source.fetchOutgoingTransactions(walletAddress, limit, {
+        afterSignature,
+        since,
+        linkedWallets: tracking?.linked_wallets || [],
+        before: cursor || undefined,
+      });
+
+      const chunk = await this.processTransactions(walletAddress, page.transactions);
+      signatures.push(...page.transactions.map((transaction) => transaction.signature));
+      result = result ? mergeResults(result, chunk) : chunk;
+      cursor = page.cursor;
+    } while (advanceBaseline && cursor);
+
+    if (advanceBaseline) {
+      // Stop just short of the oldest failure; with none, move to the newest
+      const oldestFailed = Math.max(
+        ...result.failedSignatures.map((signature) => signatures.indexOf(signature)),
+        -1
+      );
+      const baseline =
+        result.failedSignatures.length > 0
+          ? signatures[oldestFailed + 1] || null
+          : result.newestSignature;
+
+      if (baseline) {
+        await this.baselineTracker.updateLastTracked(walletAddress, baseline);
+      }
+      result.baseline = baseline || tracking?.last_tracked_tx || null;
+    }
+
+    return result;
+  }
+
+  /**
+   * Price, calculate and store round-ups for already ingested outgoing
+   * transactions, e.g. ones pushed by a Helius webhook. Never moves the
+   * baseline; polling later reuses the stored round-ups.
+   * @param walletAddress Wallet address
+   * @param transactions Parsed outgoing transactions, newest first
+   */
+  async processTransactions(
+    walletAddress: string,
+    transactions: WalletTransaction[]
+  ): Promise<RoundupPipelineResult> {
+    const categories = await this.preferences.getRoundupCategories(walletAddress);
+
+    const existing = new Map(
+      (
+        await this.calculator.getRoundupsByTransactionIds(
+          walletAddress,
+          transactions.map((transaction) => transaction.signature)
+        )
+      ).map((record) => [record.transaction_id, record])
+    );
+
+    const result: RoundupPipelineResult = {
+      processed: transactions.length,
+      stored: 0,
+      skipped: 0,
+      failed: 0,
+      failedSignatures: [],
+      unpriced: 0,
+      excluded: 0,
+      calculations: [],
+      newestSignature: transactions[0]?.signature || null, // Transactions are returned newest first
+      baseline: null,
+    };
+
+    for (const transaction of transactions) {
+      try {
+        // Never round up our own deposits or self-transfers, and respect
+        // the user's round-up category preferences
+        if (
+          EXCLUDED_ROUNDUP_CATEGORIES.includes(transaction.category) ||
+          !categories.includes(transaction.category)
+        ) {
+          console.log(`Excluding ${transaction.category} transaction ${transaction.signature.substring(0, 8)}... from round-ups`);
+          result.excluded++;
+          continue;
+        }
+
+        const stored = existing.get(transaction.signature);
+        if (stored) {
+          result.calculations.push(toRoundupCalculation(stored));
+          result.skipped++;
+          continue;
+        }
+
+        // Pricing and calculation
+        const calculation = await this.calculator.processTransaction(transaction);
+        if (!calculation) {
+          result.failed++;
+          result.failedSignatures.push(transaction.signature);
+          continue;
+        }
+
+        // Persistence
+        const record = await this.calculator.storeRoundup(walletAddress, calculation);
+        if (record) {
+          result.stored++;
+          if (record.price_status === 'unpriced') {
+            result.unpriced++;
+          }
+          console.log(`Stored round-up: ${calculation.round_up_value} USD for tx ${calculation.transaction_id.substring(0, 8)}...`);
+        } else {
+          result.skipped++;
+        }
+
+        result.calculations.push(record ? toRoundupCalculation(record) : calculation);
+      } catch (error) {
+        console.error(`Error processing transaction ${transaction.signature}:`, error);
+        result.failed++;
+        result.failedSignatures.push(transaction.signature);
+      }
+    }
+
+    return result;
+  }
+}
+
+// Singleton instance
+let roundupPipelineInstance: RoundupPipeline | null = null;
+
+export function getRoundupPipeline(): RoundupPipeline {
+  if (!roundupPipelineInstance) {
+    roundupPipelineInstance = new RoundupPipeline();
+  }
+  return roundupPipelineInstance;
+}
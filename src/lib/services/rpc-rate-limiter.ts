@@ -0,0 +1,77 @@
+/**
+ * RPC Rate Limiter
+ * Token buckets shared per RPC endpoint, so every fetcher talking to the
+ * same node stays within that node's configured request rate
+ */
+
+import { config } from '../config';
+import type { RpcRateLimit } from '../config';
+
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill: number;
+  private capacity: number;
+  private refillPerMs: number;
+  private waiters: Promise<void> = Promise.resolve();
+
+  constructor(limit: RpcRateLimit) {
+    this.capacity = Math.max(1, limit.burst);
+    this.refillPerMs = Math.max(limit.requestsPerSecond, 0.01) / 1000;
+    this.tokens = this.capacity;
+    this.lastRefill = Date.now();
+  }
+
+  /**
+   * Wait until a token is available and take it
+   * Callers are served in arrival order
+   * @returns Milliseconds spent waiting
+   */
+  async acquire(): Promise<number> {
+    const start = Date.now();
+
+    const turn = this.waiters.then(async () => {
+      this.refill();
+      if (this.tokens < 1) {
+        await new Promise((resolve) => setTimeout(resolve, Math.ceil((1 - this.tokens) / this.refillPerMs)));
+        this.refill();
+      }
+      this.tokens -= 1;
+    });
+
+    this.waiters = turn;
+    await turn;
+    return Date.now() - start;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.lastRefill) * this.refillPerMs);
+    this.lastRefill = now;
+  }
+}
+
+// One bucket per endpoint host
+const buckets = new Map<string, TokenBucket>();
+
+function endpointKey(rpcUrl: string): string {
+  try {
+    return new URL(rpcUrl).host.toLowerCase();
+  } catch {
+    return rpcUrl;
+  }
+}
+
+/**
+ * Get the shared token bucket for an RPC endpoint
+ * @param rpcUrl RPC endpoint URL
+ */
+export function getRpcRateLimiter(rpcUrl: string): TokenBucket {
+  const key = endpointKey(rpcUrl);
+  let bucket = buckets.get(key);
+
+  if (!bucket) {
+    bucket = new TokenBucket(config.getRpcRateLimit(rpcUrl));
+    buckets.set(key, bucket);
+  }
+  return bucket;
+}
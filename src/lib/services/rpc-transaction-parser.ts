@@ -0,0 +1,237 @@
+/**
+ * RPC Transaction Parser
+ * Converts a jsonParsed RPC transaction into the Helius enhanced-transaction
+ * shape, so transactions fetched from any Solana RPC node go through the
+ * same parser, classifier and round-up pipeline as Helius ones
+ */
+
+import type {
+  ParsedInstruction,
+  ParsedTransactionWithMeta,
+  PartiallyDecodedInstruction,
+  TokenBalance,
+} from '@solana/web3.js';
+import type { HeliusTransaction } from './helius-service';
+
+const SYSTEM_PROGRAM_ID = '11111111111111111111111111111111';
+const JUPITER_AGGREGATOR_V6_PROGRAM_ID = 'JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4';
+
+// Programs that only move funds or set up accounts; a transaction made of
+// nothing else is a plain transfer
+const TRANSFER_PROGRAMS = new Set([
+  SYSTEM_PROGRAM_ID,
+  'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA', // SPL Token
+  'TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb', // Token-2022
+  'ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL', // Associated Token Account
+  'ComputeBudget111111111111111111111111111111',
+  'MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr',
+]);
+
+// Stake program instructions mapped to Helius transaction types
+const STAKE_INSTRUCTION_TYPES: Record<string, string> = {
+  delegate: 'STAKE_SOL',
+  deactivate: 'UNSTAKE_SOL',
+  withdraw: 'WITHDRAW_STAKE',
+};
+
+type Instruction = ParsedInstruction | PartiallyDecodedInstruction;
+
+interface TokenAccountInfo {
+  owner: string;
+  mint: string;
+  decimals: number;
+}
+
+function isParsed(instruction: Instruction): instruction is ParsedInstruction {
+  return 'parsed' in instruction;
+}
+
+/**
+ * Owner, mint and decimals of every token account in the transaction
+ */
+function collectTokenAccountInfo(
+  tx: ParsedTransactionWithMeta,
+  accountKeys: string[]
+): Map<string, TokenAccountInfo> {
+  const accounts = new Map<string, TokenAccountInfo>();
+  const balances = [...(tx.meta?.preTokenBalances || []), ...(tx.meta?.postTokenBalances || [])];
+
+  for (const balance of balances) {
+    accounts.set(accountKeys[balance.accountIndex], {
+      owner: balance.owner || '',
+      mint: balance.mint,
+      decimals: balance.uiTokenAmount.decimals,
+    });
+  }
+
+  return accounts;
+}
+
+/**
+ * Raw token balance change per token account (post minus pre)
+ */
+function collectTokenBalanceChanges(
+  pre: TokenBalance[],
+  post: TokenBalance[]
+): Map<number, { balance: TokenBalance; change: bigint }> {
+  const changes = new Map<number, { balance: TokenBalance; change: bigint }>();
+
+  for (const balance of post) {
+    changes.set(balance.accountIndex, { balance, change: BigInt(balance.uiTokenAmount.amount) });
+  }
+
+  for (const balance of pre) {
+    const existing = changes.get(balance.accountIndex);
+    const amount = BigInt(balance.uiTokenAmount.amount);
+    changes.set(balance.accountIndex, {
+      balance: existing?.balance || balance,
+      change: (existing?.change || BigInt(0)) - amount,
+    });
+  }
+
+  return changes;
+}
+
+/**
+ * Accounts of a parsed instruction in their on-chain order, where the
+ * parser needs them; jsonParsed instructions only name them in `info`
+ */
+function parsedInstructionAccounts(instruction: ParsedInstruction): string[] {
+  const { type, info } = instruction.parsed;
+
+  // Associated token account creation: funding account, new account, wallet, mint
+  if (instruction.program === 'spl-associated-token-account' && (type === 'create' || type === 'createIdempotent')) {
+    return [info.source, info.account, info.wallet, info.mint];
+  }
+
+  return [];
+}
+
+/**
+ * Convert a jsonParsed RPC transaction to a Helius enhanced transaction
+ * Transfers come from parsed System and SPL Token instructions (including
+ * inner instructions); balance changes come from the transaction meta
+ * @param tx Transaction from getParsedTransaction(s)
+ * @param signature Transaction signature
+ */
+export function toHeliusTransaction(tx: ParsedTransactionWithMeta, signature: string): HeliusTransaction {
+  const accountKeys = tx.transaction.message.accountKeys.map((key) => key.pubkey.toBase58());
+  const tokenAccounts = collectTokenAccountInfo(tx, accountKeys);
+  const topLevel = tx.transaction.message.instructions as Instruction[];
+  const innerByIndex = new Map(
+    (tx.meta?.innerInstructions || []).map((inner) => [inner.index, inner.instructions as Instruction[]])
+  );
+  const allInstructions = [...topLevel, ...Array.from(innerByIndex.values()).flat()];
+
+  // Failed transactions only charge the fee; like Helius, report no transfers
+  const failed = !!tx.meta?.err;
+
+  const nativeTransfers: NonNullable<HeliusTransaction['nativeTransfers']> = [];
+  const tokenTransfers: NonNullable<HeliusTransaction['tokenTransfers']> = [];
+  let type = 'UNKNOWN';
+
+  for (const instruction of allInstructions) {
+    if (failed || !isParsed(instruction)) continue;
+
+    const { type: instructionType, info } = instruction.parsed;
+
+    if (instruction.program === 'system') {
+      if (instructionType === 'transfer' || instructionType === 'transferWithSeed') {
+        nativeTransfers.push({
+          fromUserAccount: info.source,
+          toUserAccount: info.destination,
+          amount: Number(info.lamports),
+        });
+      } else if (instructionType === 'createAccount' || instructionType === 'createAccountWithSeed') {
+        nativeTransfers.push({
+          fromUserAccount: info.source,
+          toUserAccount: info.newAccount,
+          amount: Number(info.lamports),
+        });
+      }
+    } else if (
+      (instruction.program === 'spl-token' || instruction.program === 'spl-token-2022') &&
+      (instructionType === 'transfer' || instructionType === 'transferChecked')
+    ) {
+      const source = tokenAccounts.get(info.source);
+      const destination = tokenAccounts.get(info.destination);
+      const mint: string = info.mint || source?.mint || destination?.mint || '';
+      const decimals = info.tokenAmount?.decimals ?? source?.decimals ?? destination?.decimals ?? 0;
+      const rawAmount: string = info.tokenAmount?.amount ?? info.amount;
+
+      tokenTransfers.push({
+        fromUserAccount: source?.owner || info.authority || info.multisigAuthority || '',
+        toUserAccount: destination?.owner || '',
+        fromTokenAccount: info.source,
+        toTokenAccount: info.destination,
+        tokenAmount: Number(rawAmount) / Math.pow(10, decimals),
+        mint,
+        tokenStandard: 'Fungible',
+      });
+    } else if (instruction.program === 'stake' && STAKE_INSTRUCTION_TYPES[instructionType]) {
+      type = STAKE_INSTRUCTION_TYPES[instructionType];
+    }
+  }
+
+  const programIds = allInstructions.map((instruction) => instruction.programId.toBase58());
+  if (programIds.includes(JUPITER_AGGREGATOR_V6_PROGRAM_ID)) {
+    type = 'SWAP';
+  } else if (type === 'UNKNOWN' && programIds.every((programId) => TRANSFER_PROGRAMS.has(programId))) {
+    type = 'TRANSFER';
+  }
+
+  const tokenChanges = collectTokenBalanceChanges(
+    tx.meta?.preTokenBalances || [],
+    tx.meta?.postTokenBalances || []
+  );
+  const preBalances = tx.meta?.preBalances || [];
+  const postBalances = tx.meta?.postBalances || [];
+
+  const accountData = accountKeys.map((account, index) => {
+    const tokenChange = tokenChanges.get(index);
+    return {
+      account,
+      nativeBalanceChange: (postBalances[index] ?? 0) - (preBalances[index] ?? 0),
+      tokenBalanceChanges:
+        tokenChange && tokenChange.change !== BigInt(0)
+          ? [
+              {
+                mint: tokenChange.balance.mint,
+                rawTokenAmount: {
+                  tokenAmount: tokenChange.change.toString(),
+                  decimals: tokenChange.balance.uiTokenAmount.decimals,
+                },
+                userAccount: tokenChange.balance.owner || '',
+              },
+            ]
+          : [],
+    };
+  });
+
+  const toHeliusInstruction = (instruction: Instruction) => ({
+    programId: instruction.programId.toBase58(),
+    accounts: isParsed(instruction)
+      ? parsedInstructionAccounts(instruction)
+      : instruction.accounts.map((account) => account.toBase58()),
+    data: isParsed(instruction) ? '' : instruction.data,
+  });
+
+  return {
+    description: '',
+    type,
+    source: type === 'SWAP' ? 'JUPITER' : type === 'TRANSFER' ? 'SYSTEM_PROGRAM' : 'UNKNOWN',
+    fee: tx.meta?.fee || 0,
+    feePayer: accountKeys[0],
+    signature,
+    slot: tx.slot,
+    timestamp: tx.blockTime || 0,
+    nativeTransfers,
+    tokenTransfers,
+    accountData,
+    instructions: topLevel.map((instruction, index) => ({
+      ...toHeliusInstruction(instruction),
+      innerInstructions: (innerByIndex.get(index) || []).map(toHeliusInstruction),
+    })),
+    events: {},
+  };
+}
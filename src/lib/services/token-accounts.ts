@@ -0,0 +1,38 @@
+/**
+ * Token accounts in Helius enhanced transactions
+ * Lets the parser and classifier tell the funding of a token account
+ * created in a transaction apart from a transfer to another wallet
+ */
+
+import type { HeliusTransaction } from './helius-service';
+
+export const ASSOCIATED_TOKEN_PROGRAM_ID = 'ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL';
+
+// Rent-exempt minimum of a 165-byte SPL token account
+export const TOKEN_ACCOUNT_RENT_LAMPORTS = 2039280;
+
+// Position of the new account in an Associated Token Account program
+// create instruction: funding account, associated account, wallet, mint, ...
+const ASSOCIATED_ACCOUNT_INDEX = 1;
+
+/**
+ * Token accounts the transaction creates through the Associated Token
+ * Account program, in top-level or inner instructions
+ */
+export function collectCreatedTokenAccounts(tx: HeliusTransaction): Set<string> {
+  const created = new Set<string>();
+
+  const instructions = (tx.instructions || []).flatMap((instruction) => [
+    instruction,
+    ...(instruction.innerInstructions || []),
+  ]);
+
+  for (const instruction of instructions) {
+    const account = instruction.accounts[ASSOCIATED_ACCOUNT_INDEX];
+    if (instruction.programId === ASSOCIATED_TOKEN_PROGRAM_ID && account) {
+      created.add(account);
+    }
+  }
+
+  return created;
+}
@@ -0,0 +1,67 @@
+import type { Connection } from "@solana/web3.js";
+import { describe, expect, it, vi } from "vitest";
+import { TokenRegistry, toPublicMetadataUrl } from "./token-registry";
+
+const MINT = "7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU";
+
+describe("toPublicMetadataUrl", () => {
+	it("allows public https hosts and maps ipfs and arweave URIs to gateways", () => {
+		expect(toPublicMetadataUrl("https://example.com/token.json")?.href).toBe(
+			"https://example.com/token.json"
+		);
+		expect(toPublicMetadataUrl("ipfs://bafybeigdyrzt")?.href).toBe(
+			"https://ipfs.io/ipfs/bafybeigdyrzt"
+		);
+		expect(toPublicMetadataUrl("ar://abc123")?.href).toBe(
+			"https://arweave.net/abc123"
+		);
+	});
+
+	it("refuses other schemes, IP literals and internal hosts", () => {
+		for (const uri of [
+			"http://example.com/token.json",
+			"file:///etc/passwd",
+			"https://169.254.169.254/latest/meta-data",
+			"https://[::1]/token.json",
+			"https://localhost/token.json",
+			"https://metadata.internal/token.json",
+			"https://intranet/token.json",
+			"https://example.com:8443/token.json",
+			"not a uri",
+		]) {
+			expect(toPublicMetadataUrl(uri)).toBeNull();
+		}
+	});
+});
+
+describe("TokenRegistry.getToken", () => {
+	it("does not cache a lookup that failed on an RPC error", async () => {
+		const registry = new TokenRegistry([]);
+		const connection = (registry as unknown as { connection: Connection })
+			.connection;
+
+		vi.spyOn(connection, "getParsedAccountInfo")
+			.mockRejectedValueOnce(new Error("429 Too Many Requests"))
+			.mockResolvedValueOnce({
+				context: { slot: 1 },
+				value: {
+					data: {
+						program: "spl-token",
+						space: 82,
+						parsed: { type: "mint", info: { decimals: 6 } },
+					},
+				},
+			} as never);
+		vi.spyOn(connection, "getAccountInfo").mockResolvedValue(null);
+
+		expect(await registry.getToken(MINT)).toMatchObject({
+			source: "unknown",
+			decimals: 0,
+		});
+		expect(await registry.getToken(MINT)).toMatchObject({
+			source: "on-chain",
+			decimals: 6,
+		});
+		expect(registry.getCachedToken(MINT)?.decimals).toBe(6);
+	});
+});
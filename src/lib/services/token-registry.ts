@@ -0,0 +1,330 @@
+/**
+ * Token metadata registry
+ * Resolves symbol, decimals, logo and price-source IDs for token mints
+ * from the bundled token list, falling back to on-chain mint and
+ * Metaplex metadata accounts
+ */
+
+import { Connection, PublicKey, ParsedAccountData } from "@solana/web3.js";
+import { config, NETWORK_CONFIG } from "../config";
+import tokenList from "../token-list.json";
+
+export const NATIVE_SOL_MINT = "So11111111111111111111111111111111111111112";
+
+// USD stablecoins valued at $1 on each network. Keyed by mint: symbols come
+// from on-chain metadata, so anyone can name a token "USDC"
+const STABLECOIN_MINTS: Record<"mainnet" | "devnet", string[]> = {
+	mainnet: [
+		NETWORK_CONFIG.mainnet.USDC_MINT,
+		"Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB", // USDT
+	],
+	devnet: [NETWORK_CONFIG.devnet.USDC_MINT],
+};
+
+// Metaplex Token Metadata program
+const TOKEN_METADATA_PROGRAM_ID = new PublicKey(
+	"metaqbxxUerdq28cj1RbAWkYQm3ybzjb6a8bt518x1s"
+);
+
+export interface TokenInfo {
+	mint: string;
+	symbol: string;
+	name: string;
+	decimals: number;
+	logoURI?: string;
+	coingeckoId?: string;
+	source: "bundled" | "on-chain" | "unknown";
+}
+
+// Off-chain metadata is fetched from URIs anyone can set on a mint, so
+// only public https hosts are contacted, briefly and for small documents
+const METADATA_FETCH_TIMEOUT_MS = 3000;
+const METADATA_MAX_BYTES = 64 * 1024;
+const IPFS_GATEWAY = "https://ipfs.io/ipfs/";
+const ARWEAVE_GATEWAY = "https://arweave.net/";
+
+interface TokenListEntry {
+	address: string;
+	symbol: string;
+	name: string;
+	decimals: number;
+	logoURI?: string;
+	extensions?: {
+		coingeckoId?: string;
+	};
+}
+
+function unknownToken(mint: string): TokenInfo {
+	return {
+		mint,
+		symbol: "UNKNOWN",
+		name: "Unknown Token",
+		decimals: 0,
+		source: "unknown",
+	};
+}
+
+/**
+ * Resolve a metadata URI to a public https URL, or null when it may not be
+ * fetched: other schemes, IP literals and local or internal host names
+ */
+export function toPublicMetadataUrl(uri: string): URL | null {
+	let url: URL;
+	try {
+		if (uri.startsWith("ipfs://")) {
+			url = new URL(IPFS_GATEWAY + uri.slice("ipfs://".length).replace(/^ipfs\//, ""));
+		} else if (uri.startsWith("ar://")) {
+			url = new URL(ARWEAVE_GATEWAY + uri.slice("ar://".length));
+		} else {
+			url = new URL(uri);
+		}
+	} catch {
+		return null;
+	}
+
+	const host = url.hostname.toLowerCase();
+	const isIpLiteral = /^[\d.]+$/.test(host) || host.startsWith("[");
+	const isLocal =
+		host === "localhost" ||
+		!host.includes(".") ||
+		/\.(localhost|local|internal|lan|home|corp)$/.test(host);
+
+	if (url.protocol !== "https:" || url.port !== "" || isIpLiteral || isLocal) {
+		return null;
+	}
+	return url;
+}
+
+export class TokenRegistry {
+	private connection: Connection;
+	private tokens: Map<string, TokenInfo>;
+	private pending: Map<string, Promise<TokenInfo>>;
+
+	constructor(entries: TokenListEntry[] = tokenList.tokens) {
+		const solanaConfig = config.getSolanaConfig();
+		this.connection = new Connection(
+			solanaConfig.rpcUrl,
+			solanaConfig.commitment
+		);
+		this.tokens = new Map();
+		this.pending = new Map();
+
+		for (const entry of entries) {
+			this.tokens.set(entry.address, {
+				mint: entry.address,
+				symbol: entry.symbol,
+				name: entry.name,
+				decimals: entry.decimals,
+				logoURI: entry.logoURI,
+				coingeckoId: entry.extensions?.coingeckoId,
+				source: "bundled",
+			});
+		}
+	}
+
+	/**
+	 * Get token info from the bundled list or cache without hitting the chain
+	 */
+	getCachedToken(mint: string): TokenInfo | null {
+		return this.tokens.get(mint) || null;
+	}
+
+	/**
+	 * Resolve token info, loading it from chain when it is not bundled
+	 * Unknown mints resolve to an "UNKNOWN" entry rather than throwing.
+	 * Only completed lookups are cached; one that failed on an RPC error is
+	 * retried next time instead of pinning the mint to 0 decimals
+	 */
+	async getToken(mint: string): Promise<TokenInfo> {
+		const cached = this.tokens.get(mint);
+		if (cached) return cached;
+
+		// Share in-flight lookups for the same mint
+		const inFlight = this.pending.get(mint);
+		if (inFlight) return inFlight;
+
+		const lookup = this.fetchOnChainToken(mint)
+			.then((token) => {
+				this.tokens.set(mint, token);
+				return token;
+			})
+			.catch((error) => {
+				console.error(`Error loading token metadata for ${mint}:`, error);
+				return unknownToken(mint);
+			})
+			.finally(() => {
+				this.pending.delete(mint);
+			});
+
+		this.pending.set(mint, lookup);
+		return lookup;
+	}
+
+	/**
+	 * Whether a mint is a USD stablecoin on the current network
+	 */
+	isStablecoin(mint: string | null): boolean {
+		return (
+			mint !== null &&
+			STABLECOIN_MINTS[NETWORK_CONFIG.CURRENT_NETWORK].includes(mint)
+		);
+	}
+
+	/**
+	 * Get the token symbol for a mint
+	 */
+	async getSymbol(mint: string): Promise<string> {
+		const token = await this.getToken(mint);
+		return token.symbol;
+	}
+
+	/**
+	 * Get the CoinGecko ID for a mint, if one is known
+	 */
+	async getCoinGeckoId(mint: string): Promise<string | undefined> {
+		const token = await this.getToken(mint);
+		return token.coingeckoId;
+	}
+
+	/**
+	 * Load decimals from the mint account and name/symbol/logo from
+	 * the Token-2022 metadata extension or the Metaplex metadata account
+	 * Throws when the RPC node cannot be reached
+	 */
+	private async fetchOnChainToken(mint: string): Promise<TokenInfo> {
+		const unknown = unknownToken(mint);
+
+		let mintPubkey: PublicKey;
+		try {
+			mintPubkey = new PublicKey(mint);
+		} catch {
+			return unknown;
+		}
+
+		const accountInfo = await this.connection.getParsedAccountInfo(
+			mintPubkey
+		);
+		const data = accountInfo.value?.data as ParsedAccountData | undefined;
+
+		if (!data || !data.parsed || data.parsed.type !== "mint") {
+			return unknown;
+		}
+
+		const info = data.parsed.info;
+		const token: TokenInfo = {
+			...unknown,
+			decimals: info.decimals,
+			source: "on-chain",
+		};
+
+		// Token-2022 mints may carry their metadata inline
+		const metadataExtension = (
+			info.extensions as
+				| Array<{ extension: string; state?: Record<string, string> }>
+				| undefined
+		)?.find((ext) => ext.extension === "tokenMetadata");
+
+		const metadata = metadataExtension?.state
+			? {
+					name: metadataExtension.state.name,
+					symbol: metadataExtension.state.symbol,
+					uri: metadataExtension.state.uri,
+			  }
+			: await this.fetchMetaplexMetadata(mintPubkey);
+
+		if (metadata) {
+			token.name = metadata.name || token.name;
+			token.symbol = metadata.symbol || token.symbol;
+			token.logoURI = await this.fetchLogoFromUri(metadata.uri);
+		}
+
+		return token;
+	}
+
+	/**
+	 * Read name, symbol and URI from the Metaplex metadata account
+	 */
+	private async fetchMetaplexMetadata(
+		mint: PublicKey
+	): Promise<{ name: string; symbol: string; uri: string } | null> {
+		const [metadataAddress] = PublicKey.findProgramAddressSync(
+			[
+				Buffer.from("metadata"),
+				TOKEN_METADATA_PROGRAM_ID.toBuffer(),
+				mint.toBuffer(),
+			],
+			TOKEN_METADATA_PROGRAM_ID
+		);
+
+		const accountInfo = await this.connection.getAccountInfo(
+			metadataAddress
+		);
+		if (!accountInfo) return null;
+
+		// Layout: key (1) + update authority (32) + mint (32), then
+		// borsh strings for name, symbol and uri (u32 length prefix)
+		const data = accountInfo.data;
+		let offset = 1 + 32 + 32;
+
+		const readString = (): string => {
+			const length = data.readUInt32LE(offset);
+			offset += 4;
+			const value = data
+				.subarray(offset, offset + length)
+				.toString("utf8")
+				.replace(/\0/g, "")
+				.trim();
+			offset += length;
+			return value;
+		};
+
+		// A malformed account is permanent; treat it as having no metadata
+		try {
+			const name = readString();
+			const symbol = readString();
+			const uri = readString();
+
+			return { name, symbol, uri };
+		} catch {
+			return null;
+		}
+	}
+
+	/**
+	 * Fetch the off-chain metadata JSON and return its image
+	 * Any failure, or a URI that is not a public https one, means no logo
+	 */
+	private async fetchLogoFromUri(uri?: string): Promise<string | undefined> {
+		const url = uri ? toPublicMetadataUrl(uri) : null;
+		if (!url) return undefined;
+
+		try {
+			const response = await fetch(url, {
+				redirect: "error", // A redirect could point anywhere
+				signal: AbortSignal.timeout(METADATA_FETCH_TIMEOUT_MS),
+			});
+			if (!response.ok) return undefined;
+
+			const length = Number(response.headers.get("content-length"));
+			if (length > METADATA_MAX_BYTES) return undefined;
+
+			const body = await response.text();
+			if (body.length > METADATA_MAX_BYTES) return undefined;
+
+			const json = JSON.parse(body);
+			return typeof json?.image === "string" ? json.image : undefined;
+		} catch {
+			return undefined;
+		}
+	}
+}
+
+// Singleton instance
+let tokenRegistryInstance: TokenRegistry | null = null;
+
+export function getTokenRegistry(): TokenRegistry {
+	if (!tokenRegistryInstance) {
+		tokenRegistryInstance = new TokenRegistry();
+	}
+	return tokenRegistryInstance;
+}
@@ -0,0 +1,62 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { describe, expect, it } from 'vitest';
+import type { HeliusTransaction } from './helius-service';
+import { ASSOCIATED_TOKEN_PROGRAM_ID } from './token-accounts';
+import { classifyTransaction } from './transaction-classifier';
+
+const FIXTURE_DIR = join(process.cwd(), 'scripts/fixtures/helius-webhook');
+const WALLET = 'HN7cABqLq46Es1jh92dQQisAq662SmxELLLsHHe4YWrH';
+const RECIPIENT = '7UX2i7SucgLMQcfZ75s3VXmZZY4YRUyJN9X1RgfMoDUi';
+const RECIPIENT_TOKEN_ACCOUNT = 'CFcjRGeCRrHnqBKcMtyaqvMhFmBeSQjPXnEo5LWcvk9a';
+const USDC_MINT = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+
+function loadFixture(name: string): HeliusTransaction {
+  const raw = readFileSync(join(FIXTURE_DIR, name), 'utf8').replaceAll('{{WALLET}}', WALLET);
+  return (JSON.parse(raw) as HeliusTransaction[])[0];
+}
+
+/**
+ * The recorded USDC payment, as a first send that also creates the
+ * recipient's USDC account
+ */
+function firstUsdcSend(): HeliusTransaction {
+  const tx = loadFixture('usdc-payment.json');
+  tx.nativeTransfers = [{ fromUserAccount: WALLET, toUserAccount: RECIPIENT_TOKEN_ACCOUNT, amount: 2039280 }];
+  tx.instructions = [
+    {
+      programId: ASSOCIATED_TOKEN_PROGRAM_ID,
+      accounts: [WALLET, RECIPIENT_TOKEN_ACCOUNT, RECIPIENT, USDC_MINT],
+      data: '',
+      innerInstructions: [],
+    },
+    ...(tx.instructions || []),
+  ];
+  return tx;
+}
+
+describe('classifyTransaction', () => {
+  it('classifies the recorded payments as payments', () => {
+    expect(classifyTransaction(loadFixture('sol-payment.json'), WALLET)).toBe('payment');
+    expect(classifyTransaction(loadFixture('usdc-payment.json'), WALLET)).toBe('payment');
+  });
+
+  it('classifies a send to a linked wallet as a self-transfer', () => {
+    expect(classifyTransaction(loadFixture('usdc-payment.json'), WALLET, [RECIPIENT])).toBe('self_transfer');
+  });
+
+  it('ignores funding the linked wallet a new token account', () => {
+    expect(classifyTransaction(firstUsdcSend(), WALLET, [RECIPIENT])).toBe('self_transfer');
+    expect(classifyTransaction(firstUsdcSend(), WALLET)).toBe('payment');
+  });
+
+  it('still counts SOL sent to another wallet alongside a linked-wallet send', () => {
+    const tx = firstUsdcSend();
+    tx.nativeTransfers = [
+      ...(tx.nativeTransfers || []),
+      { fromUserAccount: WALLET, toUserAccount: '9xQeWvG816bUx9EPjHmaT23yvVM2ZWbrrpZb9PusVFin', amount: 52500000 },
+    ];
+
+    expect(classifyTransaction(tx, WALLET, [RECIPIENT])).toBe('payment');
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Transaction Classifier
+ * Labels Helius enhanced transactions (payment, swap, stake, NFT purchase,
+ * Jupiter Lend deposit/withdraw, self-transfer...) from their type, source
+ * and events so round-ups can include or exclude each category
+ */
+
+import { JUPITER_LEND_PROGRAM_ID } from '@/utils/jupiter-lend';
+import type { TransactionCategory } from '../db/types';
+import type { HeliusTransaction } from './helius-service';
+import { collectCreatedTokenAccounts } from './token-accounts';
+
+export const TRANSACTION_CATEGORIES: TransactionCategory[] = [
+  'payment',
+  'swap',
+  'stake',
+  'unstake',
+  'nft_purchase',
+  'nft_sale',
+  'lend_deposit',
+  'lend_withdraw',
+  'self_transfer',
+  'other',
+];
+
+// Categories that generate round-ups unless the user changes their preferences
+export const DEFAULT_ROUNDUP_CATEGORIES: TransactionCategory[] = ['payment', 'nft_purchase'];
+
+// Categories that never generate round-ups: our own Jupiter Lend deposits
+// would otherwise be rounded up again, and moving funds between the user's
+// own wallets is not spending
+export const EXCLUDED_ROUNDUP_CATEGORIES: TransactionCategory[] = ['lend_deposit', 'self_transfer'];
+
+// Categories the user can switch on or off
+export const CONFIGURABLE_ROUNDUP_CATEGORIES: TransactionCategory[] = TRANSACTION_CATEGORIES.filter(
+  (category) => !EXCLUDED_ROUNDUP_CATEGORIES.includes(category)
+);
+
+const SWAP_TYPES = new Set(['SWAP']);
+const STAKE_TYPES = new Set(['STAKE_SOL', 'STAKE_TOKEN']);
+const UNSTAKE_TYPES = new Set(['UNSTAKE_SOL', 'UNSTAKE_TOKEN', 'WITHDRAW_STAKE']);
+const NFT_PURCHASE_TYPES = new Set(['NFT_MINT', 'COMPRESSED_NFT_MINT', 'NFT_BID']);
+
+export function isTransactionCategory(value: unknown): value is TransactionCategory {
+  return typeof value === 'string' && TRANSACTION_CATEGORIES.includes(value as TransactionCategory);
+}
+
+/**
+ * Check whether any top-level or inner instruction calls a program
+ * Programs also appear in accountData, which covers payloads without instructions
+ */
+function invokesProgram(tx: HeliusTransaction, programId: string): boolean {
+  const inInstructions = (tx.instructions || []).some(
+    (instruction) =>
+      instruction.programId === programId ||
+      (instruction.innerInstructions || []).some((inner) => inner.programId === programId)
+  );
+
+  return inInstructions || (tx.accountData || []).some((data) => data.account === programId);
+}
+
+/**
+ * Check whether every transfer touching the wallet stays within the user's own wallets
+ * Funding a token account created in the same transaction (e.g. the linked
+ * wallet's USDC account on a first send) is rent, not a transfer
+ */
+function isSelfTransfer(tx: HeliusTransaction, walletAddress: string, ownWallets: Set<string>): boolean {
+  const createdAccounts = collectCreatedTokenAccounts(tx);
+  const nativeTransfers = (tx.nativeTransfers || []).filter(
+    (transfer) => !createdAccounts.has(transfer.toUserAccount)
+  );
+
+  const transfers = [...nativeTransfers, ...(tx.tokenTransfers || [])].filter(
+    (transfer) =>
+      transfer.fromUserAccount === walletAddress || transfer.toUserAccount === walletAddress
+  );
+
+  return (
+    transfers.length > 0 &&
+    transfers.every(
+      (transfer) =>
+        ownWallets.has(transfer.fromUserAccount) && ownWallets.has(transfer.toUserAccount)
+    )
+  );
+}
+
+/**
+ * Classify a Helius enhanced transaction from the wallet's point of view
+ * @param tx Helius transaction
+ * @param walletAddress User's wallet address
+ * @param linkedWallets Other wallets owned by the same user
+ */
+export function classifyTransaction(
+  tx: HeliusTransaction,
+  walletAddress: string,
+  linkedWallets: string[] = []
+): TransactionCategory {
+  // Jupiter Lend (Earn) deposits and withdrawals
+  if (invokesProgram(tx, JUPITER_LEND_PROGRAM_ID)) {
+    if (tx.type === 'WITHDRAW') return 'lend_withdraw';
+    if (tx.type === 'DEPOSIT') return 'lend_deposit';
+
+    const sentTokens = (tx.tokenTransfers || []).some(
+      (transfer) => transfer.fromUserAccount === walletAddress
+    );
+    return sentTokens ? 'lend_deposit' : 'lend_withdraw';
+  }
+
+  if (SWAP_TYPES.has(tx.type) || tx.events?.swap) {
+    return 'swap';
+  }
+
+  if (STAKE_TYPES.has(tx.type)) return 'stake';
+  if (UNSTAKE_TYPES.has(tx.type)) return 'unstake';
+
+  const nftEvent = tx.events?.nft;
+  if (nftEvent) {
+    if (nftEvent.buyer === walletAddress) return 'nft_purchase';
+    if (nftEvent.seller === walletAddress) return 'nft_sale';
+  }
+  if (NFT_PURCHASE_TYPES.has(tx.type)) return 'nft_purchase';
+
+  if (isSelfTransfer(tx, walletAddress, new Set([walletAddress, ...linkedWallets]))) {
+    return 'self_transfer';
+  }
+
+  const sentFunds =
+    (tx.nativeTransfers || []).some((transfer) => transfer.fromUserAccount === walletAddress) ||
+    (tx.tokenTransfers || []).some((transfer) => transfer.fromUserAccount === walletAddress);
+
+  if (tx.type === 'TRANSFER' || sentFunds) {
+    return 'payment';
+  }
+
+  return 'other';
+}
@@ -12,6 +12,8 @@ import {
 // Removed unused @solana/kit imports
 import { config } from "../config";
 import { IWalletProvider } from "../wallet/interface";
+import { TokenRegistry, getTokenRegistry } from "./token-registry";
+import { TokenBucket, getRpcRateLimiter } from "./rpc-rate-limiter";
 
 export interface TransactionDetails {
 	signature: string;
@@ -30,29 +32,90 @@ export interface TransactionDetails {
 
 export interface FetchTransactionsOptions {
 	lookbackDays?: number;
-	limit?: number;
-	before?: string;
-	until?: string;
+	limit?: number; // Maximum signatures scanned in this call
+	before?: string; // Start after this signature, e.g. a cursor from an earlier call
+	until?: string; // Stop at this signature (exclusive), e.g. a known baseline
 }
 
+export interface FetchTransactionsResult {
+	transactions: TransactionDetails[];
+	// Pass as `before` to continue; null once the lookback window, `until`
+	// or the start of the wallet's history was reached
+	cursor: string | null;
+}
+
+// getSignaturesForAddress page size (RPC maximum)
+const SIGNATURE_PAGE_SIZE = 1000;
+
+export interface TransactionFetchMetrics {
+	requests: number; // RPC calls made, including retries
+	transactions: number; // Transactions returned by the node
+	batches: number; // Successful getParsedTransactions calls
+	failedBatches: number; // Batches given up on after every retry
+	retries: number;
+	rateLimited: number; // Responses with HTTP 429
+	throttledMs: number; // Time spent waiting on the endpoint's rate limiter
+	durationMs: number; // Wall time spent fetching transactions
+	transactionsPerSecond: number;
+}
+
+// Rate limiting, server errors and dropped connections are worth retrying
+const RETRYABLE_ERROR =
+	/\b(429|5\d\d)\b|fetch failed|ECONNRESET|ETIMEDOUT|ECONNREFUSED|socket hang up/i;
+
 export class TransactionFetcher {
 	private connection: Connection;
+	private rpcUrl: string;
+	private rateLimiter: TokenBucket;
+	private tokenRegistry: TokenRegistry;
+	private metrics: Omit<TransactionFetchMetrics, "transactionsPerSecond"> = {
+		requests: 0,
+		transactions: 0,
+		batches: 0,
+		failedBatches: 0,
+		retries: 0,
+		rateLimited: 0,
+		throttledMs: 0,
+		durationMs: 0,
+	};
 
-	constructor() {
+	/**
+	 * @param rpcUrl RPC endpoint; defaults to the configured cluster's
+	 */
+	constructor(rpcUrl?: string) {
 		const solanaConfig = config.getSolanaConfig();
-		this.connection = new Connection(
-			solanaConfig.rpcUrl,
-			solanaConfig.commitment
-		);
+		this.rpcUrl = rpcUrl || solanaConfig.rpcUrl;
+		this.connection = this.createConnection();
+		this.rateLimiter = getRpcRateLimiter(this.rpcUrl);
+		this.tokenRegistry = getTokenRegistry();
+	}
+
+	/**
+	 * Request, retry and throughput counters for this fetcher
+	 */
+	getMetrics(): TransactionFetchMetrics {
+		return {
+			...this.metrics,
+			transactionsPerSecond:
+				this.metrics.durationMs > 0
+					? Math.round(
+							(this.metrics.transactions / this.metrics.durationMs) *
+								100000
+					  ) / 100
+					: 0,
+		};
 	}
 
 	/**
 	 * Fetch transactions for a wallet address
+	 * Walks signature pages back from `before` until the lookback window or
+	 * `until` is reached. When `limit` signatures were scanned first, the
+	 * result carries a cursor to resume from
 	 */
 	async fetchTransactions(
 		walletProvider: IWalletProvider,
 		options: FetchTransactionsOptions = {}
-	): Promise<TransactionDetails[]> {
+	): Promise<FetchTransactionsResult> {
 		const publicKey = await walletProvider.getPublicKey();
 		const lookbackDays =
 			options.lookbackDays || config.getTransactionLookbackDays();
@@ -64,26 +127,45 @@ export class TransactionFetcher {
 			Math.floor(now / 1000) - lookbackDays * 24 * 60 * 60;
 
 		try {
-			// Fetch transaction signatures
-			const signatures = await this.fetchSignatures(
-				publicKey,
-				limit,
-				options.before
-			);
+			const signatures: ConfirmedSignatureInfo[] = [];
+			let scanned = 0;
+			let before = options.before;
+			let cursor: string | null = null;
+
+			// Fetch transaction signatures page by page, newest first
+			while (scanned < limit) {
+				const pageSize = Math.min(SIGNATURE_PAGE_SIZE, limit - scanned);
+				const page = await this.fetchSignatures(
+					publicKey,
+					pageSize,
+					before,
+					options.until
+				);
+				scanned += page.length;
 
-			// Filter by timestamp if needed
-			const filteredSignatures = signatures.filter((sig) => {
-				if (!sig.blockTime) return false;
-				return sig.blockTime >= lookbackTimestamp;
-			});
+				const withinLookback = page.filter(
+					(sig) => !sig.blockTime || sig.blockTime >= lookbackTimestamp
+				);
+				// Transactions without a block time cannot be listed
+				signatures.push(...withinLookback.filter((sig) => sig.blockTime));
+
+				// A short page means `until` or the start of history was reached
+				if (withinLookback.length < page.length || page.length < pageSize) {
+					cursor = null;
+					break;
+				}
+
+				before = page[page.length - 1].signature;
+				cursor = before;
+			}
 
 			// Fetch and parse transaction details
 			const transactions = await this.fetchTransactionDetails(
 				publicKey,
-				filteredSignatures
+				signatures
 			);
 
-			return transactions;
+			return { transactions, cursor };
 		} catch (error) {
 			console.error("Error fetching transactions:", error);
 			throw new Error(
@@ -95,24 +177,30 @@ export class TransactionFetcher {
 	}
 
 	/**
-	 * Fetch transaction signatures for a public key
+	 * Fetch one page of transaction signatures for a public key, newest first
+	 * @param before Start after this signature
+	 * @param until Stop at this signature (exclusive)
 	 */
-	private async fetchSignatures(
+	async fetchSignatures(
 		publicKey: PublicKey,
 		limit: number,
-		before?: string
+		before?: string,
+		until?: string
 	): Promise<ConfirmedSignatureInfo[]> {
 		try {
-			const options: { limit: number; before?: string } = { limit };
+			const options: { limit: number; before?: string; until?: string } = {
+				limit,
+			};
 			if (before) {
 				options.before = before;
 			}
+			if (until) {
+				options.until = until;
+			}
 
-			const signatures =
-				await this.connection.getSignaturesForAddress(
-					publicKey,
-					options
-				);
+			const signatures = await this.request("getSignaturesForAddress", () =>
+				this.connection.getSignaturesForAddress(publicKey, options)
+			);
 			return signatures;
 		} catch (error) {
 			console.error("Error fetching signatures:", error);
@@ -120,79 +208,170 @@ export class TransactionFetcher {
 		}
 	}
 
+	/**
+	 * Fetch jsonParsed transactions by signature
+	 * Results are in the same order as the signatures; transactions the RPC
+	 * node does not have are null. Throws if a batch still fails after its
+	 * retries, so callers never mistake an error for a missing transaction
+	 */
+	async fetchParsedTransactions(
+		signatures: string[]
+	): Promise<(ParsedTransactionWithMeta | null)[]> {
+		return this.fetchInBatches(signatures, false);
+	}
+
 	/**
 	 * Fetch and parse transaction details
+	 * Batches that still fail after their retries are skipped
 	 */
 	private async fetchTransactionDetails(
 		walletPublicKey: PublicKey,
 		signatures: ConfirmedSignatureInfo[]
 	): Promise<TransactionDetails[]> {
+		const parsed = await this.fetchInBatches(
+			signatures.map((sig) => sig.signature),
+			true
+		);
 		const transactions: TransactionDetails[] = [];
 
-		// Fetch transactions sequentially to avoid rate limits on public RPC
-		// For production, use a paid RPC provider for better rate limits
-		for (const sig of signatures) {
+		for (let i = 0; i < signatures.length; i++) {
+			const tx = parsed[i];
+			if (!tx || !tx.blockTime) continue;
+
 			try {
-				const tx = await this.parseTransaction(walletPublicKey, sig);
-				if (tx) {
-					transactions.push(tx);
-				}
-				// Delay between each request to respect rate limits
-				await new Promise((resolve) => setTimeout(resolve, 300));
+				transactions.push(
+					await this.extractTransactionDetails(
+						walletPublicKey,
+						tx,
+						signatures[i]
+					)
+				);
 			} catch (error) {
 				console.error(
-					`Failed to parse transaction ${sig.signature}:`,
+					`Failed to parse transaction ${signatures[i].signature}:`,
 					error
 				);
 				// Continue with next transaction even if one fails
 			}
 		}
 
+		const metrics = this.getMetrics();
+		console.log(
+			`Fetched ${metrics.transactions} transactions in ${metrics.durationMs}ms ` +
+				`(${metrics.transactionsPerSecond}/s, ${metrics.retries} retries, ` +
+				`${metrics.rateLimited} rate limited, ${metrics.failedBatches} failed batches)`
+		);
+
 		return transactions;
 	}
 
 	/**
-	 * Parse a single transaction
+	 * Fetch transactions with batched getParsedTransactions calls, running at
+	 * most `concurrency` batches at once
+	 * @param skipFailedBatches Return nulls for a batch that keeps failing
+	 * instead of throwing
 	 */
-	private async parseTransaction(
-		walletPublicKey: PublicKey,
-		signatureInfo: ConfirmedSignatureInfo
-	): Promise<TransactionDetails | null> {
-		try {
-			const tx = await this.connection.getParsedTransaction(
-				signatureInfo.signature,
-				{
-					maxSupportedTransactionVersion: 0,
-				}
-			);
+	private async fetchInBatches(
+		signatures: string[],
+		skipFailedBatches: boolean
+	): Promise<(ParsedTransactionWithMeta | null)[]> {
+		const { batchSize, concurrency } = config.getRpcFetchConfig();
+		const batches: string[][] = [];
+		for (let i = 0; i < signatures.length; i += batchSize) {
+			batches.push(signatures.slice(i, i + batchSize));
+		}
 
-			if (!tx || !tx.blockTime) {
-				return null;
+		const results: (ParsedTransactionWithMeta | null)[][] = [];
+		const started = Date.now();
+		let next = 0;
+		let failed = false;
+
+		// Each worker takes the next batch until none are left
+		const worker = async () => {
+			while (next < batches.length && !failed) {
+				const index = next++;
+				try {
+					results[index] = await this.request(
+						"getParsedTransactions",
+						() =>
+							this.connection.getParsedTransactions(batches[index], {
+								maxSupportedTransactionVersion: 0,
+							})
+					);
+					this.metrics.batches++;
+				} catch (error) {
+					this.metrics.failedBatches++;
+					if (!skipFailedBatches) {
+						failed = true;
+						throw error;
+					}
+					console.error(
+						`Failed to fetch ${batches[index].length} transactions:`,
+						error
+					);
+					results[index] = batches[index].map(() => null);
+				}
 			}
+		};
 
-			const details = this.extractTransactionDetails(
-				walletPublicKey,
-				tx,
-				signatureInfo
-			);
-			return details;
-		} catch (error) {
-			console.error(
-				`Error parsing transaction ${signatureInfo.signature}:`,
-				error
+		try {
+			await Promise.all(
+				Array.from(
+					{ length: Math.min(Math.max(concurrency, 1), batches.length) },
+					worker
+				)
 			);
-			return null;
+		} finally {
+			this.metrics.durationMs += Date.now() - started;
+		}
+
+		const transactions = results.flat();
+		this.metrics.transactions += transactions.filter(Boolean).length;
+		return transactions;
+	}
+
+	/**
+	 * Run an RPC call within the endpoint's rate limit, retrying 429s, 5xx
+	 * responses and network errors with exponential backoff and ±20% jitter
+	 */
+	private async request<T>(method: string, call: () => Promise<T>): Promise<T> {
+		const { maxRetries, retryBaseMs, retryMaxMs } = config.getRpcFetchConfig();
+
+		for (let attempt = 0; ; attempt++) {
+			this.metrics.throttledMs += await this.rateLimiter.acquire();
+			this.metrics.requests++;
+
+			try {
+				return await call();
+			} catch (error) {
+				const message = error instanceof Error ? error.message : String(error);
+				if (/\b429\b/.test(message)) {
+					this.metrics.rateLimited++;
+				}
+				if (attempt >= maxRetries || !RETRYABLE_ERROR.test(message)) {
+					throw error;
+				}
+
+				this.metrics.retries++;
+				const delay =
+					Math.min(retryBaseMs * 2 ** attempt, retryMaxMs) *
+					(0.8 + Math.random() * 0.4);
+				console.warn(
+					`${method} failed (${message}), retry ${attempt + 1}/${maxRetries} in ${Math.round(delay)}ms`
+				);
+				await new Promise((resolve) => setTimeout(resolve, delay));
+			}
 		}
 	}
 
 	/**
 	 * Extract relevant details from a parsed transaction
 	 */
-	private extractTransactionDetails(
+	private async extractTransactionDetails(
 		walletPublicKey: PublicKey,
 		tx: ParsedTransactionWithMeta,
 		signatureInfo: ConfirmedSignatureInfo
-	): TransactionDetails {
+	): Promise<TransactionDetails> {
 		const walletAddress = walletPublicKey.toString();
 
 		// Basic transaction info
@@ -229,7 +408,7 @@ export class TransactionFetcher {
 				}
 
 				// Try to extract token information from parsed instructions
-				this.extractTokenInfo(tx, details);
+				await this.extractTokenInfo(tx, details);
 			}
 		}
 
@@ -239,10 +418,10 @@ export class TransactionFetcher {
 	/**
 	 * Extract token information from transaction instructions
 	 */
-	private extractTokenInfo(
+	private async extractTokenInfo(
 		tx: ParsedTransactionWithMeta,
 		details: TransactionDetails
-	): void {
+	): Promise<void> {
 		if (!tx.meta?.postTokenBalances || !tx.meta?.preTokenBalances) {
 			return;
 		}
@@ -264,7 +443,9 @@ export class TransactionFetcher {
 
 				if (Math.abs(change) > 0) {
 					details.tokenMint = postBalance.mint;
-					details.tokenSymbol = this.getTokenSymbol(postBalance.mint);
+					details.tokenSymbol = await this.tokenRegistry.getSymbol(
+						postBalance.mint
+					);
 
 					// Override amount if this is a token transfer
 					if (
@@ -278,29 +459,18 @@ export class TransactionFetcher {
 		}
 	}
 
-	/**
-	 * Get token symbol from mint address
-	 * This is a simple mapping - in production, you'd want a more comprehensive solution
-	 */
-	private getTokenSymbol(mint: string): string {
-		const knownTokens: { [key: string]: string } = {
-			EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v: "USDC", // Mainnet USDC
-			"4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU": "USDC", // Devnet USDC
-			Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB: "USDT",
-			So11111111111111111111111111111111111111112: "SOL",
-		};
-
-		return knownTokens[mint] || "UNKNOWN";
-	}
-
 	/**
 	 * Get a fresh connection (useful for reconnecting after errors)
 	 */
 	refreshConnection(): void {
-		const solanaConfig = config.getSolanaConfig();
-		this.connection = new Connection(
-			solanaConfig.rpcUrl,
-			solanaConfig.commitment
-		);
+		this.connection = this.createConnection();
+	}
+
+	private createConnection(): Connection {
+		return new Connection(this.rpcUrl, {
+			commitment: config.getSolanaConfig().commitment,
+			// Retries are handled by request() so they are rate limited and counted
+			disableRetryOnRateLimit: true,
+		});
 	}
 }
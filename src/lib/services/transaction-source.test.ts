@@ -0,0 +1,68 @@
+import { join } from 'path';
+import { describe, expect, it } from 'vitest';
+import { createTransactionSource, FixtureTransactionSource } from './transaction-source';
+
+const FIXTURE_DIR = join(process.cwd(), 'scripts/fixtures/helius-webhook');
+const WALLET = 'HN7cABqLq46Es1jh92dQQisAq662SmxELLLsHHe4YWrH';
+const SOL_PAYMENT = '5h6xBEauJ3PK6SWCZ1PGjBvj8vDdWG3KpwATGy1ARAXFSDwt8GFXM7W5Ncn16wmqokgpiKRLuS83KUxyZyv2sUYv';
+const USDC_PAYMENT = '3nPWiFqgoCBpwJ9xqVqh6i9U7CejsXWSnVq3bVVXHkyCTE3fXvDkDQSo6MZ5Xs5PbFJW4yBBtDbJVXu1PYL8tB8M';
+const WSOL_PAYMENT = 'MASi45ub7Qe4ZE36UT5G6cU4ud8Fhhe4deS4F3cw9KTAb8dLcukC7edhDQ7cn5d4gEYkbUrMWeWQLGsCmrG6dLaY';
+
+describe('FixtureTransactionSource', () => {
+  it('reads every fixture in a directory as the wallet, newest first', async () => {
+    const source = new FixtureTransactionSource(FIXTURE_DIR);
+
+    const { transactions, cursor } = await source.fetchOutgoingTransactions(WALLET);
+
+    expect(transactions.map((tx) => tx.signature)).toEqual([USDC_PAYMENT, SOL_PAYMENT, WSOL_PAYMENT]);
+    expect(transactions.every((tx) => tx.fromAddress === WALLET)).toBe(true);
+    expect(cursor).toBeNull();
+  });
+
+  it('reads a single fixture file', async () => {
+    const source = new FixtureTransactionSource(join(FIXTURE_DIR, 'sol-payment.json'));
+
+    const { transactions } = await source.fetchOutgoingTransactions(WALLET);
+
+    expect(transactions.map((tx) => tx.signature)).toEqual([SOL_PAYMENT]);
+  });
+
+  it('pages through the history with the returned cursor', async () => {
+    const source = new FixtureTransactionSource(FIXTURE_DIR);
+
+    const first = await source.fetchOutgoingTransactions(WALLET, 1);
+    expect(first.transactions.map((tx) => tx.signature)).toEqual([USDC_PAYMENT]);
+    expect(first.cursor).toBe(USDC_PAYMENT);
+
+    const second = await source.fetchOutgoingTransactions(WALLET, 1, { before: first.cursor! });
+    expect(second.transactions.map((tx) => tx.signature)).toEqual([SOL_PAYMENT]);
+    expect(second.cursor).toBe(SOL_PAYMENT);
+
+    const third = await source.fetchOutgoingTransactions(WALLET, 1, { before: second.cursor! });
+    expect(third.transactions.map((tx) => tx.signature)).toEqual([WSOL_PAYMENT]);
+    expect(third.cursor).toBeNull();
+  });
+
+  it('stops at the baseline and the lookback window', async () => {
+    const source = new FixtureTransactionSource(FIXTURE_DIR);
+
+    const afterBaseline = await source.fetchOutgoingTransactions(WALLET, 100, { afterSignature: SOL_PAYMENT });
+    expect(afterBaseline.transactions.map((tx) => tx.signature)).toEqual([USDC_PAYMENT]);
+    expect(afterBaseline.cursor).toBeNull();
+
+    const sinceWindow = await source.fetchOutgoingTransactions(WALLET, 100, { since: 1760000030 });
+    expect(sinceWindow.transactions.map((tx) => tx.signature)).toEqual([USDC_PAYMENT]);
+  });
+
+  it('reports the newest recorded signature', async () => {
+    const source = new FixtureTransactionSource(FIXTURE_DIR);
+
+    expect(await source.getLatestSignature(WALLET)).toBe(USDC_PAYMENT);
+  });
+
+  it('requires a fixture path to be configured', () => {
+    expect(() => createTransactionSource({ source: 'fixture', rpcUrl: '', fixturePath: null })).toThrow(
+      'TRANSACTION_SOURCE_FIXTURE_PATH must be set to use the fixture transaction source'
+    );
+  });
+});
@@ -0,0 +1,292 @@
+/**
+ * Transaction Sources
+ * Where the round-up stack reads wallet history from. Every source yields
+ * Helius enhanced transactions (plain RPC ones via the RPC transaction
+ * parser) and normalizes them with HeliusService.parseTransaction, so the
+ * pipeline sees the same WalletTransaction whichever source is configured.
+ */
+
+import { readdir, readFile, stat } from 'fs/promises';
+import { join } from 'path';
+import { PublicKey } from '@solana/web3.js';
+import { config } from '../config';
+import type { TransactionSourceConfig, TransactionSourceName } from '../config';
+import type { TransactionCategory } from '../db/types';
+import { getHeliusService, HeliusTransaction } from './helius-service';
+import { toHeliusTransaction } from './rpc-transaction-parser';
+import { TransactionFetcher } from './transaction-fetcher';
+
+export interface AssetOutflow {
+  token: string; // 'SOL', 'USDC', etc.
+  tokenMint: string | null; // null for native SOL
+  tokenDecimals: number;
+  amount: number; // Net amount that left the wallet, in SOL or token units
+  toAddress: string; // Largest recipient of this asset
+}
+
+/**
+ * Canonical outgoing wallet transaction used throughout the round-up stack
+ */
+export interface WalletTransaction {
+  signature: string;
+  timestamp: number;
+  slot: number;
+  fee: number;
+  rent: number; // Rent-exempt SOL for token accounts the transaction created (account funding, not spending)
+  type: 'sent' | 'received' | 'unknown';
+  category: TransactionCategory;
+  amount: number; // In SOL or token amount (primary outflow)
+  token: string; // 'SOL', 'USDC', etc.
+  tokenMint: string | null;
+  tokenDecimals: number;
+  fromAddress: string;
+  toAddress: string;
+  outflows: AssetOutflow[]; // Every asset the wallet spent, token outflows first
+}
+
+export interface FetchOutgoingOptions {
+  afterSignature?: string; // Only fetch transactions after this signature (baseline)
+  since?: number; // Only fetch transactions at or after this unix timestamp (seconds)
+  linkedWallets?: string[]; // Other wallets owned by the same user
+  before?: string; // Resume an earlier walk from its cursor
+}
+
+export interface FetchOutgoingResult {
+  transactions: WalletTransaction[]; // Newest first
+  cursor: string | null; // Where the walk stopped at the limit; null once it reached the baseline, lookback or end of history
+}
+
+export interface TransactionSource {
+  readonly name: TransactionSourceName;
+
+  /**
+   * Fetch and normalize a wallet's outgoing transactions, newest first
+   * @param address Wallet address
+   * @param limit Maximum number of outgoing transactions
+   * @param options Baseline, lookback, linked wallets and resume cursor
+   */
+  fetchOutgoingTransactions(
+    address: string,
+    limit?: number,
+    options?: FetchOutgoingOptions
+  ): Promise<FetchOutgoingResult>;
+
+  /**
+   * Signature of the wallet's most recent transaction, used as its baseline
+   * Throws when the source cannot be reached
+   */
+  getLatestSignature(address: string): Promise<string | null>;
+}
+
+interface TransactionPage {
+  transactions: HeliusTransaction[]; // Newest first
+  nextBefore: string | null; // Cursor for the next, older page; null at the end of history
+}
+
+type FetchPage = (before: string | undefined, pageSize: number) => Promise<TransactionPage>;
+
+/**
+ * Page back through a wallet's history until the limit, the baseline or
+ * the lookback window is reached, keeping the transactions the wallet sent
+ * Stopping at the limit returns a cursor to resume the walk from
+ */
+async function collectOutgoing(
+  address: string,
+  limit: number,
+  options: FetchOutgoingOptions,
+  fetchPage: FetchPage
+): Promise<FetchOutgoingResult> {
+  const { afterSignature, since, linkedWallets = [] } = options;
+  const heliusService = getHeliusService();
+  const outgoing: WalletTransaction[] = [];
+  let before = options.before;
+
+  while (outgoing.length < limit) {
+    const page = await fetchPage(before, Math.min(100, limit - outgoing.length));
+
+    for (const tx of page.transactions) {
+      // Stop at the baseline transaction or the end of the lookback window
+      if (
+        (afterSignature && tx.signature === afterSignature) ||
+        (since !== undefined && tx.timestamp < since)
+      ) {
+        return { transactions: outgoing, cursor: null };
+      }
+
+      const parsed = await heliusService.parseTransaction(tx, address, linkedWallets);
+      if (parsed && parsed.type === 'sent') {
+        outgoing.push(parsed);
+      }
+    }
+
+    if (!page.nextBefore) {
+      return { transactions: outgoing, cursor: null };
+    }
+    before = page.nextBefore;
+  }
+
+  // Pages never hold more outgoing transactions than the limit has left,
+  // so the walk stops on a page boundary
+  return { transactions: outgoing, cursor: before || null };
+}
+
+/**
+ * Helius Enhanced Transactions API
+ */
+export class HeliusTransactionSource implements TransactionSource {
+  readonly name = 'helius' as const;
+
+  async fetchOutgoingTransactions(
+    address: string,
+    limit: number = 100,
+    options: FetchOutgoingOptions = {}
+  ): Promise<FetchOutgoingResult> {
+    return collectOutgoing(address, limit, options, async (before, pageSize) => {
+      const transactions = await getHeliusService().fetchTransactions(address, pageSize, before);
+      return {
+        transactions,
+        nextBefore: transactions[transactions.length - 1]?.signature || null,
+      };
+    });
+  }
+
+  async getLatestSignature(address: string): Promise<string | null> {
+    const transactions = await getHeliusService().fetchTransactions(address, 1);
+    return transactions[0]?.signature || null;
+  }
+}
+
+/**
+ * Any Solana RPC node (public cluster, private provider or local validator)
+ */
+export class RpcTransactionSource implements TransactionSource {
+  readonly name = 'rpc' as const;
+  private fetcher: TransactionFetcher;
+
+  constructor(rpcUrl: string) {
+    this.fetcher = new TransactionFetcher(rpcUrl);
+  }
+
+  async fetchOutgoingTransactions(
+    address: string,
+    limit: number = 100,
+    options: FetchOutgoingOptions = {}
+  ): Promise<FetchOutgoingResult> {
+    const publicKey = new PublicKey(address);
+
+    // The node stops at the baseline itself, even if the baseline
+    // transaction can no longer be fetched
+    return collectOutgoing(address, limit, options, async (before, pageSize) => {
+      const signatures = await this.fetcher.fetchSignatures(publicKey, pageSize, before, options.afterSignature);
+      const parsed = await this.fetcher.fetchParsedTransactions(signatures.map((info) => info.signature));
+
+      return {
+        transactions: parsed.flatMap((tx, index) =>
+          tx ? [toHeliusTransaction(tx, signatures[index].signature)] : []
+        ),
+        nextBefore: signatures.length === pageSize ? signatures[signatures.length - 1].signature : null,
+      };
+    });
+  }
+
+  async getLatestSignature(address: string): Promise<string | null> {
+    const signatures = await this.fetcher.fetchSignatures(new PublicKey(address), 1);
+    return signatures[0]?.signature || null;
+  }
+}
+
+/**
+ * Recorded enhanced transactions from a JSON file or a directory of them,
+ * e.g. scripts/fixtures/helius-webhook. `{{WALLET}}` in a fixture is
+ * replaced with the wallet being queried, so one recording serves any wallet
+ */
+export class FixtureTransactionSource implements TransactionSource {
+  readonly name = 'fixture' as const;
+  private fixturePath: string;
+  private fixtures: Promise<string[]> | null = null;
+
+  constructor(fixturePath: string) {
+    this.fixturePath = fixturePath;
+  }
+
+  async fetchOutgoingTransactions(
+    address: string,
+    limit: number = 100,
+    options: FetchOutgoingOptions = {}
+  ): Promise<FetchOutgoingResult> {
+    const transactions = await this.loadTransactions(address);
+
+    return collectOutgoing(address, limit, options, async (before, pageSize) => {
+      const start = before ? transactions.findIndex((tx) => tx.signature === before) + 1 : 0;
+      const page = transactions.slice(start, start + pageSize);
+      return {
+        transactions: page,
+        nextBefore: start + pageSize < transactions.length ? page[page.length - 1].signature : null,
+      };
+    });
+  }
+
+  async getLatestSignature(address: string): Promise<string | null> {
+    const transactions = await this.loadTransactions(address);
+    return transactions[0]?.signature || null;
+  }
+
+  /**
+   * Every recorded transaction for a wallet, newest first
+   */
+  private async loadTransactions(address: string): Promise<HeliusTransaction[]> {
+    const fixtures = await this.readFixtures();
+
+    return fixtures
+      .flatMap((raw) => JSON.parse(raw.replaceAll('{{WALLET}}', address)) as HeliusTransaction[])
+      .sort((a, b) => b.timestamp - a.timestamp || b.slot - a.slot);
+  }
+
+  private readFixtures(): Promise<string[]> {
+    if (!this.fixtures) {
+      this.fixtures = (async () => {
+        if (!(await stat(this.fixturePath)).isDirectory()) {
+          return [await readFile(this.fixturePath, 'utf8')];
+        }
+
+        const files = (await readdir(this.fixturePath)).filter((file) => file.endsWith('.json')).sort();
+        return Promise.all(files.map((file) => readFile(join(this.fixturePath, file), 'utf8')));
+      })();
+
+      // Let a missing fixture be fixed without a restart
+      this.fixtures.catch(() => {
+        this.fixtures = null;
+      });
+    }
+    return this.fixtures;
+  }
+}
+
+/**
+ * Create the transaction source described by a config
+ */
+export function createTransactionSource(sourceConfig: TransactionSourceConfig): TransactionSource {
+  switch (sourceConfig.source) {
+    case 'rpc':
+      return new RpcTransactionSource(sourceConfig.rpcUrl);
+    case 'fixture':
+      if (!sourceConfig.fixturePath) {
+        throw new Error('TRANSACTION_SOURCE_FIXTURE_PATH must be set to use the fixture transaction source');
+      }
+      return new FixtureTransactionSource(sourceConfig.fixturePath);
+    case 'helius':
+    default:
+      return new HeliusTransactionSource();
+  }
+}
+
+// Singleton instance
+let transactionSourceInstance: TransactionSource | null = null;
+
+export function getTransactionSource(): TransactionSource {
+  if (!transactionSourceInstance) {
+    transactionSourceInstance = createTransactionSource(config.getTransactionSourceConfig());
+    console.log(`Using ${transactionSourceInstance.name} transaction source`);
+  }
+  return transactionSourceInstance;
+}
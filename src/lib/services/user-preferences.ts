@@ -0,0 +1,248 @@
+/**
+ * User Preferences Service
+ * Reads and updates per-wallet preferences stored in Supabase
+ */
+
+import { createServerClient } from '../supabase/client';
+import type { UserPreferencesRecord } from '../supabase/types';
+import type { AutoInvestCadence, TransactionCategory } from '../db/types';
+import {
+  DEFAULT_ROUNDUP_CATEGORIES,
+  EXCLUDED_ROUNDUP_CATEGORIES,
+  isTransactionCategory,
+} from './transaction-classifier';
+import { MIN_INVESTMENT_USD } from './roundup-calculator';
+
+export const AUTO_INVEST_CADENCES: AutoInvestCadence[] = ['daily', 'weekly', 'threshold'];
+
+export function isAutoInvestCadence(value: unknown): value is AutoInvestCadence {
+  return AUTO_INVEST_CADENCES.includes(value as AutoInvestCadence);
+}
+
+export interface AutoInvestSettings {
+  enabled: boolean;
+  threshold: number; // USDC
+  cadence: AutoInvestCadence;
+}
+
+const DEFAULT_AUTO_INVEST_SETTINGS: AutoInvestSettings = {
+  enabled: false,
+  threshold: MIN_INVESTMENT_USD,
+  cadence: 'threshold',
+};
+
+export class UserPreferencesService {
+  private supabase;
+
+  constructor() {
+    this.supabase = createServerClient();
+  }
+
+  /**
+   * Get the preferences record for a wallet
+   * @param walletAddress Wallet address to look up
+   */
+  async getPreferences(walletAddress: string): Promise<UserPreferencesRecord | null> {
+    try {
+      const { data, error } = await this.supabase
+        .from('user_preferences')
+        .select('*')
+        .eq('wallet_address', walletAddress)
+        .single();
+
+      if (error) {
+        if (error.code === 'PGRST116') {
+          // No record found
+          return null;
+        }
+        throw error;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Error fetching user preferences:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the transaction categories that generate round-ups for a wallet
+   * Falls back to the defaults when the wallet has no preferences yet
+   * @param walletAddress Wallet address
+   */
+  async getRoundupCategories(walletAddress: string): Promise<TransactionCategory[]> {
+    const preferences = await this.getPreferences(walletAddress);
+
+    if (!preferences || !preferences.roundup_categories) {
+      return [...DEFAULT_ROUNDUP_CATEGORIES];
+    }
+
+    return preferences.roundup_categories.filter(isTransactionCategory);
+  }
+
+  /**
+   * Set the transaction categories that generate round-ups for a wallet
+   * Categories that never generate round-ups are dropped
+   * @param walletAddress Wallet address
+   * @param categories Categories to include
+   */
+  async setRoundupCategories(
+    walletAddress: string,
+    categories: TransactionCategory[]
+  ): Promise<UserPreferencesRecord> {
+    try {
+      const { data, error } = await this.supabase
+        .from('user_preferences')
+        .upsert(
+          {
+            wallet_address: walletAddress,
+            roundup_categories: Array.from(new Set(categories)).filter(
+              (category) => !EXCLUDED_ROUNDUP_CATEGORIES.includes(category)
+            ),
+            updated_at: new Date().toISOString(),
+          },
+          { onConflict: 'wallet_address' }
+        )
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      console.error('Error updating round-up categories:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a wallet's auto-invest settings
+   * Falls back to disabled with the minimum threshold when the wallet has no
+   * preferences yet
+   * @param walletAddress Wallet address
+   */
+  async getAutoInvestSettings(walletAddress: string): Promise<AutoInvestSettings> {
+    const preferences = await this.getPreferences(walletAddress);
+
+    if (!preferences) {
+      return { ...DEFAULT_AUTO_INVEST_SETTINGS };
+    }
+
+    return {
+      enabled: preferences.auto_invest_enabled ?? DEFAULT_AUTO_INVEST_SETTINGS.enabled,
+      threshold: Math.max(
+        Number(preferences.auto_invest_threshold ?? MIN_INVESTMENT_USD),
+        MIN_INVESTMENT_USD
+      ),
+      cadence: preferences.auto_invest_cadence ?? DEFAULT_AUTO_INVEST_SETTINGS.cadence,
+    };
+  }
+
+  /**
+   * Update a wallet's auto-invest settings
+   * The Privy user is stored so the scheduler can sign deposits for them
+   * @param walletAddress Wallet address
+   * @param settings Settings to change
+   * @param userId Privy user making the change
+   */
+  async setAutoInvestSettings(
+    walletAddress: string,
+    settings: Partial<AutoInvestSettings>,
+    userId: string
+  ): Promise<AutoInvestSettings> {
+    const current = await this.getAutoInvestSettings(walletAddress);
+    const next = { ...current, ...settings };
+
+    try {
+      const { error } = await this.supabase
+        .from('user_preferences')
+        .upsert(
+          {
+            wallet_address: walletAddress,
+            auto_invest_enabled: next.enabled,
+            auto_invest_threshold: Math.max(next.threshold, MIN_INVESTMENT_USD),
+            auto_invest_cadence: next.cadence,
+            auto_invest_user_id: userId,
+            updated_at: new Date().toISOString(),
+          },
+          { onConflict: 'wallet_address' }
+        );
+
+      if (error) throw error;
+      return this.getAutoInvestSettings(walletAddress);
+    } catch (error) {
+      console.error('Error updating auto-invest settings:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the preferences of every wallet that opted in to auto-invest
+   */
+  async getAutoInvestWallets(): Promise<UserPreferencesRecord[]> {
+    try {
+      const { data, error } = await this.supabase
+        .from('user_preferences')
+        .select('*')
+        .eq('auto_invest_enabled', true);
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('Error fetching auto-invest wallets:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Claim a wallet for one auto-invest evaluation and record the run
+   * The claim is a lease on the preferences row, so only one process
+   * evaluates a wallet at a time; a lease left by a crashed process expires
+   * @param walletAddress Wallet address
+   * @param runAt Time of the evaluation
+   * @param leaseMs How long the claim holds unless released
+   * @returns The lease's expiry, or null when another caller holds the wallet
+   */
+  async claimAutoInvestRun(walletAddress: string, runAt: Date, leaseMs: number): Promise<string | null> {
+    const now = runAt.toISOString();
+    const lease = new Date(runAt.getTime() + leaseMs).toISOString();
+
+    const { data, error } = await this.supabase
+      .from('user_preferences')
+      .update({
+        auto_invest_last_run_at: now,
+        auto_invest_lease_expires_at: lease,
+      })
+      .eq('wallet_address', walletAddress)
+      .or(`auto_invest_lease_expires_at.is.null,auto_invest_lease_expires_at.lt."${now}"`)
+      .select('id');
+
+    if (error) throw error;
+    return (data || []).length > 0 ? lease : null;
+  }
+
+  /**
+   * Release a wallet claimed with claimAutoInvestRun
+   * Leaves the wallet alone if the lease ran out and another caller claimed it
+   * @param walletAddress Wallet address
+   * @param lease Lease expiry returned by the claim
+   */
+  async releaseAutoInvestRun(walletAddress: string, lease: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('user_preferences')
+      .update({ auto_invest_lease_expires_at: null })
+      .eq('wallet_address', walletAddress)
+      .eq('auto_invest_lease_expires_at', lease);
+
+    if (error) throw error;
+  }
+}
+
+// Singleton instance
+let userPreferencesInstance: UserPreferencesService | null = null;
+
+export function getUserPreferencesService(): UserPreferencesService {
+  if (!userPreferencesInstance) {
+    userPreferencesInstance = new UserPreferencesService();
+  }
+  return userPreferencesInstance;
+}
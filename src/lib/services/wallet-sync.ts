@@ -0,0 +1,468 @@
+/**
+ * Wallet Sync Worker
+ * Background round-up tracking for every wallet in wallet_tracking. Syncs are
+ * queued as sync_jobs, run incrementally from the wallet's stored baseline
+ * through the round-up pipeline and retried with exponential backoff.
+ * Each wallet's sync status is kept on its wallet_tracking record.
+ */
+
+import { createServerClient } from '../supabase/client';
+import type { SyncJobRecord } from '../supabase/types';
+import type { SyncJob, SyncJobTrigger } from '../db/types';
+import { config } from '../config';
+import { getBaselineTracker } from './baseline-tracker';
+import { getLendTransactionService } from './lend-transaction-service';
+import { getRoundupPipeline } from './roundup-pipeline';
+
+// A running job holds a lease that the worker renews every heartbeat; a
+// job whose lease ran out was interrupted (e.g. by a restart)
+const JOB_LEASE_MS = 2 * 60 * 1000;
+const JOB_HEARTBEAT_MS = 30 * 1000;
+
+// Upper bound on jobs processed per drain, so one pass cannot run forever
+const MAX_JOBS_PER_DRAIN = 50;
+
+// sync_jobs ids; anything else cannot match a job
+const JOB_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function fromRecord(record: SyncJobRecord): SyncJob {
+  return {
+    id: record.id,
+    walletAddress: record.wallet_address,
+    trigger: record.trigger,
+    status: record.status,
+    attempts: record.attempts,
+    maxAttempts: record.max_attempts,
+    runAfter: new Date(record.run_after),
+    startedAt: record.started_at ? new Date(record.started_at) : null,
+    finishedAt: record.finished_at ? new Date(record.finished_at) : null,
+    leaseExpiresAt: record.lease_expires_at ? new Date(record.lease_expires_at) : null,
+    processed: record.processed,
+    stored: record.stored,
+    error: record.error,
+    createdAt: new Date(record.created_at),
+  };
+}
+
+function leaseExpiry(): string {
+  return new Date(Date.now() + JOB_LEASE_MS).toISOString();
+}
+
+/**
+ * Delay before retrying a job that failed its nth attempt
+ * Doubles per attempt up to the configured maximum, with ±20% jitter so
+ * wallets that failed together do not retry together
+ */
+export function getRetryDelayMs(attempts: number): number {
+  const { backoffBaseSeconds, backoffMaxSeconds } = config.getSyncWorkerConfig();
+  const delaySeconds = Math.min(
+    backoffBaseSeconds * 2 ** Math.max(attempts - 1, 0),
+    backoffMaxSeconds
+  );
+  return delaySeconds * 1000 * (0.8 + Math.random() * 0.4);
+}
+
+export class WalletSyncWorker {
+  private supabase;
+  private isDraining = false;
+
+  constructor() {
+    this.supabase = createServerClient();
+  }
+
+  /**
+   * Queue a sync for a wallet
+   * A wallet has at most one open job: if one is already queued or running,
+   * it is returned instead of queueing another. The partial unique index on
+   * open jobs settles concurrent calls; the losing insert returns the
+   * winner's job.
+   * @param walletAddress Wallet address
+   * @param trigger Why the sync was queued
+   */
+  async enqueue(walletAddress: string, trigger: SyncJobTrigger): Promise<SyncJob> {
+    try {
+      const open = await this.getOpenJob(walletAddress);
+      if (open) return open;
+
+      const { data, error } = await this.supabase
+        .from('sync_jobs')
+        .insert({
+          wallet_address: walletAddress,
+          trigger,
+          max_attempts: config.getSyncWorkerConfig().maxAttempts,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        // Another caller queued a job for this wallet in the meantime
+        if (error.code === '23505') {
+          const winner = await this.getOpenJob(walletAddress);
+          if (winner) return winner;
+        }
+        throw error;
+      }
+      return fromRecord(data);
+    } catch (error) {
+      console.error('Error queueing sync job:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a sync job by ID
+   * Returns null for ids that are not UUIDs instead of failing the query
+   */
+  async getJob(id: string): Promise<SyncJob | null> {
+    if (!JOB_ID_PATTERN.test(id)) return null;
+
+    const { data, error } = await this.supabase
+      .from('sync_jobs')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? fromRecord(data) : null;
+  }
+
+  /**
+   * Get a wallet's queued or running sync job
+   */
+  private async getOpenJob(walletAddress: string): Promise<SyncJob | null> {
+    const { data, error } = await this.supabase
+      .from('sync_jobs')
+      .select('*')
+      .eq('wallet_address', walletAddress)
+      .in('status', ['queued', 'running'])
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? fromRecord(data) : null;
+  }
+
+  /**
+   * Get a wallet's most recent sync job
+   */
+  async getLatestJob(walletAddress: string): Promise<SyncJob | null> {
+    const { data, error } = await this.supabase
+      .from('sync_jobs')
+      .select('*')
+      .eq('wallet_address', walletAddress)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? fromRecord(data) : null;
+  }
+
+  /**
+   * Queue a scheduled sync for every tracked wallet not synced within the
+   * configured interval
+   * @returns Number of wallets queued
+   */
+  async enqueueDueWallets(now: Date = new Date()): Promise<number> {
+    const intervalMs = config.getSyncWorkerConfig().intervalMinutes * 60 * 1000;
+    const wallets = await getBaselineTracker().getTrackedWallets();
+
+    const due = wallets.filter((wallet) => {
+      // Wallets whose retries ran out wait a full interval from the failure
+      const lastAttempt =
+        wallet.sync_status === 'failed' ? wallet.updated_at : wallet.last_synced_at;
+      return !lastAttempt || now.getTime() - new Date(lastAttempt).getTime() >= intervalMs;
+    });
+
+    for (const wallet of due) {
+      await this.enqueue(wallet.wallet_address, 'scheduled');
+    }
+
+    return due.length;
+  }
+
+  /**
+   * Queue due wallets, recover interrupted jobs and run everything runnable
+   */
+  async runOnce(now: Date = new Date()): Promise<{ queued: number; processed: number }> {
+    await this.requeueStaleJobs(now);
+    const queued = await this.enqueueDueWallets(now);
+    const processed = await this.drain();
+    return { queued, processed };
+  }
+
+  /**
+   * Start draining the queue in the background unless a drain is running
+   * Lets a manual scan start right away instead of waiting for the next tick
+   */
+  kick(): void {
+    this.drain().catch((error) => console.error('Sync queue drain failed:', error));
+  }
+
+  /**
+   * Run queued jobs whose retry time has passed, one at a time
+   * @returns Number of jobs run
+   */
+  async drain(): Promise<number> {
+    if (this.isDraining) return 0;
+
+    this.isDraining = true;
+    try {
+      let processed = 0;
+      while (processed < MAX_JOBS_PER_DRAIN) {
+        const job = await this.claimNextJob();
+        if (!job) break;
+
+        await this.runJob(job);
+        processed++;
+      }
+      return processed;
+    } finally {
+      this.isDraining = false;
+    }
+  }
+
+  /**
+   * Claim the next runnable job
+   * The claim only succeeds while the job is still queued, so two workers
+   * never run the same job. It starts the job's lease and counts an attempt;
+   * the attempt count then identifies this claim.
+   */
+  private async claimNextJob(): Promise<SyncJob | null> {
+    const now = new Date().toISOString();
+
+    const { data: next, error } = await this.supabase
+      .from('sync_jobs')
+      .select('*')
+      .eq('status', 'queued')
+      .lte('run_after', now)
+      .order('run_after', { ascending: true })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!next) return null;
+
+    const { data: claimed, error: claimError } = await this.supabase
+      .from('sync_jobs')
+      .update({
+        status: 'running',
+        attempts: next.attempts + 1,
+        started_at: now,
+        lease_expires_at: leaseExpiry(),
+        updated_at: now,
+      })
+      .eq('id', next.id)
+      .eq('status', 'queued')
+      .select()
+      .maybeSingle();
+
+    if (claimError) throw claimError;
+
+    // Another worker claimed it first; try the next one
+    return claimed ? fromRecord(claimed) : this.claimNextJob();
+  }
+
+  private async runJob(job: SyncJob): Promise<void> {
+    const baselineTracker = getBaselineTracker();
+    const { walletAddress } = job;
+
+    const heartbeat = setInterval(() => {
+      this.renewLease(job).catch((error) =>
+        console.error(`Failed to renew the lease of sync job ${job.id}:`, error)
+      );
+    }, JOB_HEARTBEAT_MS);
+
+    try {
+      await baselineTracker.setSyncStatus(walletAddress, { sync_status: 'syncing' });
+
+      const tracking = await baselineTracker.getWalletTracking(walletAddress);
+      if (!tracking || !tracking.last_tracked_tx) {
+        // Retrying cannot help until the wallet is initialized
+        await this.finishJob(job, 'failed', {
+          error: 'Wallet not initialized. Please call /api/wallet/init first.',
+        });
+        await baselineTracker.setSyncStatus(walletAddress, {
+          sync_status: 'failed',
+          last_sync_error: 'Wallet not initialized',
+        });
+        return;
+      }
+
+      // Settle round-ups held by deposits that were sent but never confirmed
+      try {
+        await getLendTransactionService().reconcileFailedDeposits(walletAddress);
+      } catch (error) {
+        console.error(`Failed to reconcile unconfirmed deposits for ${walletAddress}:`, error);
+      }
+
+      // Incremental from the stored baseline, like /api/roundups/track
+      const result = await getRoundupPipeline().run(walletAddress, {
+        afterSignature: tracking.last_tracked_tx,
+        advanceBaseline: true,
+      });
+
+      const now = new Date().toISOString();
+      await this.finishJob(job, 'completed', {
+        processed: result.processed,
+        stored: result.stored,
+        error: null,
+      });
+      await baselineTracker.setSyncStatus(walletAddress, {
+        sync_status: 'idle',
+        last_synced_at: now,
+        last_sync_error: null,
+      });
+
+      console.log(
+        `Synced ${walletAddress}: ${result.processed} transactions, ${result.stored} new round-ups`
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`Sync attempt ${job.attempts}/${job.maxAttempts} failed for ${walletAddress}:`, error);
+
+      if (job.attempts < job.maxAttempts) {
+        const retryAt = new Date(Date.now() + getRetryDelayMs(job.attempts));
+        await this.finishJob(job, 'queued', { error: message, run_after: retryAt.toISOString() });
+        await baselineTracker.setSyncStatus(walletAddress, {
+          sync_status: 'retrying',
+          last_sync_error: message,
+        });
+      } else {
+        await this.finishJob(job, 'failed', { error: message });
+        await baselineTracker.setSyncStatus(walletAddress, {
+          sync_status: 'failed',
+          last_sync_error: message,
+        });
+      }
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+
+  /**
+   * Extend a running job's lease while this worker still holds its claim
+   */
+  private async renewLease(job: SyncJob): Promise<void> {
+    const { error } = await this.supabase
+      .from('sync_jobs')
+      .update({ lease_expires_at: leaseExpiry() })
+      .eq('id', job.id)
+      .eq('status', 'running')
+      .eq('attempts', job.attempts);
+
+    if (error) throw error;
+  }
+
+  /**
+   * Record a job's outcome
+   * Only applies while this worker still holds the claim, so a run whose
+   * lease ran out cannot overwrite the job after it was requeued
+   */
+  private async finishJob(
+    job: SyncJob,
+    status: 'queued' | 'completed' | 'failed',
+    fields: Partial<Pick<SyncJobRecord, 'processed' | 'stored' | 'error' | 'run_after'>>
+  ): Promise<void> {
+    const now = new Date().toISOString();
+
+    const { error } = await this.supabase
+      .from('sync_jobs')
+      .update({
+        ...fields,
+        status,
+        finished_at: status === 'queued' ? null : now,
+        lease_expires_at: null,
+        updated_at: now,
+      })
+      .eq('id', job.id)
+      .eq('status', 'running')
+      .eq('attempts', job.attempts);
+
+    if (error) throw error;
+  }
+
+  /**
+   * Recover jobs whose lease ran out mid-run
+   * The interrupted run already counted as an attempt: jobs with attempts
+   * left are requeued after the usual backoff, the rest are marked failed
+   */
+  private async requeueStaleJobs(now: Date): Promise<void> {
+    const nowIso = now.toISOString();
+    const expired = new Date(now.getTime() - JOB_LEASE_MS).toISOString();
+
+    try {
+      // Jobs claimed before leases existed only have started_at to go by
+      const { data, error } = await this.supabase
+        .from('sync_jobs')
+        .select('*')
+        .eq('status', 'running')
+        .or(
+          `lease_expires_at.lt."${nowIso}",and(lease_expires_at.is.null,started_at.lt."${expired}")`
+        );
+
+      if (error) throw error;
+
+      for (const job of (data || []).map(fromRecord)) {
+        const message = 'Sync was interrupted before it finished';
+        const retry = job.attempts < job.maxAttempts;
+
+        await this.finishJob(
+          job,
+          retry ? 'queued' : 'failed',
+          retry
+            ? {
+                error: message,
+                run_after: new Date(now.getTime() + getRetryDelayMs(job.attempts)).toISOString(),
+              }
+            : { error: message }
+        );
+        await getBaselineTracker().setSyncStatus(job.walletAddress, {
+          sync_status: retry ? 'retrying' : 'failed',
+          last_sync_error: message,
+        });
+      }
+    } catch (error) {
+      console.error('Error recovering interrupted sync jobs:', error);
+    }
+  }
+}
+
+
+// Singleton instance
+let walletSyncWorkerInstance: WalletSyncWorker | null = null;
+
+export function getWalletSyncWorker(): WalletSyncWorker {
+  if (!walletSyncWorkerInstance) {
+    walletSyncWorkerInstance = new WalletSyncWorker();
+  }
+  return walletSyncWorkerInstance;
+}
+
+let syncTimer: ReturnType<typeof setInterval> | null = null;
+
+/**
+ * Start the in-process sync worker
+ * Ticks once a minute: due wallets are queued on their sync interval and
+ * retries run as soon as their backoff has passed
+ */
+export function startWalletSyncWorker(): void {
+  if (syncTimer) return;
+
+  const { intervalMinutes } = config.getSyncWorkerConfig();
+  console.log(`Wallet sync worker running, syncing every ${intervalMinutes} minutes`);
+
+  syncTimer = setInterval(() => {
+    getWalletSyncWorker()
+      .runOnce()
+      .catch((error) => console.error('Wallet sync run failed:', error));
+  }, 60 * 1000);
+}
+
+export function stopWalletSyncWorker(): void {
+  if (syncTimer) {
+    clearInterval(syncTimer);
+    syncTimer = null;
+  }
+}
@@ -0,0 +1,397 @@
+/**
+ * WebSocket Ingestion Service
+ * Near-real-time round-ups without Helius: every tracked wallet gets a
+ * logsSubscribe and accountSubscribe on the cluster's WS_ENDPOINT, and each
+ * notified transaction is fetched over plain RPC and routed into the
+ * round-up pipeline. A slot watchdog detects dead sockets; on reconnect
+ * every wallet is backfilled from its stored baseline.
+ */
+
+import { Connection, PublicKey } from '@solana/web3.js';
+import type { Logs } from '@solana/web3.js';
+import { config, getCurrentNetworkConfig } from '../config';
+import { getBaselineTracker } from './baseline-tracker';
+import { getHeliusService } from './helius-service';
+import { getRoundupPipeline } from './roundup-pipeline';
+import { toHeliusTransaction } from './rpc-transaction-parser';
+import { TransactionFetcher } from './transaction-fetcher';
+
+// Signatures walked per backfill (one getSignaturesForAddress page, the RPC
+// maximum); a longer gap continues in the next backfill
+const BACKFILL_SIGNATURE_LIMIT = 1000;
+
+// Signatures handed to the fetcher at a time during backfill
+const BACKFILL_BATCH_SIZE = 100;
+
+// Balance changes arrive in bursts; backfill once they settle
+const ACCOUNT_CHANGE_DEBOUNCE_MS = 5000;
+
+// Signatures remembered so a transaction notified twice is processed once
+const RECENT_SIGNATURE_LIMIT = 5000;
+
+interface WalletSubscription {
+  logs: number;
+  account: number;
+}
+
+// A backfill walk that did not reach the baseline yet
+interface BackfillWalk {
+  before: string; // Oldest signature walked so far; the walk continues below it
+  advanceTo: string | null; // Newest signature everything older than which has been processed
+}
+
+export class WebSocketIngestionService {
+  private connection: Connection | null = null;
+  private fetcher: TransactionFetcher | null = null;
+  private subscriptions = new Map<string, WalletSubscription>();
+  private slotSubscription: number | null = null;
+  private lastSlotAt = 0;
+  private recentSignatures = new Set<string>();
+  private backfillTimers = new Map<string, ReturnType<typeof setTimeout>>();
+  private backfillWalks = new Map<string, BackfillWalk>();
+  private watchdogTimer: ReturnType<typeof setInterval> | null = null;
+  private refreshTimer: ReturnType<typeof setInterval> | null = null;
+  private isRunning = false;
+  private isReconnecting = false;
+
+  // Notifications and backfills run one at a time, so a wallet's baseline
+  // is never moved by two backfills at once
+  private queue: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Open the socket, subscribe every tracked wallet and backfill the gap
+   * since each wallet's baseline
+   */
+  async start(): Promise<void> {
+    if (this.isRunning) return;
+    this.isRunning = true;
+
+    const { watchdogSeconds, refreshMinutes } = config.getWebSocketIngestionConfig();
+
+    this.watchdogTimer = setInterval(() => this.checkConnection(watchdogSeconds * 1000), 5000);
+    this.refreshTimer = setInterval(() => {
+      this.refreshWallets().catch((error) => console.error('WebSocket wallet refresh failed:', error));
+    }, refreshMinutes * 60 * 1000);
+
+    try {
+      await this.connect();
+    } catch (error) {
+      // The watchdog retries the connection
+      this.lastSlotAt = 0;
+      throw error;
+    }
+  }
+
+  async stop(): Promise<void> {
+    this.isRunning = false;
+    if (this.watchdogTimer) clearInterval(this.watchdogTimer);
+    if (this.refreshTimer) clearInterval(this.refreshTimer);
+    this.watchdogTimer = null;
+    this.refreshTimer = null;
+
+    for (const timer of this.backfillTimers.values()) clearTimeout(timer);
+    this.backfillTimers.clear();
+
+    await this.disconnect();
+  }
+
+  /**
+   * Subscribe wallets initialized since the last refresh and drop wallets
+   * that are no longer tracked
+   */
+  async refreshWallets(): Promise<void> {
+    const wallets = (await getBaselineTracker().getTrackedWallets())
+      .filter((tracking) => tracking.last_tracked_tx)
+      .map((tracking) => tracking.wallet_address);
+
+    for (const wallet of wallets) {
+      if (!this.subscriptions.has(wallet)) {
+        this.subscribeWallet(wallet);
+        this.scheduleBackfill(wallet, 0);
+      }
+    }
+
+    for (const wallet of Array.from(this.subscriptions.keys())) {
+      if (!wallets.includes(wallet)) {
+        await this.unsubscribeWallet(wallet);
+      }
+    }
+  }
+
+  /**
+   * Process the transactions since a wallet's baseline, one page at a
+   * time, and move the baseline forward once the walk reaches it
+   * Covers anything missed while the socket was down. A gap longer than a
+   * page continues in the next backfill; the baseline only moves past
+   * transactions that were processed, so ones that could not be fetched
+   * are retried.
+   * @param walletAddress Wallet address
+   * @returns Number of transactions walked
+   */
+  async backfill(walletAddress: string): Promise<number> {
+    const fetcher = this.fetcher;
+    if (!fetcher) return 0;
+
+    const baselineTracker = getBaselineTracker();
+    const tracking = await baselineTracker.getWalletTracking(walletAddress);
+    if (!tracking || !tracking.last_tracked_tx) return 0;
+
+    // Newest first, stopping at the baseline
+    const walk = this.backfillWalks.get(walletAddress);
+    const page = await fetcher.fetchSignatures(
+      new PublicKey(walletAddress),
+      BACKFILL_SIGNATURE_LIMIT,
+      walk?.before,
+      tracking.last_tracked_tx
+    );
+
+    if (!walk && page.length === 0) return 0;
+
+    const successful = page
+      .filter((info) => !info.err)
+      .map((info) => info.signature);
+
+    const unprocessed = new Set<string>();
+    for (let i = 0; i < successful.length; i += BACKFILL_BATCH_SIZE) {
+      const skipped = await this.processSignatures(walletAddress, successful.slice(i, i + BACKFILL_BATCH_SIZE));
+      skipped.forEach((signature) => unprocessed.add(signature));
+    }
+
+    // The baseline can move up to the signature just newer than the oldest
+    // unprocessed one; the walk goes from newest to oldest
+    let advanceTo = walk ? walk.advanceTo : page[0].signature;
+    let newer = walk ? walk.before : null;
+    for (const info of page) {
+      if (unprocessed.has(info.signature)) advanceTo = newer;
+      newer = info.signature;
+    }
+
+    if (page.length === BACKFILL_SIGNATURE_LIMIT) {
+      this.backfillWalks.set(walletAddress, { before: page[page.length - 1].signature, advanceTo });
+      this.scheduleBackfill(walletAddress, 0);
+      console.log(`WebSocket backfill for ${walletAddress}: ${page.length} transactions walked, continuing`);
+      return page.length;
+    }
+
+    this.backfillWalks.delete(walletAddress);
+    if (advanceTo) {
+      await baselineTracker.updateLastTracked(walletAddress, advanceTo);
+    }
+    if (unprocessed.size > 0) {
+      console.warn(`WebSocket backfill for ${walletAddress}: ${unprocessed.size} transactions could not be fetched, retrying on the next backfill`);
+    }
+    console.log(`WebSocket backfill for ${walletAddress}: reached baseline after ${page.length} transactions`);
+    return page.length;
+  }
+
+  private async connect(): Promise<void> {
+    const { RPC_ENDPOINT, WS_ENDPOINT } = getCurrentNetworkConfig();
+
+    this.connection = new Connection(RPC_ENDPOINT, {
+      wsEndpoint: WS_ENDPOINT,
+      commitment: 'confirmed',
+    });
+    // Transactions are fetched through the endpoint's shared rate limiter
+    this.fetcher = new TransactionFetcher(RPC_ENDPOINT);
+
+    this.lastSlotAt = Date.now();
+    this.slotSubscription = this.connection.onSlotChange(() => {
+      this.lastSlotAt = Date.now();
+    });
+
+    await this.refreshWallets();
+    console.log(`WebSocket ingestion subscribed to ${this.subscriptions.size} wallets on ${WS_ENDPOINT}`);
+  }
+
+  private async disconnect(): Promise<void> {
+    const connection = this.connection;
+    if (!connection) return;
+
+    this.connection = null;
+    const removals: Promise<void>[] = [];
+
+    if (this.slotSubscription !== null) {
+      removals.push(connection.removeSlotChangeListener(this.slotSubscription));
+      this.slotSubscription = null;
+    }
+
+    for (const subscription of this.subscriptions.values()) {
+      removals.push(connection.removeOnLogsListener(subscription.logs));
+      removals.push(connection.removeAccountChangeListener(subscription.account));
+    }
+    this.subscriptions.clear();
+
+    // The old socket may already be dead; nothing to clean up then
+    await Promise.allSettled(removals);
+  }
+
+  /**
+   * Reconnect when the socket has stopped delivering slot updates
+   * Subscriptions do not survive a dead socket, so everything is
+   * resubscribed and backfilled from the baselines
+   */
+  private checkConnection(timeoutMs: number): void {
+    if (!this.isRunning || this.isReconnecting) return;
+    if (Date.now() - this.lastSlotAt < timeoutMs) return;
+
+    console.warn(`No slot update for ${Math.round((Date.now() - this.lastSlotAt) / 1000)}s, reconnecting WebSocket ingestion`);
+    this.isReconnecting = true;
+
+    this.disconnect()
+      .then(() => this.connect())
+      .catch((error) => {
+        console.error('WebSocket reconnect failed:', error);
+        // Let the watchdog try again on its next check
+        this.lastSlotAt = 0;
+      })
+      .finally(() => {
+        this.isReconnecting = false;
+      });
+  }
+
+  private subscribeWallet(walletAddress: string): void {
+    if (!this.connection) return;
+
+    const publicKey = new PublicKey(walletAddress);
+
+    const logs = this.connection.onLogs(
+      publicKey,
+      (notification: Logs) => {
+        // Failed transactions move no funds
+        if (notification.err) return;
+        this.enqueue(() => this.processSignatures(walletAddress, [notification.signature]));
+      },
+      'confirmed'
+    );
+
+    // Balance changes without a logs notification (e.g. a dropped one)
+    // are caught by backfilling from the baseline
+    const account = this.connection.onAccountChange(
+      publicKey,
+      () => this.scheduleBackfill(walletAddress, ACCOUNT_CHANGE_DEBOUNCE_MS),
+      'confirmed'
+    );
+
+    this.subscriptions.set(walletAddress, { logs, account });
+  }
+
+  private async unsubscribeWallet(walletAddress: string): Promise<void> {
+    const subscription = this.subscriptions.get(walletAddress);
+    this.subscriptions.delete(walletAddress);
+
+    if (!subscription || !this.connection) return;
+
+    await Promise.allSettled([
+      this.connection.removeOnLogsListener(subscription.logs),
+      this.connection.removeAccountChangeListener(subscription.account),
+    ]);
+  }
+
+  private scheduleBackfill(walletAddress: string, delayMs: number): void {
+    const existing = this.backfillTimers.get(walletAddress);
+    if (existing) clearTimeout(existing);
+
+    this.backfillTimers.set(
+      walletAddress,
+      setTimeout(() => {
+        this.backfillTimers.delete(walletAddress);
+        this.enqueue(() => this.backfill(walletAddress));
+      }, delayMs)
+    );
+  }
+
+  private enqueue(task: () => Promise<unknown>): void {
+    this.queue = this.queue
+      .then(task)
+      .catch((error) => console.error('WebSocket ingestion task failed:', error));
+  }
+
+  /**
+   * Fetch transactions over RPC and store round-ups for the ones the wallet
+   * sent
+   * A signature is remembered only once its round-up has been stored
+   * @param walletAddress Wallet address
+   * @param signatures Signatures, newest first
+   * @returns Signatures that could not be fetched
+   */
+  private async processSignatures(walletAddress: string, signatures: string[]): Promise<string[]> {
+    const fetcher = this.fetcher;
+    if (!fetcher) return signatures;
+
+    const fresh = signatures.filter((signature) => !this.recentSignatures.has(`${walletAddress}:${signature}`));
+    if (fresh.length === 0) return [];
+
+    const transactions = await fetcher.fetchParsedTransactions(fresh);
+
+    const tracking = await getBaselineTracker().getWalletTracking(walletAddress);
+    const heliusService = getHeliusService();
+    const parsed = [];
+    const fetched: string[] = [];
+    const unfetched: string[] = [];
+
+    for (let i = 0; i < fresh.length; i++) {
+      const tx = transactions[i];
+      if (!tx) {
+        unfetched.push(fresh[i]);
+        continue;
+      }
+      fetched.push(fresh[i]);
+
+      const transaction = await heliusService.parseTransaction(
+        toHeliusTransaction(tx, fresh[i]),
+        walletAddress,
+        tracking?.linked_wallets || []
+      );
+      if (transaction && transaction.type === 'sent') {
+        parsed.push(transaction);
+      }
+    }
+
+    let failed = new Set<string>();
+    if (parsed.length > 0) {
+      const result = await getRoundupPipeline().processTransactions(walletAddress, parsed);
+      if (result.stored > 0) {
+        console.log(`WebSocket ingestion stored ${result.stored} round-ups for ${walletAddress}`);
+      }
+      failed = new Set(result.failedSignatures);
+    }
+
+    fetched
+      .filter((signature) => !failed.has(signature))
+      .forEach((signature) => this.rememberSignature(`${walletAddress}:${signature}`));
+    return unfetched;
+  }
+
+  private rememberSignature(key: string): void {
+    this.recentSignatures.add(key);
+
+    if (this.recentSignatures.size > RECENT_SIGNATURE_LIMIT) {
+      // Sets iterate in insertion order; drop the oldest
+      const oldest = this.recentSignatures.values().next().value;
+      if (oldest) this.recentSignatures.delete(oldest);
+    }
+  }
+}
+
+// Singleton instance
+let webSocketIngestionInstance: WebSocketIngestionService | null = null;
+
+export function getWebSocketIngestionService(): WebSocketIngestionService {
+  if (!webSocketIngestionInstance) {
+    webSocketIngestionInstance = new WebSocketIngestionService();
+  }
+  return webSocketIngestionInstance;
+}
+
+/**
+ * Start subscription-based ingestion for long-running servers
+ */
+export function startWebSocketIngestion(): void {
+  getWebSocketIngestionService()
+    .start()
+    .catch((error) => console.error('Failed to start WebSocket ingestion:', error));
+}
+
+export async function stopWebSocketIngestion(): Promise<void> {
+  await getWebSocketIngestionService().stop();
+}
@@ -17,5 +17,6 @@ export const supabase = createClient<Database>(supabaseUrl, supabaseAnonKey);
  * Use this in API routes
  */
 export function createServerClient() {
-  return createClient<Database>(supabaseUrl, supabaseAnonKey);
+  // The module-level check above does not narrow inside this function
+  return createClient<Database>(supabaseUrl as string, supabaseAnonKey as string);
 }
@@ -2,15 +2,46 @@
  * TypeScript types for Supabase database
  */
 
+import type {
+  AutoInvestCadence,
+  AutoInvestOutcome,
+  InvestmentAction,
+  SyncJobStatus,
+  SyncJobTrigger,
+  WalletSyncStatus,
+  PriceStatus,
+  ProposalStatus,
+  RoundupStatus,
+  ProposalType,
+  TransactionCategory,
+} from '../db/types';
+
 export interface WalletTracking {
   id: number;
   wallet_address: string;
   last_tracked_tx: string | null;
   last_tracked_at: string | null;
+  linked_wallets: string[]; // Other wallets owned by the same user
+  sync_status: WalletSyncStatus;
+  last_synced_at: string | null;
+  last_sync_error: string | null;
   created_at: string;
   updated_at: string;
 }
 
+/**
+ * One asset a round-up's transaction spent
+ * unit_price and usd_value are null until the asset is priced
+ */
+export interface RoundupOutflow {
+  token: string;
+  token_mint: string | null;
+  amount: number;
+  unit_price: number | null; // USD per token
+  usd_value: number | null;
+  price_source: string | null;
+}
+
 export interface RoundupRecord {
   id: number;
   wallet_address: string;
@@ -22,29 +53,213 @@ export interface RoundupRecord {
   usd_value: number;
   round_up_value: number;
   price_source: string;
+  price_status: PriceStatus;
+  outflows: RoundupOutflow[]; // Every asset spent; empty for records stored before per-asset pricing
+  status: RoundupStatus;
+  investment_id: number | null; // Investment that consumed this round-up
+  deposit_signature: string | null; // Unconfirmed deposit a failed round-up was sent in
+  deposit_sent_at: string | null;
+  created_at: string;
+}
+
+export interface PriceHistoryPoint {
+  id: number;
+  token_mint: string;
+  bucket: number; // Unix minute (timestamp / 60)
+  price: number;
+  source: string;
+  created_at: string;
+}
+
+export interface UserPreferencesRecord {
+  id: number;
+  wallet_address: string;
+  roundup_enabled: boolean;
+  percentage_enabled: boolean;
+  percentage_rate: number;
+  roundup_categories: TransactionCategory[];
+  auto_invest_enabled: boolean;
+  auto_invest_threshold: number;
+  auto_invest_cadence: AutoInvestCadence;
+  auto_invest_user_id: string | null; // Privy user who opted in
+  auto_invest_last_run_at: string | null;
+  auto_invest_lease_expires_at: string | null; // Held by the process evaluating the wallet
+  notify_on_proposal: boolean;
+  notify_on_execution: boolean;
   created_at: string;
+  updated_at: string;
+}
+
+export interface ContributionProposalRecord {
+  id: number;
+  wallet_address: string;
+  transaction_signature: string;
+  transaction_timestamp: string;
+  transaction_slot: number | null;
+  original_amount_sol: number;
+  original_amount_usd: number | null;
+  token_mint: string | null;
+  token_symbol: string | null;
+  sol_price_usd: number | null;
+  token_price_usd: number | null;
+  price_source: string | null;
+  price_status: PriceStatus;
+  proposal_type: ProposalType;
+  percentage_rate: number | null;
+  spare_change_amount_sol: number;
+  spare_change_amount_usd: number | null;
+  status: ProposalStatus;
+  execution_signature: string | null;
+  execution_timestamp: string | null;
+  execution_error: string | null;
+  created_at: string;
+  updated_at: string;
+  notes: string | null;
 }
 
 // Helper types for creating new records
-export type CreateWalletTracking = Omit<WalletTracking, 'id' | 'created_at' | 'updated_at'>;
+export interface InvestmentRecord {
+  id: number;
+  wallet_address: string;
+  action: InvestmentAction;
+  amount_usdc: number;
+  shares: number | null;
+  price_per_share: number | null;
+  roundup_ids: number[];
+  signature: string;
+  created_at: string;
+}
+
+export type CreateWalletTracking = Omit<
+  WalletTracking,
+  'id' | 'linked_wallets' | 'sync_status' | 'last_synced_at' | 'last_sync_error' | 'created_at' | 'updated_at'
+> & {
+  linked_wallets?: string[];
+};
 export type UpdateWalletTracking = Partial<Omit<WalletTracking, 'id' | 'wallet_address' | 'created_at'>>;
 
-export type CreateRoundupRecord = Omit<RoundupRecord, 'id' | 'created_at'>;
+export type CreateRoundupRecord = Omit<
+  RoundupRecord,
+  'id' | 'status' | 'investment_id' | 'deposit_signature' | 'deposit_sent_at' | 'created_at'
+> &
+  Partial<Pick<RoundupRecord, 'status' | 'investment_id' | 'deposit_signature' | 'deposit_sent_at'>>;
+
+export type CreatePriceHistoryPoint = Omit<PriceHistoryPoint, 'id' | 'created_at'>;
+
+export type CreateContributionProposalRecord = Omit<ContributionProposalRecord, 'id' | 'created_at' | 'updated_at'>;
+
+export type CreateInvestmentRecord = Omit<InvestmentRecord, 'id' | 'created_at'>;
+
+export interface AutoInvestLogRecord {
+  id: number;
+  wallet_address: string;
+  outcome: AutoInvestOutcome;
+  reason: string;
+  amount_usdc: number | null;
+  roundup_ids: number[];
+  signature: string | null;
+  investment_id: number | null;
+  created_at: string;
+}
+
+export type CreateAutoInvestLogRecord = Omit<AutoInvestLogRecord, 'id' | 'created_at'>;
+
+export interface SyncJobRecord {
+  id: string;
+  wallet_address: string;
+  trigger: SyncJobTrigger;
+  status: SyncJobStatus;
+  attempts: number;
+  max_attempts: number;
+  run_after: string;
+  started_at: string | null;
+  finished_at: string | null;
+  lease_expires_at: string | null; // Renewed by the worker while the job runs
+  processed: number | null;
+  stored: number | null;
+  error: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type CreateSyncJobRecord = Pick<SyncJobRecord, 'wallet_address' | 'trigger' | 'max_attempts'> &
+  Partial<Pick<SyncJobRecord, 'status' | 'run_after'>>;
+
+export interface HeliusWebhookEventRecord {
+  signature: string;
+  wallets: string[]; // Tracked wallets the transaction was routed to
+  received_at: string;
+}
+
+export type CreateUserPreferencesRecord = Omit<UserPreferencesRecord, 'id' | 'created_at' | 'updated_at'>;
 
 // Supabase database schema type
+/**
+ * Table entry in the shape supabase-js expects
+ * The record interfaces are flattened into object types so they satisfy the
+ * client's Record<string, unknown> constraints
+ */
+type Flatten<T> = { [K in keyof T]: T[K] };
+
+interface Table<Row, Insert, Update> {
+  Row: Flatten<Row>;
+  Insert: Flatten<Insert>;
+  Update: Flatten<Update>;
+  Relationships: [];
+}
+
 export interface Database {
   public: {
     Tables: {
-      wallet_tracking: {
-        Row: WalletTracking;
-        Insert: Omit<WalletTracking, 'id' | 'created_at' | 'updated_at'>;
-        Update: Partial<Omit<WalletTracking, 'id' | 'wallet_address' | 'created_at'>>;
-      };
-      roundup_records: {
-        Row: RoundupRecord;
-        Insert: Omit<RoundupRecord, 'id' | 'created_at'>;
-        Update: Partial<Omit<RoundupRecord, 'id' | 'wallet_address' | 'transaction_id'>>;
-      };
+      wallet_tracking: Table<
+        WalletTracking,
+        CreateWalletTracking,
+        Partial<Omit<WalletTracking, 'id' | 'wallet_address' | 'created_at'>>
+      >;
+      roundup_records: Table<
+        RoundupRecord,
+        CreateRoundupRecord,
+        Partial<Omit<RoundupRecord, 'id' | 'wallet_address' | 'transaction_id'>>
+      >;
+      price_history: Table<
+        PriceHistoryPoint,
+        Omit<PriceHistoryPoint, 'id' | 'created_at'>,
+        Partial<Omit<PriceHistoryPoint, 'id' | 'token_mint' | 'bucket'>>
+      >;
+      contribution_proposals: Table<
+        ContributionProposalRecord,
+        CreateContributionProposalRecord,
+        Partial<Omit<ContributionProposalRecord, 'id' | 'wallet_address' | 'transaction_signature' | 'proposal_type' | 'created_at'>>
+      >;
+      investments: Table<
+        InvestmentRecord,
+        CreateInvestmentRecord,
+        Partial<Omit<InvestmentRecord, 'id' | 'signature' | 'created_at'>>
+      >;
+      auto_invest_log: Table<
+        AutoInvestLogRecord,
+        CreateAutoInvestLogRecord,
+        Partial<Omit<AutoInvestLogRecord, 'id' | 'wallet_address' | 'created_at'>>
+      >;
+      sync_jobs: Table<
+        SyncJobRecord,
+        CreateSyncJobRecord,
+        Partial<Omit<SyncJobRecord, 'id' | 'wallet_address' | 'created_at'>>
+      >;
+      helius_webhook_events: Table<
+        HeliusWebhookEventRecord,
+        Omit<HeliusWebhookEventRecord, 'received_at'>,
+        Partial<Omit<HeliusWebhookEventRecord, 'signature'>>
+      >;
+      user_preferences: Table<
+        UserPreferencesRecord,
+        Partial<Omit<UserPreferencesRecord, 'id' | 'created_at'>> & { wallet_address: string },
+        Partial<Omit<UserPreferencesRecord, 'id' | 'wallet_address' | 'created_at'>>
+      >;
     };
+    Views: { [_ in never]: never };
+    Functions: { [_ in never]: never };
+    Enums: { [_ in never]: never };
+    CompositeTypes: { [_ in never]: never };
   };
 }
@@ -169,6 +169,41 @@ export async function getTokenDetails(
 	}
 }
 
+// The USDC lending token (jlUSDC) mint never changes, so look it up once
+let usdcLendingTokenAddress: PublicKey | null = null;
+
+/**
+ * Get lending token details for the USDC market (jlUSDC)
+ * Includes the current share conversion rates
+ */
+export async function getUSDCLendingTokenDetails(connection: Connection) {
+	try {
+		if (usdcLendingTokenAddress) {
+			return await getTokenDetails(
+				connection,
+				usdcLendingTokenAddress.toBase58()
+			);
+		}
+
+		const lendingTokens = await getLendingTokens({ connection });
+		for (const lendingToken of lendingTokens) {
+			const details = await getLendingTokenDetails({
+				lendingToken,
+				connection,
+			});
+			if (details.asset.equals(USDC_MAINNET_MINT_PUBKEY)) {
+				usdcLendingTokenAddress = lendingToken;
+				return details;
+			}
+		}
+
+		throw new Error("USDC lending token not found on Jupiter Lend");
+	} catch (error) {
+		console.error("Error fetching USDC lending token details:", error);
+		throw error;
+	}
+}
+
 /**
  * Get user's lending position for USDC
  */